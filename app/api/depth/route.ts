@@ -0,0 +1,10 @@
+import { BinanceProxy } from '@/lib/kline/binanceProxy';
+
+/**
+ * GET /api/depth — same-origin proxy for Binance `/depth` (same query parameters).
+ *
+ * Order book snapshots, cached for a second so simultaneous page loads share one upstream call.
+ */
+export function GET(request: Request): Promise<Response> {
+  return BinanceProxy.getInstance().depth(new URL(request.url).searchParams);
+}
@@ -0,0 +1,10 @@
+import { BinanceProxy } from '@/lib/kline/binanceProxy';
+
+/**
+ * GET /api/klines — same-origin proxy for Binance `/klines` (same query parameters).
+ *
+ * Closed candles are cached for everyone; the forming candle only for a second.
+ */
+export function GET(request: Request): Promise<Response> {
+  return BinanceProxy.getInstance().klines(new URL(request.url).searchParams);
+}
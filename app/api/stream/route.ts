@@ -0,0 +1,34 @@
+import { StreamRelay } from '@/lib/kline/streamRelay';
+
+function parseStreams(searchParams: URLSearchParams): string[] {
+  return (searchParams.get('streams') ?? '').split('/').filter(Boolean);
+}
+
+/**
+ * GET /api/stream?streams=btcusdt@kline_1m/btcusdt@trade — relays Binance
+ * market streams to the browser as Server-Sent Events, for networks that
+ * block outbound WebSocket connections.
+ *
+ * Events carry the combined-stream envelope (`{ stream, data }`). Reconnecting
+ * clients resume from the `Last-Event-ID` header; `lastEventId` in the query
+ * covers a fresh EventSource that can't set the header.
+ */
+export function GET(request: Request): Response {
+  const { searchParams } = new URL(request.url);
+  const streams = parseStreams(searchParams);
+  const lastEventId = request.headers.get('Last-Event-ID') ?? searchParams.get('lastEventId');
+  return StreamRelay.getInstance().open(streams, lastEventId, request.signal);
+}
+
+/**
+ * HEAD /api/stream?streams=... — validates the streams without opening
+ * upstream subscriptions. The SSE client uses it to read the status code
+ * after a failed EventSource connection, which the EventSource API hides.
+ */
+export function HEAD(request: Request): Response {
+  const streams = parseStreams(new URL(request.url).searchParams);
+  return (
+    StreamRelay.getInstance().validate(streams) ??
+    new Response(null, { headers: { 'Cache-Control': 'no-store' } })
+  );
+}
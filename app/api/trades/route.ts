@@ -0,0 +1,10 @@
+import { BinanceProxy } from '@/lib/kline/binanceProxy';
+
+/**
+ * GET /api/trades — same-origin proxy for Binance `/aggTrades` (same query parameters).
+ *
+ * Aggregated trades. Historical pages are cached; the latest trades only for a second.
+ */
+export function GET(request: Request): Promise<Response> {
+  return BinanceProxy.getInstance().trades(new URL(request.url).searchParams);
+}
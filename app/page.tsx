@@ -1,57 +1,112 @@
 'use client';
 
+import { useEffect, useState } from 'react';
 import { OrderBook } from '@/components/OrderBook';
-import { OptimizedKlineChart } from '@/lib/kline';
+import { OptimizedKlineChart, KlineInterval, ChartType } from '@/lib/kline';
 import { AssetCalculator } from '@/components/AssetCalculator';
 import { LiveTrades } from '@/components/LiveTrades';
+import { SymbolPalette } from '@/components/SymbolPalette';
+import { ConnectionStatusBadge } from '@/components/ConnectionStatusBadge';
+import { DiagnosticsPanel } from '@/components/DiagnosticsPanel';
 import { useBinanceOrderBook } from '@/hooks/useBinanceOrderBook';
 import { useBinanceTrades } from '@/hooks/useBinanceTrades';
+import { useSimulatedMarket } from '@/hooks/useSimulatedMarket';
+import { useMarketStore } from '@/stores/useMarketStore';
+import { toDisplaySymbol } from '@/lib/kline/symbols';
+
+// Native Binance intervals plus a few client-side resampled timeframes
+const CHART_INTERVALS: KlineInterval[] = [
+  '1s', '1m', '3m', '5m', '10m', '15m', '30m', '45m',
+  '1h', '2h', '4h', '6h', '12h', '1d', '2d', '3d', '1w', '1M',
+];
 
 export default function Home() {
-  // Initialize WebSocket connections
-  useBinanceOrderBook('btcusdt');
-  useBinanceTrades('btcusdt');
+  const [chartInterval, setChartInterval] = useState<KlineInterval>('1m');
+  const [chartType, setChartType] = useState<ChartType>('candles');
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+
+  // Active market is shared by the chart, order book and trades
+  const symbol = useMarketStore((state) => state.symbol);
+  const { base, quote } = toDisplaySymbol(symbol);
+
+  // Restore the persisted market, favorites and recents after hydration
+  useEffect(() => {
+    void useMarketStore.persist.rehydrate();
+  }, []);
+
+  // Feed stores from the simulator when it is the configured data source,
+  // otherwise initialize the Binance WebSocket connections
+  const isSimulated = useSimulatedMarket(symbol);
+  useBinanceOrderBook(symbol, !isSimulated);
+  useBinanceTrades(symbol, !isSimulated);
 
   return (
     <div className="min-h-screen bg-black p-4">
       {/* Header */}
-      <header className="mb-6">
-        <h1 className="text-3xl font-bold text-white mb-2">
-          Crypto Exchange Demo
-        </h1>
-        <p className="text-gray-400 text-sm">
-          Real-time BTC/USDT trading powered by Binance WebSocket API
-        </p>
+      <header className="mb-6 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-white mb-2">
+            Crypto Exchange Demo
+          </h1>
+          <p className="text-gray-400 text-sm">
+            Real-time {quote ? `${base}/${quote}` : base} trading powered by Binance
+            WebSocket API · press Ctrl+K to switch markets
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <ConnectionStatusBadge />
+          <button
+            onClick={() => setShowDiagnostics((show) => !show)}
+            className="text-xs text-gray-400 hover:text-white border border-gray-800 rounded px-2 py-0.5"
+          >
+            {showDiagnostics ? 'Hide diagnostics' : 'Diagnostics'}
+          </button>
+        </div>
       </header>
 
+      {/* Stream diagnostics */}
+      {showDiagnostics && (
+        <div className="mb-4">
+          <DiagnosticsPanel onClose={() => setShowDiagnostics(false)} />
+        </div>
+      )}
+
       {/* Main layout */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
         {/* Left column: Chart and Trades */}
         <div className="lg:col-span-2 space-y-4">
           {/* K-line Chart */}
           <OptimizedKlineChart
-            symbol="btcusdt"
-            interval="1m"
+            symbol={symbol}
+            onSymbolClick={() => setPaletteOpen(true)}
+            interval={chartInterval}
+            intervalOptions={CHART_INTERVALS}
+            onIntervalChange={setChartInterval}
+            chartType={chartType}
+            onChartTypeChange={setChartType}
             staleTime={5 * 60 * 1000}
             refetchOnWindowFocus={false}
           />
 
           {/* Recent Trades */}
-          {/* <LiveTrades /> */}
+          {/* <LiveTrades symbol={symbol} /> */}
         </div>
 
         {/* Right column: Order Book and Trading */}
         <div className="space-y-4">
           {/* Asset Calculator */}
-          {/* <AssetCalculator /> */}
+          {/* <AssetCalculator symbol={symbol} /> */}
 
           {/* Order Book */}
           <div className="h-[600px]">
-            {/* <OrderBook /> */}
+            {/* <OrderBook symbol={symbol} /> */}
           </div>
         </div>
       </div>
 
+      <SymbolPalette open={paletteOpen} onOpenChange={setPaletteOpen} />
+
       {/* Footer */}
       <footer className="mt-8 text-center text-gray-500 text-xs">
         <p>
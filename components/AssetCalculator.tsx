@@ -5,8 +5,9 @@ import { useCalculatorStore } from '@/stores/useCalculatorStore';
 import { useTradeStore } from '@/stores/useTradeStore';
 import { cn } from '@/lib/utils';
 import Decimal from 'decimal.js';
+import { useSymbolInfo } from '@/hooks/useSymbolInfo';
 
-export function AssetCalculator() {
+export function AssetCalculator({ symbol = 'btcusdt' }: { symbol?: string }) {
   const {
     side,
     orderType,
@@ -21,16 +22,26 @@ export function AssetCalculator() {
     getTotal,
     canExecute,
     executeTrade,
+    formatter,
+    setSymbolInfo,
   } = useCalculatorStore();
 
   const lastPrice = useTradeStore((state) => state.lastPrice);
+  const { data: symbolInfo } = useSymbolInfo(symbol);
+  const baseAsset = symbolInfo?.baseAsset ?? 'BTC';
+  const quoteAsset = symbolInfo?.quoteAsset ?? 'USDT';
+
+  // Hand the trading rules to the store so totals and balances use the symbol's precision
+  useEffect(() => {
+    setSymbolInfo(symbolInfo ?? null);
+  }, [symbolInfo, setSymbolInfo]);
 
   // Auto-fill price with last trade price for market orders
   useEffect(() => {
     if (orderType === 'market' && lastPrice !== '0') {
-      setPrice(lastPrice);
+      setPrice(formatter.formatPrice(lastPrice));
     }
-  }, [orderType, lastPrice, setPrice]);
+  }, [orderType, lastPrice, setPrice, formatter]);
 
   const handleQuantityChange = (value: string) => {
     // Allow only numbers and decimal point
@@ -53,12 +64,12 @@ export function AssetCalculator() {
         if (price && parseFloat(price) > 0) {
           const availableQuote = new Decimal(quoteBalance).mul(percentage);
           const calculatedQuantity = availableQuote.div(price);
-          setQuantity(calculatedQuantity.toFixed(8));
+          setQuantity(formatter.roundQuantity(calculatedQuantity));
         }
       } else {
         // Calculate quantity based on available BTC
         const availableBase = new Decimal(baseBalance).mul(percentage);
-        setQuantity(availableBase.toFixed(8));
+        setQuantity(formatter.roundQuantity(availableBase));
       }
     } catch (error) {
       console.error('Error calculating percentage:', error);
@@ -130,25 +141,25 @@ export function AssetCalculator() {
 
         {/* Price input */}
         <div className="space-y-1.5">
-          <label className="text-xs text-gray-400">Price (USDT)</label>
+          <label className="text-xs text-gray-400">Price ({quoteAsset})</label>
           <input
             type="text"
             value={price}
             onChange={(e) => handlePriceChange(e.target.value)}
             disabled={orderType === 'market'}
-            placeholder="0.00"
+            placeholder={formatter.formatPrice(0)}
             className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
           />
         </div>
 
         {/* Quantity input */}
         <div className="space-y-1.5">
-          <label className="text-xs text-gray-400">Quantity (BTC)</label>
+          <label className="text-xs text-gray-400">Quantity ({baseAsset})</label>
           <input
             type="text"
             value={quantity}
             onChange={(e) => handleQuantityChange(e.target.value)}
-            placeholder="0.00000000"
+            placeholder={formatter.formatQuantity(0)}
             className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
           />
         </div>
@@ -168,9 +179,9 @@ export function AssetCalculator() {
 
         {/* Total */}
         <div className="space-y-1.5">
-          <label className="text-xs text-gray-400">Total (USDT)</label>
+          <label className="text-xs text-gray-400">Total ({quoteAsset})</label>
           <div className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-white text-sm">
-            {total || '0.00'}
+            {formatter.formatQuote(total || 0)}
           </div>
         </div>
 
@@ -187,21 +198,21 @@ export function AssetCalculator() {
               : 'bg-gray-800 text-gray-500 cursor-not-allowed'
           )}
         >
-          {side === 'buy' ? 'Buy BTC' : 'Sell BTC'}
+          {side === 'buy' ? `Buy ${baseAsset}` : `Sell ${baseAsset}`}
         </button>
 
         {/* Balances */}
         <div className="pt-4 border-t border-gray-800 space-y-2">
           <div className="flex justify-between text-xs">
-            <span className="text-gray-400">Available BTC:</span>
+            <span className="text-gray-400">Available {baseAsset}:</span>
             <span className="text-white font-mono">
-              {parseFloat(baseBalance).toFixed(8)}
+              {formatter.formatBase(baseBalance)}
             </span>
           </div>
           <div className="flex justify-between text-xs">
-            <span className="text-gray-400">Available USDT:</span>
+            <span className="text-gray-400">Available {quoteAsset}:</span>
             <span className="text-white font-mono">
-              {parseFloat(quoteBalance).toFixed(2)}
+              {formatter.formatQuote(quoteBalance)}
             </span>
           </div>
         </div>
@@ -0,0 +1,98 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+import { useConnectionStatus } from '@/hooks/useConnectionStatus';
+import { getWebSocketTransport } from '@/lib/kline/transport';
+import { WebSocketState, type ConnectionStatus } from '@/lib/kline/types';
+
+type StatusTone = 'live' | 'connecting' | 'reconnecting' | 'paused' | 'failed';
+
+const TONE_STYLES: Record<StatusTone, { dot: string; text: string }> = {
+  live: { dot: 'bg-green-500', text: 'text-green-400' },
+  connecting: { dot: 'bg-blue-500 animate-pulse', text: 'text-blue-400' },
+  reconnecting: { dot: 'bg-yellow-500 animate-pulse', text: 'text-yellow-400' },
+  paused: { dot: 'bg-gray-500', text: 'text-gray-400' },
+  failed: { dot: 'bg-red-500', text: 'text-red-400' },
+};
+
+function toTone({ state, paused }: ConnectionStatus): StatusTone {
+  if (paused) return 'paused';
+  switch (state) {
+    case WebSocketState.CONNECTED:
+      return 'live';
+    case WebSocketState.CONNECTING:
+      return 'connecting';
+    case WebSocketState.RECONNECTING:
+    case WebSocketState.DISCONNECTED:
+      return 'reconnecting';
+    case WebSocketState.FAILED:
+      return 'failed';
+  }
+}
+
+function describe(status: ConnectionStatus): string {
+  const lines = [`${status.state} · ${status.url}`];
+  if (status.reason) lines.push(status.reason);
+  if (status.nextRetryAt !== null) {
+    lines.push(
+      `Retry ${status.attempt}/${status.maxAttempts} at ${new Date(status.nextRetryAt).toLocaleTimeString()}`
+    );
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Header badge listing every live stream with its connection state:
+ * live, connecting, reconnecting (with attempt count), paused (offline or
+ * hidden tab) or failed. Hover a stream for the reason and the next retry
+ * time; failed streams can be retried manually.
+ */
+export function ConnectionStatusBadge() {
+  const statuses = useConnectionStatus();
+
+  // One entry per stream; streams on a shared connection share its state
+  const streams = statuses.flatMap((status) =>
+    status.streams.map((stream) => ({ stream, status }))
+  );
+
+  if (streams.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-gray-500">
+        <div className="w-2 h-2 rounded-full bg-gray-600" />
+        No live streams
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {streams.map(({ stream, status }) => {
+        const tone = toTone(status);
+        const styles = TONE_STYLES[tone];
+        return (
+          <div
+            key={`${status.key}:${stream}`}
+            title={describe(status)}
+            className="flex items-center gap-1.5 rounded border border-gray-800 bg-gray-900 px-2 py-0.5 text-xs"
+          >
+            <div className={cn('w-2 h-2 rounded-full', styles.dot)} />
+            <span className="font-mono text-gray-300">{stream}</span>
+            <span className={styles.text}>
+              {tone === 'reconnecting' && status.attempt > 0
+                ? `reconnecting ${status.attempt}/${status.maxAttempts}`
+                : tone}
+            </span>
+            {tone === 'failed' && (
+              <button
+                onClick={() => getWebSocketTransport().reconnect(status.key)}
+                className="text-blue-400 hover:text-blue-300"
+              >
+                Retry
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { getWebSocketTransport } from '@/lib/kline/transport';
+import type { ConnectionMetrics } from '@/lib/kline/streamMetrics';
+import { WebSocketState } from '@/lib/kline/types';
+
+// Metrics are pulled from the WebSocket transport on this interval
+const REFRESH_INTERVAL = 1000;
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function formatLatency(ms: number | null): string {
+  return ms === null ? '---' : `${ms}ms`;
+}
+
+/**
+ * Live per-stream diagnostics: message rate, bytes, event-to-receive latency
+ * (from the `E` field), parse and callback errors, plus reconnect count,
+ * uptime and recent state changes per connection. Helps tell network,
+ * exchange and rendering slowness apart.
+ */
+export function DiagnosticsPanel({ onClose }: { onClose: () => void }) {
+  const [metrics, setMetrics] = useState<ConnectionMetrics[]>(() =>
+    getWebSocketTransport().getMetrics()
+  );
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      setMetrics(getWebSocketTransport().getMetrics());
+    }, REFRESH_INTERVAL);
+    return () => clearInterval(timer);
+  }, []);
+
+  const handleReset = () => {
+    const transport = getWebSocketTransport();
+    transport.resetMetrics();
+    setMetrics(transport.getMetrics());
+  };
+
+  return (
+    <div className="w-full bg-gray-900 rounded-lg overflow-hidden border border-gray-800">
+      {/* Header */}
+      <div className="bg-gray-800 px-4 py-2 border-b border-gray-700 flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-white">Stream Diagnostics</h2>
+        <div className="flex items-center gap-3">
+          <button onClick={handleReset} className="text-xs text-blue-400 hover:text-blue-300">
+            Reset
+          </button>
+          <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {metrics.length === 0 ? (
+        <div className="flex items-center justify-center py-8 text-gray-500 text-sm">
+          No active connections
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-800">
+          {metrics.map((connection) => (
+            <div key={connection.key} className="px-4 py-3 space-y-2">
+              {/* Connection summary */}
+              <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs">
+                <span className="font-mono text-gray-300 truncate">{connection.key}</span>
+                <span
+                  className={cn(
+                    connection.state === WebSocketState.CONNECTED && 'text-green-400',
+                    connection.state === WebSocketState.FAILED && 'text-red-400',
+                    connection.state !== WebSocketState.CONNECTED &&
+                      connection.state !== WebSocketState.FAILED &&
+                      'text-yellow-400'
+                  )}
+                >
+                  {connection.state}
+                </span>
+                <span className="text-gray-400">uptime {formatDuration(connection.uptime)}</span>
+                <span className="text-gray-400">reconnects {connection.reconnects}</span>
+                {connection.parseErrors > 0 && (
+                  <span className="text-red-400">parse errors {connection.parseErrors}</span>
+                )}
+              </div>
+
+              {/* Per-stream metrics */}
+              <table className="w-full text-xs font-mono">
+                <thead className="text-gray-500">
+                  <tr>
+                    <th className="text-left font-normal">Stream</th>
+                    <th className="text-right font-normal">msg/s</th>
+                    <th className="text-right font-normal">Messages</th>
+                    <th className="text-right font-normal">Received</th>
+                    <th className="text-right font-normal">Latency (last / avg / max)</th>
+                    <th className="text-right font-normal">Parse err</th>
+                    <th className="text-right font-normal">Callback err</th>
+                  </tr>
+                </thead>
+                <tbody className="text-gray-300">
+                  {connection.streams.map((stream) => (
+                    <tr key={stream.stream}>
+                      <td className="text-left">{stream.stream}</td>
+                      <td className="text-right">{stream.messagesPerSecond.toFixed(1)}</td>
+                      <td className="text-right">{stream.messages}</td>
+                      <td className="text-right">{formatBytes(stream.bytes)}</td>
+                      <td className="text-right">
+                        {formatLatency(stream.latency.last)} / {formatLatency(stream.latency.avg)} /{' '}
+                        {formatLatency(stream.latency.max)}
+                      </td>
+                      <td className={cn('text-right', stream.parseErrors > 0 && 'text-red-400')}>
+                        {stream.parseErrors}
+                      </td>
+                      <td className={cn('text-right', stream.callbackErrors > 0 && 'text-red-400')}>
+                        {stream.callbackErrors}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {/* Recent state changes */}
+              {connection.history.length > 0 && (
+                <details className="text-xs text-gray-400">
+                  <summary className="cursor-pointer text-gray-500">
+                    History ({connection.history.length})
+                  </summary>
+                  <ul className="mt-1 space-y-0.5 font-mono">
+                    {connection.history.map((entry, index) => (
+                      <li key={`${entry.at}-${index}`}>
+                        {new Date(entry.at).toLocaleTimeString()} {entry.state}
+                        {entry.reason && <span className="text-gray-500"> · {entry.reason}</span>}
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,11 +3,14 @@
 import { useTradeStore } from '@/stores/useTradeStore';
 import { cn } from '@/lib/utils';
 import { TrendingUp, TrendingDown } from 'lucide-react';
+import { useSymbolFormatter, useSymbolInfo } from '@/hooks/useSymbolInfo';
 
-export function LiveTrades() {
+export function LiveTrades({ symbol = 'btcusdt' }: { symbol?: string }) {
   const trades = useTradeStore((state) => state.trades);
   const lastPrice = useTradeStore((state) => state.lastPrice);
   const priceChange = useTradeStore((state) => state.priceChange);
+  const { data: symbolInfo } = useSymbolInfo(symbol);
+  const formatter = useSymbolFormatter(symbol);
 
   return (
     <div className="w-full bg-gray-900 rounded-lg overflow-hidden border border-gray-800">
@@ -23,7 +26,7 @@ export function LiveTrades() {
               priceChange === 0 && 'text-white'
             )}
           >
-            {lastPrice !== '0' ? parseFloat(lastPrice).toFixed(2) : '---'}
+            {lastPrice !== '0' ? formatter.formatPrice(lastPrice) : '---'}
           </span>
           {priceChange === 1 && <TrendingUp className="w-4 h-4 text-green-500" />}
           {priceChange === -1 && <TrendingDown className="w-4 h-4 text-red-500" />}
@@ -32,8 +35,8 @@ export function LiveTrades() {
 
       {/* Column headers */}
       <div className="flex justify-between px-4 py-2 text-xs font-medium text-gray-400 border-b border-gray-800">
-        <span className="flex-1">Price (USDT)</span>
-        <span className="flex-1 text-right">Amount (BTC)</span>
+        <span className="flex-1">Price ({symbolInfo?.quoteAsset ?? 'USDT'})</span>
+        <span className="flex-1 text-right">Amount ({symbolInfo?.baseAsset ?? 'BTC'})</span>
         <span className="flex-1 text-right">Time</span>
       </div>
 
@@ -63,10 +66,10 @@ export function LiveTrades() {
                     trade.isBuyerMaker ? 'text-red-500' : 'text-green-500'
                   )}
                 >
-                  {parseFloat(trade.price).toFixed(2)}
+                  {formatter.formatPrice(trade.price)}
                 </span>
                 <span className="flex-1 text-gray-300 text-right">
-                  {parseFloat(trade.quantity).toFixed(5)}
+                  {formatter.formatQuantity(trade.quantity)}
                 </span>
                 <span className="flex-1 text-gray-400 text-right">{timeStr}</span>
               </div>
@@ -1,17 +1,31 @@
 'use client';
 
-import { useEffect, useRef, useCallback, useSyncExternalStore } from 'react';
+import { useEffect, useRef, useCallback, useMemo, useSyncExternalStore } from 'react';
 import {
   createChart,
   IChartApi,
   ISeriesApi,
   ColorType,
   CandlestickSeries,
+  HistogramSeries,
+  HistogramData,
+  UTCTimestamp,
 } from 'lightweight-charts';
 import { Maximize2, Minimize2, AlertCircle, Loader2 } from 'lucide-react';
 import { useKlineData, useKlineSubscription } from '@/hooks/useKlineData';
 import { useAutoLoadKlineData } from '@/hooks/useAutoLoadKlineData';
-import { CandlestickData, KlineInterval } from '@/lib/kline/types';
+import { useSymbolFormatter, useSymbolInfo } from '@/hooks/useSymbolInfo';
+import { useKlineChartConfig } from '@/lib/kline/KlineChartProvider';
+import { KlineCandle, KlineInterval } from '@/lib/kline/types';
+import { getErrorMessage } from '@/lib/kline/errors';
+import { parseInterval } from '@/lib/kline/intervals';
+import { toDisplaySymbol } from '@/lib/kline/symbols';
+import {
+  ChartType,
+  CandleTransformOptions,
+  createCandleTransform,
+  isTimeBasedChartType,
+} from '@/lib/kline/transforms';
 
 /**
  * 根据容器宽度计算合适的 barSpacing（纯函数，无副作用）
@@ -23,6 +37,30 @@ function calculateBarSpacing(width: number): number {
   return 10;
 }
 
+/** 图表类型选项 */
+const CHART_TYPE_OPTIONS: { value: ChartType; label: string }[] = [
+  { value: 'candles', label: 'Candles' },
+  { value: 'heikin-ashi', label: 'Heikin-Ashi' },
+  { value: 'renko', label: 'Renko' },
+  { value: 'range', label: 'Range' },
+  { value: 'line-break', label: 'Line Break' },
+];
+
+/** 成交量柱颜色（与蜡烛颜色一致，降低不透明度） */
+const VOLUME_UP_COLOR = 'rgba(16, 185, 129, 0.5)';
+const VOLUME_DOWN_COLOR = 'rgba(239, 68, 68, 0.5)';
+
+/**
+ * 将 K 线转换为成交量柱数据，按涨跌着色（纯函数，无副作用）
+ */
+function toVolumeData(candle: KlineCandle): HistogramData<UTCTimestamp> {
+  return {
+    time: candle.time,
+    value: candle.volume,
+    color: candle.close >= candle.open ? VOLUME_UP_COLOR : VOLUME_DOWN_COLOR,
+  };
+}
+
 /**
  * 优化版 K 线图组件（基于 TanStack Query）
  *
@@ -36,8 +74,20 @@ function calculateBarSpacing(width: number): number {
  */
 interface OptimizedKlineChartProps {
   symbol?: string;
+  /** 点击交易对标题的回调（提供时标题可点击，用于打开交易对搜索） */
+  onSymbolClick?: () => void;
   interval?: KlineInterval;
-  /** 数据新鲜度时间（毫秒） */
+  /** 可选周期列表（与 onIntervalChange 同时提供时，标题栏显示周期选择器） */
+  intervalOptions?: readonly KlineInterval[];
+  /** 周期切换回调 */
+  onIntervalChange?: (interval: KlineInterval) => void;
+  /** 图表类型，默认 candles（切换时基于已加载数据重新计算，不会重新请求） */
+  chartType?: ChartType;
+  /** 图表类型切换回调（提供时标题栏显示图表类型选择器） */
+  onChartTypeChange?: (chartType: ChartType) => void;
+  /** Renko / 区间 K 线 / 折线突破的参数 */
+  transformOptions?: CandleTransformOptions;
+  /** 数据新鲜度时间（毫秒），默认取 Provider 的 cacheExpiry */
   staleTime?: number;
   /** 是否启用后台重新验证 */
   refetchOnWindowFocus?: boolean;
@@ -56,8 +106,14 @@ interface OptimizedKlineChartProps {
 
 export function OptimizedKlineChart({
   symbol = 'btcusdt',
+  onSymbolClick,
   interval = '1m',
-  staleTime = 5 * 60 * 1000,
+  intervalOptions,
+  onIntervalChange,
+  chartType = 'candles',
+  onChartTypeChange,
+  transformOptions,
+  staleTime,
   refetchOnWindowFocus = false,
   enableAutoLoad = false,
   autoLoadOptions = {},
@@ -66,7 +122,23 @@ export function OptimizedKlineChart({
   const wrapperRef = useRef<HTMLDivElement>(null);
   const chartRef = useRef<IChartApi | null>(null);
   const seriesRef = useRef<ISeriesApi<'Candlestick'> | null>(null);
+  const volumeSeriesRef = useRef<ISeriesApi<'Histogram'> | null>(null);
   const resizeTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // 当前生效的 K 线变换，供实时推送回调使用
+  const transformRef = useRef<ReturnType<typeof createCandleTransform> | null>(null);
+
+  // 图表样式和回调由 KlineChartProvider 注入
+  const { chartOptions, onError, onLoadingChange, enableCache, cacheExpiry } =
+    useKlineChartConfig();
+  const effectiveStaleTime = staleTime ?? (enableCache ? cacheExpiry : 0);
+  // 价格轴精度跟随交易对的 tickSize
+  const formatter = useSymbolFormatter(symbol);
+  // 标题按交易规则显示基础/计价资产，规则加载前按交易对写法推断
+  const { data: symbolInfo } = useSymbolInfo(symbol);
+  const market = symbolInfo
+    ? { base: symbolInfo.baseAsset, quote: symbolInfo.quoteAsset }
+    : toDisplaySymbol(symbol);
+  const title = market.quote ? `${market.base} / ${market.quote}` : market.base;
 
   /**
    * 使用 useSyncExternalStore 订阅全屏状态，消除 isFullscreen 冗余 state
@@ -109,7 +181,7 @@ export function OptimizedKlineChart({
   const autoLoadData = useAutoLoadKlineData({
     symbol,
     interval,
-    chartRef: chartRef.current,
+    chartRef,
     autoLoad: enableAutoLoad,
     staleTime,
     ...autoLoadOptions,
@@ -120,12 +192,49 @@ export function OptimizedKlineChart({
   const isFetchingPrevious = enableAutoLoad ? autoLoadData.isFetchingPrevious : false;
   const hasMore = enableAutoLoad ? autoLoadData.hasMore : false;
 
+  /**
+   * 当前图表类型对应的 K 线变换（原始 K 线为 null）
+   */
+  const { boxSize, rangeSize, atrPeriod, lineCount } = transformOptions ?? {};
+  const transform = useMemo(
+    () =>
+      chartType === 'candles'
+        ? null
+        : createCandleTransform(chartType, { boxSize, rangeSize, atrPeriod, lineCount }),
+    [chartType, boxSize, rangeSize, atrPeriod, lineCount]
+  );
+  // 砖形图等非时间驱动的图表与成交量柱无法对齐，不显示成交量
+  const showVolume = isTimeBasedChartType(chartType);
+
+  /**
+   * 将加载状态和错误通知给 Provider 注入的回调（与外部系统同步）
+   */
+  useEffect(() => {
+    onLoadingChange?.(isLoading);
+  }, [isLoading, onLoadingChange]);
+
+  useEffect(() => {
+    if (error) {
+      onError?.(error as Error);
+    }
+  }, [error, onError]);
+
   /**
    * 稳定的 onUpdate 回调，避免 useKlineSubscription 因回调变化而重复订阅
    * 使用 ref 获取 seriesRef.current，保证始终拿到最新实例
    */
-  const handleKlineUpdate = useCallback((klineData: CandlestickData) => {
-    seriesRef.current?.update(klineData);
+  const handleKlineUpdate = useCallback((klineData: KlineCandle) => {
+    const series = seriesRef.current;
+    if (!series) return;
+
+    if (transformRef.current) {
+      const { remove, bars } = transformRef.current.update(klineData);
+      if (remove > 0) series.pop(remove);
+      bars.forEach((bar) => series.update(bar));
+    } else {
+      series.update(klineData);
+    }
+    volumeSeriesRef.current?.update(toVolumeData(klineData));
   }, []);
 
   useKlineSubscription({
@@ -236,17 +345,74 @@ export function OptimizedKlineChart({
         clearTimeout(resizeTimeoutRef.current);
       }
       chart.remove();
+      chartRef.current = null;
     };
   }, [handleResize]);
 
   /**
-   * 当数据加载完成后更新图表
+   * 成交量柱放在独立的第二个窗格，高度约为主图的 1/4
+   * 不显示成交量时移除序列，空窗格随之移除
    */
   useEffect(() => {
+    const chart = chartRef.current;
+    if (!chart || !showVolume) return;
+
+    const volumeSeries = chart.addSeries(
+      HistogramSeries,
+      {
+        priceFormat: { type: 'volume' },
+        priceLineVisible: false,
+        lastValueVisible: false,
+      },
+      1
+    );
+    chart.panes()[1]?.setStretchFactor(0.25);
+    volumeSeriesRef.current = volumeSeries;
+
+    return () => {
+      volumeSeriesRef.current = null;
+      // 图表已销毁时无需移除
+      if (chartRef.current === chart) {
+        chart.removeSeries(volumeSeries);
+      }
+    };
+  }, [showVolume]);
+
+  /**
+   * Provider 注入的样式配置覆盖默认值（applyOptions 为深度合并，无需重建图表）
+   */
+  useEffect(() => {
+    if (chartOptions) {
+      chartRef.current?.applyOptions(chartOptions);
+    }
+  }, [chartOptions]);
+
+  /**
+   * 价格轴按交易对的 tickSize 显示精度
+   */
+  useEffect(() => {
+    seriesRef.current?.applyOptions({ priceFormat: formatter.priceFormat });
+  }, [formatter]);
+
+  /**
+   * 秒级周期显示到秒
+   */
+  useEffect(() => {
+    chartRef.current?.timeScale().applyOptions({
+      secondsVisible: parseInterval(interval).unit === 's',
+    });
+  }, [interval]);
+
+  /**
+   * 当数据加载完成或切换图表类型后更新图表
+   */
+  useEffect(() => {
+    transformRef.current = transform;
     if (data && seriesRef.current) {
-      seriesRef.current.setData(data);
+      seriesRef.current.setData(transform ? transform.load(data) : data);
+      volumeSeriesRef.current?.setData(data.map(toVolumeData));
     }
-  }, [data]);
+  }, [data, transform, showVolume]);
 
   return (
     <div
@@ -257,12 +423,49 @@ export function OptimizedKlineChart({
       <div className="bg-gray-800 px-4 py-2 border-b border-gray-700 flex items-center justify-between">
         <div className="flex items-center gap-4">
           <h2 className="text-sm font-semibold text-white">
-            {symbol.toUpperCase()} / USDT
+            {onSymbolClick ? (
+              <button
+                onClick={onSymbolClick}
+                className="hover:text-blue-300"
+                title="Switch market (Ctrl+K)"
+              >
+                {title}
+              </button>
+            ) : (
+              title
+            )}
           </h2>
-          <span className="text-xs text-gray-400">{interval}</span>
-          {staleTime && (
+          {intervalOptions && onIntervalChange ? (
+            <select
+              value={interval}
+              onChange={(e) => onIntervalChange(e.target.value as KlineInterval)}
+              className="bg-gray-900 text-xs text-gray-300 border border-gray-700 rounded px-1 py-0.5"
+            >
+              {intervalOptions.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <span className="text-xs text-gray-400">{interval}</span>
+          )}
+          {onChartTypeChange && (
+            <select
+              value={chartType}
+              onChange={(e) => onChartTypeChange(e.target.value as ChartType)}
+              className="bg-gray-900 text-xs text-gray-300 border border-gray-700 rounded px-1 py-0.5"
+            >
+              {CHART_TYPE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          )}
+          {effectiveStaleTime > 0 && (
             <span className="text-xs text-gray-500" title="Cache stale time">
-              🚀 {staleTime / 1000}s cache
+              🚀 {effectiveStaleTime / 1000}s cache
             </span>
           )}
         </div>
@@ -277,7 +480,7 @@ export function OptimizedKlineChart({
             <div className="flex items-center gap-2">
               <AlertCircle className="w-4 h-4 text-red-400" />
               <span className="text-xs text-red-400" title={(error as Error).message}>
-                Error
+                {getErrorMessage(error)}
               </span>
               <button
                 onClick={() => refetch()}
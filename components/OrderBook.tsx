@@ -3,8 +3,9 @@
 import { useRef } from 'react';
 import { useVirtualizer } from '@tanstack/react-virtual';
 import { useOrderBookStore } from '@/stores/useOrderBookStore';
-import Decimal from 'decimal.js';
 import { cn } from '@/lib/utils';
+import { useSymbolFormatter, useSymbolInfo } from '@/hooks/useSymbolInfo';
+import { SymbolFormatter } from '@/lib/kline/format';
 
 function OrderBookRow({
   price,
@@ -12,12 +13,14 @@ function OrderBookRow({
   total,
   percentage,
   type,
+  formatter,
 }: {
   price: string;
   quantity: string;
   total: string;
   percentage: number;
   type: 'bid' | 'ask';
+  formatter: SymbolFormatter;
 }) {
   return (
     <div className="relative h-6 flex items-center text-xs font-mono">
@@ -38,50 +41,33 @@ function OrderBookRow({
             type === 'bid' ? 'text-green-500' : 'text-red-500'
           )}
         >
-          {parseFloat(price).toFixed(2)}
+          {formatter.formatPrice(price)}
         </span>
         <span className="flex-1 text-gray-300 text-right">
-          {parseFloat(quantity).toFixed(5)}
+          {formatter.formatQuantity(quantity)}
         </span>
         <span className="flex-1 text-gray-400 text-right">
-          {parseFloat(total).toFixed(2)}
+          {formatter.formatQuote(total)}
         </span>
       </div>
     </div>
   );
 }
 
-export function OrderBook() {
+export function OrderBook({ symbol = 'btcusdt' }: { symbol?: string }) {
   const bids = useOrderBookStore((state) => state.bids);
   const asks = useOrderBookStore((state) => state.asks);
+  const { data: symbolInfo } = useSymbolInfo(symbol);
+  const formatter = useSymbolFormatter(symbol);
+  const baseAsset = symbolInfo?.baseAsset ?? 'BTC';
+  const quoteAsset = symbolInfo?.quoteAsset ?? 'USDT';
 
   const asksRef = useRef<HTMLDivElement>(null);
   const bidsRef = useRef<HTMLDivElement>(null);
 
-  // Calculate cumulative totals and percentages
-  const processLevels = (levels: typeof bids) => {
-    let cumulativeTotal = new Decimal(0);
-    const processed = levels.map((level) => {
-      const quantity = new Decimal(level.quantity);
-      const price = new Decimal(level.price);
-      const total = quantity.mul(price);
-      cumulativeTotal = cumulativeTotal.plus(total);
-      return {
-        ...level,
-        total: cumulativeTotal.toFixed(2),
-      };
-    });
-
-    // Calculate percentages
-    const maxTotal = cumulativeTotal.toNumber();
-    return processed.map((item) => ({
-      ...item,
-      percentage: maxTotal > 0 ? (parseFloat(item.total) / maxTotal) * 100 : 0,
-    }));
-  };
-
-  const processedAsks = processLevels([...asks].reverse()); // Reverse for display
-  const processedBids = processLevels(bids);
+  // Snapshots already carry cumulative totals and percentages
+  const processedAsks = [...asks].reverse(); // Reverse for display
+  const processedBids = bids;
 
   // Virtual scrollers
   const asksVirtualizer = useVirtualizer({
@@ -107,9 +93,9 @@ export function OrderBook() {
 
       {/* Column headers */}
       <div className="flex justify-between px-3 py-2 text-xs font-medium text-gray-400 border-b border-gray-800">
-        <span className="flex-1">Price (USDT)</span>
-        <span className="flex-1 text-right">Amount (BTC)</span>
-        <span className="flex-1 text-right">Total (USDT)</span>
+        <span className="flex-1">Price ({quoteAsset})</span>
+        <span className="flex-1 text-right">Amount ({baseAsset})</span>
+        <span className="flex-1 text-right">Total ({quoteAsset})</span>
       </div>
 
       {/* Content split into asks and bids */}
@@ -144,6 +130,7 @@ export function OrderBook() {
                     total={item.total}
                     percentage={item.percentage}
                     type="ask"
+                    formatter={formatter}
                   />
                 </div>
               );
@@ -155,7 +142,7 @@ export function OrderBook() {
         <div className="flex items-center justify-between px-3 py-2 bg-gray-800 border-y border-gray-700">
           <span className="text-lg font-bold text-white">
             {processedBids[0]?.price
-              ? parseFloat(processedBids[0].price).toFixed(2)
+              ? formatter.formatPrice(processedBids[0].price)
               : '---'}
           </span>
           <span className="text-xs text-gray-400">Current Price</span>
@@ -191,6 +178,7 @@ export function OrderBook() {
                     total={item.total}
                     percentage={item.percentage}
                     type="bid"
+                    formatter={formatter}
                   />
                 </div>
               );
@@ -0,0 +1,192 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Search, Star, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useSymbolCatalog } from '@/hooks/useSymbolInfo';
+import { useMarketStore } from '@/stores/useMarketStore';
+import { searchSymbols } from '@/lib/kline/symbolSearch';
+import { getErrorMessage } from '@/lib/kline/errors';
+import type { SymbolInfo } from '@/lib/kline/exchangeInfo';
+
+// Maximum number of rows rendered for a search
+const RESULT_LIMIT = 50;
+
+interface SymbolPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Keyboard-driven market switcher.
+ *
+ * - Cmd/Ctrl+K toggles the palette from anywhere on the page
+ * - Arrow keys move the selection, Enter switches market, Esc closes
+ * - With an empty query it lists favorites first, then recent picks
+ */
+export function SymbolPalette({ open, onOpenChange }: SymbolPaletteProps) {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [open, onOpenChange]);
+
+  if (!open) return null;
+
+  // Mounted only while open, so the query and selection reset on every open
+  return <SymbolPaletteContent onClose={() => onOpenChange(false)} />;
+}
+
+function SymbolPaletteContent({ onClose }: { onClose: () => void }) {
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const { data: catalog, isLoading, error } = useSymbolCatalog();
+  const activeSymbol = useMarketStore((state) => state.symbol);
+  const favorites = useMarketStore((state) => state.favorites);
+  const recents = useMarketStore((state) => state.recents);
+  const setSymbol = useMarketStore((state) => state.setSymbol);
+  const toggleFavorite = useMarketStore((state) => state.toggleFavorite);
+
+  const favoriteSet = useMemo(() => new Set(favorites), [favorites]);
+
+  const results = useMemo(() => {
+    if (!catalog) return [];
+    if (query.trim()) {
+      return searchSymbols(catalog, query, { limit: RESULT_LIMIT, favorites: favoriteSet });
+    }
+
+    // Empty query: favorites, then recents not already listed
+    const bySymbol = new Map(catalog.map((info) => [info.symbol, info]));
+    const symbols = [...favorites, ...recents.filter((symbol) => !favoriteSet.has(symbol))];
+    return symbols
+      .map((symbol) => bySymbol.get(symbol))
+      .filter((info): info is SymbolInfo => info !== undefined);
+  }, [catalog, query, favorites, recents, favoriteSet]);
+
+  // Clamp instead of resetting in an effect when the result list shrinks
+  const selectedIndex = Math.min(selected, Math.max(results.length - 1, 0));
+
+  // Keep the highlighted row visible while navigating with the keyboard
+  useEffect(() => {
+    const row = listRef.current?.children[selectedIndex] as HTMLElement | undefined;
+    row?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIndex]);
+
+  const choose = (info: SymbolInfo) => {
+    setSymbol(info.symbol);
+    onClose();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setSelected(Math.min(selectedIndex + 1, results.length - 1));
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setSelected(Math.max(selectedIndex - 1, 0));
+        break;
+      case 'Enter':
+        e.preventDefault();
+        if (results[selectedIndex]) choose(results[selectedIndex]);
+        break;
+      case 'Escape':
+        e.preventDefault();
+        onClose();
+        break;
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center bg-black/60 pt-24"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-label="Switch market"
+        className="w-full max-w-lg bg-gray-900 rounded-lg overflow-hidden border border-gray-700 shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        {/* Search input */}
+        <div className="flex items-center gap-2 px-4 py-3 border-b border-gray-800">
+          <Search className="w-4 h-4 text-gray-500" />
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setSelected(0);
+            }}
+            placeholder="Search markets, e.g. eth, eth/btc, usdc"
+            className="flex-1 bg-transparent text-sm text-white placeholder-gray-500 outline-none"
+          />
+          <kbd className="text-[10px] text-gray-500 border border-gray-700 rounded px-1">ESC</kbd>
+        </div>
+
+        {/* Results */}
+        {isLoading ? (
+          <div className="flex items-center justify-center gap-2 py-8 text-gray-500 text-sm">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading markets...
+          </div>
+        ) : error ? (
+          <div className="py-8 text-center text-red-400 text-sm">{getErrorMessage(error)}</div>
+        ) : results.length === 0 ? (
+          <div className="py-8 text-center text-gray-500 text-sm">
+            {query.trim() ? 'No matching markets' : 'Search for a market to get started'}
+          </div>
+        ) : (
+          <ul ref={listRef} className="max-h-80 overflow-y-auto py-1">
+            {results.map((info, index) => {
+              const isFavorite = favoriteSet.has(info.symbol);
+              return (
+                <li
+                  key={info.symbol}
+                  onMouseMove={() => setSelected(index)}
+                  onClick={() => choose(info)}
+                  className={cn(
+                    'flex items-center justify-between px-4 py-2 cursor-pointer text-sm',
+                    index === selectedIndex ? 'bg-gray-800' : 'hover:bg-gray-800/50'
+                  )}
+                >
+                  <span className="font-mono text-white">
+                    {info.baseAsset}
+                    <span className="text-gray-500"> / {info.quoteAsset}</span>
+                  </span>
+                  <span className="flex items-center gap-3">
+                    {info.symbol.toLowerCase() === activeSymbol && (
+                      <span className="text-xs text-blue-400">Active</span>
+                    )}
+                    <button
+                      type="button"
+                      aria-label={isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        toggleFavorite(info.symbol);
+                      }}
+                      className="text-gray-500 hover:text-yellow-400"
+                    >
+                      <Star
+                        className={cn('w-4 h-4', isFavorite && 'fill-yellow-400 text-yellow-400')}
+                      />
+                    </button>
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,9 @@
 'use client';
 
-import { useEffect, useRef, useCallback, useState } from 'react';
+import { useEffect, useRef, useCallback, useState, RefObject } from 'react';
 import { IChartApi } from 'lightweight-charts';
 import { CandlestickData, KlineInterval } from '@/lib/kline/types';
+import { isRateLimitError } from '@/lib/kline/RequestScheduler';
 import { useInfiniteKlineData } from './useKlineData';
 
 /**
@@ -14,7 +15,7 @@ interface UseAutoLoadKlineDataOptions {
   /** K 线时间周期 */
   interval: KlineInterval;
   /** 图表实例引用 */
-  chartRef: IChartApi | null;
+  chartRef: RefObject<IChartApi | null>;
   /** 是否启用自动加载 */
   autoLoad?: boolean;
   /** 初始加载数据条数 */
@@ -27,7 +28,7 @@ interface UseAutoLoadKlineDataOptions {
   debounceMs?: number;
   /** 最大页数限制 */
   maxPages?: number;
-  /** 数据新鲜度时间（毫秒） */
+  /** 数据新鲜度时间（毫秒），默认取 Provider 的 cacheExpiry */
   staleTime?: number;
 }
 
@@ -46,7 +47,7 @@ interface UseAutoLoadKlineDataOptions {
  * const { data, isLoading, isFetchingPrevious, hasMore } = useAutoLoadKlineData({
  *   symbol: 'btcusdt',
  *   interval: '1m',
- *   chartRef: chartRef.current,
+ *   chartRef,
  *   autoLoad: true,
  * });
  * ```
@@ -62,7 +63,7 @@ export function useAutoLoadKlineData(options: UseAutoLoadKlineDataOptions) {
     threshold = 20,
     debounceMs = 300,
     maxPages = 10,
-    staleTime = 5 * 60 * 1000,
+    staleTime,
   } = options;
 
   // 使用无限查询获取数据
@@ -90,22 +91,25 @@ export function useAutoLoadKlineData(options: UseAutoLoadKlineDataOptions) {
   const debounceTimerRef = useRef<NodeJS.Timeout | null>(null);
   const rafIdRef = useRef<number | null>(null);
   const isLoadingRef = useRef(false);
+  // 被限频时暂停自动加载，直到 Retry-After 到期
+  const pausedUntilRef = useRef(0);
 
   /**
    * 检查是否需要加载更多数据
    */
   const checkNeedMoreData = useCallback(() => {
-    if (!chartRef || !autoLoad || !data || data.length === 0) {
+    const chart = chartRef.current;
+    if (!chart || !autoLoad || !data || data.length === 0) {
       return false;
     }
 
-    // 如果正在加载或没有更多数据，跳过
-    if (isLoadingRef.current || !hasNextPage) {
+    // 如果正在加载、没有更多数据或处于限频暂停期，跳过
+    if (isLoadingRef.current || !hasNextPage || Date.now() < pausedUntilRef.current) {
       return false;
     }
 
     try {
-      const timeScale = chartRef.timeScale();
+      const timeScale = chart.timeScale();
       const visibleRange = timeScale.getVisibleLogicalRange();
 
       if (!visibleRange) {
@@ -153,13 +157,19 @@ export function useAutoLoadKlineData(options: UseAutoLoadKlineDataOptions) {
         isLoadingRef.current = true;
         triggerCountRef.current += 1;
 
-        fetchNextPage().finally(() => {
-          isLoadingRef.current = false;
-          // 重置触发计数（成功加载后）
-          setTimeout(() => {
-            triggerCountRef.current = 0;
-          }, 5000);
-        });
+        fetchNextPage()
+          .then((result) => {
+            if (isRateLimitError(result.error)) {
+              pausedUntilRef.current = Date.now() + (result.error.retryAfter ?? 0);
+            }
+          })
+          .finally(() => {
+            isLoadingRef.current = false;
+            // 重置触发计数（成功加载后）
+            setTimeout(() => {
+              triggerCountRef.current = 0;
+            }, 5000);
+          });
       }
     }, delay);
   }, [autoLoad, hasNextPage, debounceMs, checkNeedMoreData, fetchNextPage]);
@@ -168,7 +178,8 @@ export function useAutoLoadKlineData(options: UseAutoLoadKlineDataOptions) {
    * 监控可见范围变化
    */
   useEffect(() => {
-    if (!chartRef || !autoLoad || !data || data.length === 0) {
+    const chart = chartRef.current;
+    if (!chart || !autoLoad || !data || data.length === 0) {
       return;
     }
 
@@ -191,17 +202,15 @@ export function useAutoLoadKlineData(options: UseAutoLoadKlineDataOptions) {
     };
 
     // 订阅可见范围变化
-    const timeScale = chartRef.timeScale();
-    const unsubscribe = timeScale.subscribeVisibleLogicalRangeChange(
-      handleVisibleRangeChange
-    );
+    const timeScale = chart.timeScale();
+    timeScale.subscribeVisibleLogicalRangeChange(handleVisibleRangeChange);
 
     // 初始检查
     handleVisibleRangeChange();
 
     return () => {
       isSubscribed = false;
-      unsubscribe();
+      timeScale.unsubscribeVisibleLogicalRangeChange(handleVisibleRangeChange);
 
       if (rafIdRef.current !== null) {
         cancelAnimationFrame(rafIdRef.current);
@@ -0,0 +1,19 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import {
+  getBinanceEndpoints,
+  subscribeBinanceEndpoints,
+} from '@/lib/kline/endpoints';
+
+/**
+ * Returns the active Binance REST/WebSocket endpoints and re-renders when
+ * they are switched with setBinanceEndpoints.
+ */
+export function useBinanceEndpoints() {
+  return useSyncExternalStore(
+    subscribeBinanceEndpoints,
+    getBinanceEndpoints,
+    getBinanceEndpoints
+  );
+}
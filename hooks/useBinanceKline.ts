@@ -1,7 +1,10 @@
 'use client';
 
-import { useEffect, useRef } from 'react';
-import { KlineEvent } from '@/types/binance';
+import { useEffect } from 'react';
+import { binanceCombinedStreamUrl } from '@/lib/kline/endpoints';
+import { getWebSocketTransport } from '@/lib/kline/transport';
+import { useBinanceEndpoints } from './useBinanceEndpoints';
+import { parseBinanceMessage } from '@/lib/kline/binanceSchemas';
 import { IChartApi } from 'lightweight-charts';
 
 export function useBinanceKline(
@@ -9,30 +12,26 @@ export function useBinanceKline(
   interval: string = '1m',
   chartApi: IChartApi | null
 ) {
-  const wsRef = useRef<WebSocket | null>(null);
+  const endpoints = useBinanceEndpoints();
 
   useEffect(() => {
     if (!chartApi) return;
 
-    // WebSocket URL for kline stream
-    const wsUrl = `wss://stream.binance.com:9443/ws/${symbol}@kline_${interval}`;
-
-    // Create WebSocket connection
-    const ws = new WebSocket(wsUrl);
-    wsRef.current = ws;
-
-    ws.onopen = () => {
-      console.log(`WebSocket connected: ${symbol} kline ${interval}`);
-    };
-
-    ws.onmessage = (event) => {
-      try {
-        const data: KlineEvent = JSON.parse(event.data);
-        const kline = data.k;
+    // Subscribe over the shared combined-stream connection, so reconnects,
+    // heartbeats and any injected WebSocket factory apply here as well
+    const stream = `${symbol}@kline_${interval}`;
+    const unsubscribe = getWebSocketTransport().subscribeStream(
+      binanceCombinedStreamUrl(endpoints),
+      stream,
+      (data) => {
+        // Malformed messages and error frames are quarantined and reported by the parser
+        const message = parseBinanceMessage(data, { source: 'useBinanceKline', stream });
 
         // Update chart with new kline data
         // Note: We'll handle this in the component
-        if (kline) {
+        if (message?.type === 'kline') {
+          const kline = message.data.k;
+
           // Dispatch custom event with kline data
           window.dispatchEvent(
             new CustomEvent('kline-update', {
@@ -46,26 +45,12 @@ export function useBinanceKline(
             })
           );
         }
-      } catch (error) {
-        console.error('Error parsing kline data:', error);
       }
-    };
-
-    ws.onerror = (error) => {
-      console.error('WebSocket error:', error);
-    };
-
-    ws.onclose = () => {
-      console.log('WebSocket disconnected: kline');
-    };
+    );
 
     // Cleanup on unmount
-    return () => {
-      if (ws.readyState === WebSocket.OPEN) {
-        ws.close();
-      }
-    };
-  }, [symbol, interval, chartApi]);
+    return unsubscribe;
+  }, [symbol, interval, endpoints, chartApi]);
 
   return null;
 }
@@ -1,53 +1,47 @@
 'use client';
 
-import { useEffect, useRef } from 'react';
+import { useEffect } from 'react';
+import { binanceCombinedStreamUrl } from '@/lib/kline/endpoints';
+import { getMarketDataFeed } from '@/lib/kline/MarketDataFeed';
+import { RAF_DELIVERY } from '@/lib/kline/delivery';
+import type { DeliveryPolicy } from '@/lib/kline/types';
+import type { OrderBookSnapshot } from '@/lib/kline/marketSnapshots';
+import { useBinanceEndpoints } from './useBinanceEndpoints';
 import { useOrderBookStore } from '@/stores/useOrderBookStore';
-import { OrderBookUpdate } from '@/types/binance';
 
-export function useBinanceOrderBook(symbol: string = 'btcusdt') {
-  const wsRef = useRef<WebSocket | null>(null);
-  const updateOrderBook = useOrderBookStore((state) => state.updateOrderBook);
+/**
+ * Streams order book snapshots into the store.
+ *
+ * Snapshots are coalesced to one per animation frame by default; pass a
+ * stable `delivery` policy to change that (animation frames don't fire in
+ * background tabs).
+ */
+export function useBinanceOrderBook(
+  symbol: string = 'btcusdt',
+  enabled: boolean = true,
+  delivery: DeliveryPolicy<OrderBookSnapshot> = RAF_DELIVERY
+) {
+  const endpoints = useBinanceEndpoints();
+  const setOrderBook = useOrderBookStore((state) => state.setOrderBook);
   const reset = useOrderBookStore((state) => state.reset);
 
   useEffect(() => {
+    if (!enabled) return;
+
     // Reset order book on mount
     reset();
 
-    // WebSocket URL for order book depth stream
-    const wsUrl = `wss://stream.binance.com:9443/ws/${symbol}@depth@100ms`;
-
-    // Create WebSocket connection
-    const ws = new WebSocket(wsUrl);
-    wsRef.current = ws;
-
-    ws.onopen = () => {
-      console.log(`WebSocket connected: ${symbol} order book`);
-    };
-
-    ws.onmessage = (event) => {
-      try {
-        const data: OrderBookUpdate = JSON.parse(event.data);
-        updateOrderBook(data);
-      } catch (error) {
-        console.error('Error parsing order book data:', error);
-      }
-    };
-
-    ws.onerror = (error) => {
-      console.error('WebSocket error:', error);
-    };
-
-    ws.onclose = () => {
-      console.log('WebSocket disconnected: order book');
-    };
+    // Parsing and order book maintenance run in the market data worker (or
+    // inline when workers are unavailable); only snapshots reach the store
+    const unsubscribe = getMarketDataFeed().subscribeOrderBook(
+      { baseUrl: binanceCombinedStreamUrl(endpoints), stream: `${symbol}@depth@100ms` },
+      setOrderBook,
+      { delivery }
+    );
 
     // Cleanup on unmount
-    return () => {
-      if (ws.readyState === WebSocket.OPEN) {
-        ws.close();
-      }
-    };
-  }, [symbol, updateOrderBook, reset]);
+    return unsubscribe;
+  }, [symbol, enabled, endpoints, delivery, setOrderBook, reset]);
 
   return null;
 }
@@ -1,53 +1,47 @@
 'use client';
 
-import { useEffect, useRef } from 'react';
+import { useEffect } from 'react';
+import { binanceCombinedStreamUrl } from '@/lib/kline/endpoints';
+import { getMarketDataFeed } from '@/lib/kline/MarketDataFeed';
+import { RAF_DELIVERY } from '@/lib/kline/delivery';
+import type { DeliveryPolicy } from '@/lib/kline/types';
+import type { TradeSnapshot } from '@/lib/kline/marketSnapshots';
+import { useBinanceEndpoints } from './useBinanceEndpoints';
 import { useTradeStore } from '@/stores/useTradeStore';
-import { TradeData } from '@/types/binance';
 
-export function useBinanceTrades(symbol: string = 'btcusdt') {
-  const wsRef = useRef<WebSocket | null>(null);
-  const addTrade = useTradeStore((state) => state.addTrade);
+/**
+ * Streams recent trade snapshots into the store.
+ *
+ * Snapshots are coalesced to one per animation frame by default; pass a
+ * stable `delivery` policy to change that (animation frames don't fire in
+ * background tabs).
+ */
+export function useBinanceTrades(
+  symbol: string = 'btcusdt',
+  enabled: boolean = true,
+  delivery: DeliveryPolicy<TradeSnapshot> = RAF_DELIVERY
+) {
+  const endpoints = useBinanceEndpoints();
+  const setTrades = useTradeStore((state) => state.setTrades);
   const reset = useTradeStore((state) => state.reset);
 
   useEffect(() => {
+    if (!enabled) return;
+
     // Reset trades on mount
     reset();
 
-    // WebSocket URL for trade stream
-    const wsUrl = `wss://stream.binance.com:9443/ws/${symbol}@trade`;
-
-    // Create WebSocket connection
-    const ws = new WebSocket(wsUrl);
-    wsRef.current = ws;
-
-    ws.onopen = () => {
-      console.log(`WebSocket connected: ${symbol} trades`);
-    };
-
-    ws.onmessage = (event) => {
-      try {
-        const data: TradeData = JSON.parse(event.data);
-        addTrade(data);
-      } catch (error) {
-        console.error('Error parsing trade data:', error);
-      }
-    };
-
-    ws.onerror = (error) => {
-      console.error('WebSocket error:', error);
-    };
-
-    ws.onclose = () => {
-      console.log('WebSocket disconnected: trades');
-    };
+    // Parsing runs in the market data worker (or inline when workers are
+    // unavailable); only snapshots of the latest trades reach the store
+    const unsubscribe = getMarketDataFeed().subscribeTrades(
+      { baseUrl: binanceCombinedStreamUrl(endpoints), stream: `${symbol}@trade` },
+      setTrades,
+      { delivery }
+    );
 
     // Cleanup on unmount
-    return () => {
-      if (ws.readyState === WebSocket.OPEN) {
-        ws.close();
-      }
-    };
-  }, [symbol, addTrade, reset]);
+    return unsubscribe;
+  }, [symbol, enabled, endpoints, delivery, setTrades, reset]);
 
   return null;
 }
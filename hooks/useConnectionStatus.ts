@@ -0,0 +1,38 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import { getWebSocketTransport } from '@/lib/kline/transport';
+import type { ConnectionStatus } from '@/lib/kline/types';
+
+const EMPTY_STATUSES: readonly ConnectionStatus[] = [];
+
+function subscribe(listener: () => void) {
+  return getWebSocketTransport().subscribeStatus(listener);
+}
+
+function getSnapshot() {
+  return getWebSocketTransport().getStatusSnapshot();
+}
+
+function getServerSnapshot() {
+  return EMPTY_STATUSES;
+}
+
+/**
+ * Live status of every WebSocket connection managed by the WebSocket transport
+ * (in-page or shared across tabs).
+ * Re-renders on each state transition (CONNECTING, CONNECTED, RECONNECTING,
+ * FAILED, DISCONNECTED) and when streams are added to a shared connection.
+ */
+export function useConnectionStatus(): readonly ConnectionStatus[] {
+  return useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+}
+
+/**
+ * Status of the connection carrying a single stream, e.g. `btcusdt@trade`.
+ * Returns undefined when the stream is not subscribed.
+ */
+export function useStreamStatus(stream: string | undefined): ConnectionStatus | undefined {
+  const statuses = useConnectionStatus();
+  return stream ? statuses.find((status) => status.streams.includes(stream)) : undefined;
+}
@@ -1,11 +1,23 @@
 'use client';
 
-import { useQuery, useQueryClient, useInfiniteQuery } from '@tanstack/react-query';
-import { useEffect, useRef, useMemo } from 'react';
-import { CandlestickData, KlineInterval } from '@/lib/kline/types';
-import { BinanceDataSource } from '@/lib/kline/BinanceDataSource';
-import { WebSocketManager } from '@/lib/kline/WebSocketManager';
-import { UTCTimestamp } from 'lightweight-charts';
+import {
+  useQuery,
+  useQueryClient,
+  useInfiniteQuery,
+  InfiniteData,
+} from '@tanstack/react-query';
+import { useEffect, useRef, useMemo, useState } from 'react';
+import { DeliveryPolicy, KlineCandle, KlineInterval, WebSocketState } from '@/lib/kline/types';
+import { useKlineChartConfig } from '@/lib/kline/KlineChartProvider';
+import { shouldRetryQuery } from '@/lib/kline/RetryPolicy';
+import { intervalToMs } from '@/lib/kline/intervals';
+import { findGap, mergeCandles, KlineGap } from '@/lib/kline/gaps';
+import { klineEvents } from '@/lib/kline/events';
+import { isAbortError } from '@/lib/kline/abort';
+import { useStreamStatus } from './useConnectionStatus';
+
+/** 单次补齐的最大 K 线数量，超过时直接重新拉取（如休眠很久后恢复） */
+const MAX_BACKFILL_CANDLES = 5000;
 
 /**
  * K 线数据查询选项
@@ -19,7 +31,7 @@ interface UseKlineDataOptions {
   limit?: number;
   /** 是否启用查询 */
   enabled?: boolean;
-  /** 数据新鲜度时间（毫秒），在此时间内不会重新请求 */
+  /** 数据新鲜度时间（毫秒），在此时间内不会重新请求，默认取 Provider 的 cacheExpiry */
   staleTime?: number;
   /** 缓存时间（毫秒） */
   cacheTime?: number;
@@ -52,24 +64,19 @@ export function useKlineData(options: UseKlineDataOptions) {
     interval,
     limit = 100,
     enabled = true,
-    staleTime = 5 * 60 * 1000, // 默认 5 分钟
     cacheTime = 10 * 60 * 1000, // 默认 10 分钟
     refetchOnWindowFocus = false,
   } = options;
 
-  const dataSourceRef = useRef<BinanceDataSource | undefined>(undefined);
-
-  // 懒加载数据源
-  if (!dataSourceRef.current) {
-    dataSourceRef.current = new BinanceDataSource({
-      enableCache: false, // TanStack Query 会处理缓存
-    });
-  }
+  // 数据源由 KlineChartProvider 注入
+  const { dataSource, enableCache, cacheExpiry } = useKlineChartConfig();
+  const staleTime = options.staleTime ?? (enableCache ? cacheExpiry : 0);
 
   return useQuery({
-    queryKey: ['kline', symbol, interval, limit],
-    queryFn: async () => {
-      const data = await dataSourceRef.current!.fetchHistorical(symbol, interval, limit);
+    queryKey: ['kline', dataSource.id, symbol, interval, limit],
+    // 切换交易对/周期或组件卸载时，TanStack Query 会取消 signal，终止请求和重试
+    queryFn: async ({ signal }) => {
+      const data = await dataSource.fetchHistorical(symbol, interval, limit, signal);
       return data;
     },
     enabled,
@@ -77,7 +84,7 @@ export function useKlineData(options: UseKlineDataOptions) {
     gcTime: cacheTime, // TanStack Query v5 使用 gcTime 替代 cacheTime
     refetchOnWindowFocus,
     // 错误重试配置
-    retry: 3,
+    retry: shouldRetryQuery,
     retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
   });
 }
@@ -96,7 +103,7 @@ interface UseInfiniteKlineDataOptions {
   pageSize?: number;
   /** 是否启用查询 */
   enabled?: boolean;
-  /** 数据新鲜度时间（毫秒） */
+  /** 数据新鲜度时间（毫秒），默认取 Provider 的 cacheExpiry */
   staleTime?: number;
   /** 缓存时间（毫秒） */
   cacheTime?: number;
@@ -132,49 +139,45 @@ export function useInfiniteKlineData(options: UseInfiniteKlineDataOptions) {
     initialLimit = 100,
     pageSize = 100,
     enabled = true,
-    staleTime = 5 * 60 * 1000,
     cacheTime = 10 * 60 * 1000,
     maxPages = 10,
   } = options;
 
-  const dataSourceRef = useRef<BinanceDataSource | undefined>(undefined);
-
-  // 懒加载数据源
-  if (!dataSourceRef.current) {
-    dataSourceRef.current = new BinanceDataSource({
-      enableCache: false, // TanStack Query 会处理缓存
-    });
-  }
+  // 数据源由 KlineChartProvider 注入
+  const { dataSource, enableCache, cacheExpiry } = useKlineChartConfig();
+  const staleTime = options.staleTime ?? (enableCache ? cacheExpiry : 0);
 
   const infiniteQuery = useInfiniteQuery<
-    CandlestickData[],
+    KlineCandle[],
     Error,
-    { pages: CandlestickData[][]; pageParams: (number | undefined)[] },
+    { pages: KlineCandle[][]; pageParams: (number | undefined)[] },
     string[],
     number | undefined
   >({
-    queryKey: ['kline-infinite', symbol, interval],
+    queryKey: ['kline-infinite', dataSource.id, symbol, interval],
     queryFn: async (context) => {
-      const { pageParam } = context;
+      const { pageParam, signal } = context;
 
       // 第一页：获取最新的数据
       if (pageParam === undefined) {
-        const data = await dataSourceRef.current!.fetchHistorical(
+        const data = await dataSource.fetchHistorical(
           symbol,
           interval,
-          initialLimit
+          initialLimit,
+          signal
         );
         return data;
       }
 
       // 后续页：获取指定时间之前的数据
-      const data = await dataSourceRef.current!.fetchHistoricalByTimeRange(
+      const data = await dataSource.fetchHistoricalByTimeRange(
         symbol,
         interval,
         {
           endTime: pageParam,
           limit: pageSize,
-        }
+        },
+        signal
       );
       return data;
     },
@@ -197,7 +200,7 @@ export function useInfiniteKlineData(options: UseInfiniteKlineDataOptions) {
     enabled,
     staleTime,
     gcTime: cacheTime,
-    retry: 3,
+    retry: shouldRetryQuery,
     retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
   });
 
@@ -206,15 +209,15 @@ export function useInfiniteKlineData(options: UseInfiniteKlineDataOptions) {
     if (!infiniteQuery.data?.pages) return [];
 
     // 合并所有页面
-    const allData: CandlestickData[] = infiniteQuery.data.pages.flat();
+    const allData: KlineCandle[] = infiniteQuery.data.pages.flat();
 
     // 按时间去重（使用 Map 保证唯一性）
     const uniqueData = Array.from(
-      new Map(allData.map((item: CandlestickData) => [item.time, item])).values()
+      new Map(allData.map((item: KlineCandle) => [item.time, item])).values()
     );
 
     // 按时间排序（从旧到新）
-    return uniqueData.sort((a: CandlestickData, b: CandlestickData) => a.time - b.time);
+    return uniqueData.sort((a: KlineCandle, b: KlineCandle) => a.time - b.time);
   }, [infiniteQuery.data?.pages]);
 
   return {
@@ -235,9 +238,19 @@ export function useInfiniteKlineData(options: UseInfiniteKlineDataOptions) {
  * 功能特性：
  * - 📡 实时数据推送
  * - 🔄 自动重连
- * - 🎯 自动更新 TanStack Query 缓存
+ * - 🩹 断线缺口检测：重连后第一根推送与最后一根已知 K 线不相邻时，通过 REST 补齐
+ * - 🎯 自动更新 TanStack Query 缓存（补齐数据同时写入普通查询和无限查询的最新页）
  * - 🧹 自动清理订阅
  *
+ * 补齐完成后触发 klineEvents 的 dataRepaired 事件（失败时为 dataRepairFailed）。
+ *
+ * isConnected 跟随 WebSocket 传输层的连接状态：断线、重连中和失败时为 false，
+ * connectionStatus 提供重连次数、下次重连时间等细节（不经过 WebSocket 的数据源为 undefined）。
+ *
+ * delivery 指定推送的投递策略（默认每帧最多一次）：后台告警等需要每条推送的场景使用
+ * `{ mode: 'every' }`，后台仍需定期更新时使用 throttle（后台标签页不触发动画帧）。
+ * latest 策略只写入 target，不会更新缓存和调用 onUpdate。策略对象需保持引用稳定，变化时会重新订阅。
+ *
  * @example
  * ```tsx
  * const { data, isConnected } = useKlineSubscription({
@@ -251,74 +264,173 @@ export function useKlineSubscription(options: {
   symbol: string;
   interval: KlineInterval;
   enabled?: boolean;
-  onUpdate?: (data: CandlestickData) => void;
+  onUpdate?: (data: KlineCandle) => void;
+  delivery?: DeliveryPolicy<KlineCandle>;
 }) {
-  const { symbol, interval, enabled = true, onUpdate } = options;
+  const { symbol, interval, enabled = true, onUpdate, delivery } = options;
   const queryClient = useQueryClient();
-  const wsManager = useRef(WebSocketManager.getInstance());
-  const latestDataRef = useRef<CandlestickData | null>(null);
+  const { dataSource } = useKlineChartConfig();
+  const latestDataRef = useRef<KlineCandle | null>(null);
+  // 已收到推送的订阅标识，用于判断当前订阅是否已连通
+  const [receivingKey, setReceivingKey] = useState<string | null>(null);
+  const subscriptionKey = `${dataSource.id}_${symbol.toLowerCase()}_${interval}`;
+  // 推送所在连接的实时状态（渲染期间计算，交易对无法识别时不抛出，订阅本身会报告错误）
+  const streamId = useMemo(() => {
+    if (!enabled) return undefined;
+    try {
+      return dataSource.getStreamId?.(symbol, interval);
+    } catch {
+      return undefined;
+    }
+  }, [dataSource, symbol, interval, enabled]);
+  const connectionStatus = useStreamStatus(streamId);
 
   useEffect(() => {
     if (!enabled) return;
 
-    const key = `${symbol.toLowerCase()}_${interval}`;
-    const url = `wss://stream.binance.com:9443/ws/${symbol.toLowerCase()}@kline_${interval}`;
+    const queryKey = ['kline', dataSource.id, symbol, interval];
+    const infiniteQueryKey = ['kline-infinite', dataSource.id, symbol, interval];
+    // 卸载或切换交易对/周期时取消未完成的补齐请求
+    const controller = new AbortController();
+    // 最后一根已知 K 线的开盘时间（秒），首次推送时从查询缓存中读取
+    let lastTime: number | null = null;
+
+    /**
+     * 查询缓存中最新一根 K 线的开盘时间（秒）
+     */
+    const getCachedLastTime = (): number | null => {
+      const latestPage = queryClient.getQueryData<
+        InfiniteData<KlineCandle[], number | undefined>
+      >(infiniteQueryKey)?.pages[0];
+      const times = queryClient
+        .getQueriesData<KlineCandle[]>({ queryKey })
+        .map(([, candles]) => candles?.[candles.length - 1]?.time)
+        .concat(latestPage?.[latestPage.length - 1]?.time)
+        .filter((time) => time !== undefined);
+
+      return times.length > 0 ? Math.max(...times) : null;
+    };
 
-    // 订阅 WebSocket
-    const unsubscribe = wsManager.current.subscribe(
-      key,
-      url,
-      (message: any) => {
-        try {
-          const kline = message.k;
-          if (!kline) return;
+    /**
+     * 通过 REST 补齐缺口并合并进查询缓存（图表随缓存变化重新 setData）
+     */
+    const repairGap = async (gap: KlineGap) => {
+      const event = {
+        dataSourceId: dataSource.id,
+        symbol,
+        interval,
+        from: gap.startTime,
+        to: gap.endTime,
+      };
+
+      // 缺口过大时补齐不如直接重新拉取
+      if ((gap.endTime - gap.startTime) / intervalToMs(interval) > MAX_BACKFILL_CANDLES) {
+        console.warn(`[useKlineSubscription] Gap too large for ${subscriptionKey}, refetching`);
+        queryClient.invalidateQueries({ queryKey });
+        queryClient.resetQueries({ queryKey: infiniteQueryKey });
+        return;
+      }
 
-          const data: CandlestickData = {
-            time: Math.floor(kline.t / 1000) as UTCTimestamp,
-            open: parseFloat(kline.o),
-            high: parseFloat(kline.h),
-            low: parseFloat(kline.l),
-            close: parseFloat(kline.c),
-          };
+      const startedAt = Date.now();
+      try {
+        const candles = await dataSource.fetchHistoricalRange(symbol, interval, {
+          startTime: gap.startTime,
+          endTime: gap.endTime,
+          signal: controller.signal,
+        });
+
+        queryClient.setQueriesData<KlineCandle[]>({ queryKey }, (oldData) =>
+          oldData ? mergeCandles(oldData, candles) : oldData
+        );
+        // 无限查询的实时数据只在图表上，合并时带上最新推送，避免 setData 后丢失当前 K 线
+        const latest = latestDataRef.current;
+        const incoming = latest ? [...candles, latest] : candles;
+        queryClient.setQueryData<InfiniteData<KlineCandle[], number | undefined>>(
+          infiniteQueryKey,
+          (oldData) =>
+            oldData && {
+              ...oldData,
+              pages: [mergeCandles(oldData.pages[0] ?? [], incoming), ...oldData.pages.slice(1)],
+            }
+        );
+
+        console.log(
+          `[useKlineSubscription] Repaired ${candles.length} candles for ${subscriptionKey}`
+        );
+        klineEvents.emit('dataRepaired', {
+          ...event,
+          candles: candles.length,
+          duration: Date.now() - startedAt,
+        });
+      } catch (error) {
+        if (isAbortError(error)) return;
+        console.error(`[useKlineSubscription] Failed to repair gap for ${subscriptionKey}:`, error);
+        klineEvents.emit('dataRepairFailed', { ...event, error });
+      }
+    };
+
+    // 通过注入的数据源订阅（消息解析和连接管理由数据源负责）
+    // 交易对无法识别时数据源同步抛出 INVALID_SYMBOL：只记录，错误由历史数据查询展示
+    let unsubscribe: () => void;
+    try {
+      unsubscribe = dataSource.subscribe(symbol, interval, (data) => {
+        try {
+          // 与最后一根已知 K 线之间有缺口（断线、标签页后台期间漏掉的 K 线）时补齐
+          const knownTime = lastTime ?? getCachedLastTime();
+          if (knownTime !== null) {
+            const gap = findGap(knownTime, data.time, interval);
+            if (gap) {
+              console.warn(
+                `[useKlineSubscription] Gap detected for ${subscriptionKey}: ${gap.startTime} - ${gap.endTime}`
+              );
+              void repairGap(gap);
+            }
+          }
+          lastTime = Math.max(knownTime ?? data.time, data.time);
 
           // 保存最新数据
           latestDataRef.current = data;
+          setReceivingKey(subscriptionKey);
 
           // 调用用户回调
           onUpdate?.(data);
 
-          // 乐观更新 TanStack Query 缓存
-          queryClient.setQueryData(
-            ['kline', symbol, interval, 100],
-            (oldData: CandlestickData[] | undefined) => {
-              if (!oldData) return oldData;
-
-              // 检查是否是同一根 K 线的更新
-              const lastCandle = oldData[oldData.length - 1];
-              if (lastCandle && lastCandle.time === data.time) {
-                // 更新最后一根 K 线
-                return [...oldData.slice(0, -1), data];
-              } else {
-                // 添加新的 K 线
-                return [...oldData, data];
-              }
+          // 乐观更新 TanStack Query 缓存（覆盖所有 limit 的查询）
+          queryClient.setQueriesData<KlineCandle[]>({ queryKey }, (oldData) => {
+            if (!oldData) return oldData;
+
+            // 检查是否是同一根 K 线的更新
+            const lastCandle = oldData[oldData.length - 1];
+            if (lastCandle && lastCandle.time === data.time) {
+              // 更新最后一根 K 线
+              return [...oldData.slice(0, -1), data];
+            } else {
+              // 添加新的 K 线
+              return [...oldData, data];
             }
-          );
+          });
         } catch (error) {
           console.error('[useKlineSubscription] Error processing message:', error);
         }
-      },
-      5 // 最大重连次数
-    );
+      }, { delivery });
+    } catch (error) {
+      console.error(`[useKlineSubscription] Failed to subscribe ${subscriptionKey}:`, error);
+      return () => controller.abort();
+    }
 
     return () => {
+      controller.abort();
       unsubscribe();
     };
-  }, [symbol, interval, enabled, onUpdate, queryClient]);
+  }, [symbol, interval, enabled, onUpdate, delivery, queryClient, dataSource, subscriptionKey]);
 
   return {
     data: latestDataRef.current,
-    isConnected: wsManager.current.getState(`${symbol.toLowerCase()}_${interval}`) === 'CONNECTED',
+    isConnected:
+      enabled &&
+      receivingKey === subscriptionKey &&
+      (streamId === undefined || connectionStatus?.state === WebSocketState.CONNECTED),
+    connectionStatus,
   };
 }
 
@@ -0,0 +1,47 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useOrderBookStore } from '@/stores/useOrderBookStore';
+import { useTradeStore } from '@/stores/useTradeStore';
+import { useKlineChartConfig } from '@/lib/kline/KlineChartProvider';
+import { SimulatedDataSource } from '@/lib/kline/SimulatedDataSource';
+import { createOrderBookBuilder, createTradeTape } from '@/lib/kline/marketSnapshots';
+
+/**
+ * Feeds the order book and trade stores from the simulated market when the
+ * KlineChartProvider is configured with a SimulatedDataSource, so the chart,
+ * order book and trades all follow the same synthetic price path.
+ *
+ * Returns whether the simulator is active; callers use it to disable the
+ * live Binance streams.
+ */
+export function useSimulatedMarket(symbol: string = 'btcusdt') {
+  const { dataSource } = useKlineChartConfig();
+  const isSimulated = dataSource instanceof SimulatedDataSource;
+
+  const setOrderBook = useOrderBookStore((state) => state.setOrderBook);
+  const resetOrderBook = useOrderBookStore((state) => state.reset);
+  const setTrades = useTradeStore((state) => state.setTrades);
+  const resetTrades = useTradeStore((state) => state.reset);
+
+  useEffect(() => {
+    if (!(dataSource instanceof SimulatedDataSource)) return;
+
+    resetOrderBook();
+    resetTrades();
+
+    // The simulator runs on the main thread, so snapshots are built inline
+    const market = dataSource.getMarket(symbol);
+    const book = createOrderBookBuilder();
+    const tape = createTradeTape();
+    const unsubscribeDepth = market.subscribeDepth((update) => setOrderBook(book.apply(update)));
+    const unsubscribeTrades = market.subscribeTrades((trade) => setTrades(tape.add(trade)));
+
+    return () => {
+      unsubscribeDepth();
+      unsubscribeTrades();
+    };
+  }, [dataSource, symbol, setOrderBook, resetOrderBook, setTrades, resetTrades]);
+
+  return isSimulated;
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { ExchangeInfoService } from '@/lib/kline/exchangeInfo';
+import { createSymbolFormatter } from '@/lib/kline/format';
+import { shouldRetryQuery } from '@/lib/kline/RetryPolicy';
+import { useBinanceEndpoints } from './useBinanceEndpoints';
+
+/**
+ * Loads trading rules (tick size, step size, min notional, precisions) for a
+ * symbol from Binance exchangeInfo. The service caches the full symbol list,
+ * so every symbol after the first resolves without another request.
+ */
+export function useSymbolInfo(symbol: string) {
+  const endpoints = useBinanceEndpoints();
+
+  return useQuery({
+    queryKey: ['exchange-info', endpoints.name, symbol.toUpperCase()],
+    queryFn: () => ExchangeInfoService.getInstance().getSymbolInfo(symbol),
+    staleTime: 60 * 60 * 1000,
+    retry: shouldRetryQuery,
+  });
+}
+
+/**
+ * All symbols currently trading on the active Binance endpoint, for the
+ * symbol search palette.
+ */
+export function useSymbolCatalog() {
+  const endpoints = useBinanceEndpoints();
+
+  return useQuery({
+    queryKey: ['exchange-info', endpoints.name],
+    queryFn: async () => {
+      const symbols = await ExchangeInfoService.getInstance().load();
+      return [...symbols.values()].filter((info) => info.status === 'TRADING');
+    },
+    staleTime: 60 * 60 * 1000,
+    retry: shouldRetryQuery,
+  });
+}
+
+/**
+ * Formatter for prices, quantities and totals of a symbol. Falls back to
+ * default precision until the trading rules are loaded.
+ */
+export function useSymbolFormatter(symbol: string) {
+  const { data } = useSymbolInfo(symbol);
+  return useMemo(() => createSymbolFormatter(data), [data]);
+}
@@ -0,0 +1,617 @@
+import {
+  IKlineDataSource,
+  KlineCandle,
+  KlineInterval,
+  NativeKlineInterval,
+  KlineTimeRange,
+  KlineRangeOptions,
+  DataSourceError,
+  DataSourceErrorCode,
+  HeartbeatOptions,
+  SubscribeOptions,
+  WebSocketFactory,
+} from './types';
+import { getWebSocketTransport, WebSocketTransport } from './transport';
+import { WorkerTransport } from './WorkerTransport';
+import { WebSocketManager } from './WebSocketManager';
+import { DataCache } from './DataCache';
+import { RequestScheduler, RateLimitPolicy } from './RequestScheduler';
+import { RetryPolicy, DEFAULT_RETRY_POLICY } from './RetryPolicy';
+import { ExchangeId } from './symbols';
+import {
+  alignToInterval,
+  intervalToMs,
+  isNativeInterval,
+  nextIntervalTime,
+  pickSourceInterval,
+  previousIntervalTime,
+} from './intervals';
+import { createCandleResampler, resampleCandles } from './resample';
+import { fetchPaginatedRange } from './fetchRange';
+import { createDelivery, EVERY_DELIVERY, isSameCandle } from './delivery';
+import { abortableDelay, createAbortError, isAbortError, throwIfAborted } from './abort';
+
+// 重采样时最多请求的源周期页数，避免超大范围请求耗尽限频权重
+const MAX_RESAMPLE_PAGES = 20;
+
+/**
+ * 交易所实时 K 线流描述
+ */
+export interface KlineStream {
+  /** WebSocket 订阅键（相同键共享连接） */
+  key: string;
+  /** WebSocket 连接地址 */
+  url: string;
+  /** 连接建立后发送的订阅消息（可选） */
+  subscribeMessage?: unknown;
+  /** 心跳配置（可选，需要应用层 ping 的交易所使用） */
+  heartbeat?: HeartbeatOptions;
+  /** 组合流（可选）：提供时通过 subscribeStream 与其他数据流共用连接，忽略 url */
+  combined?: {
+    /** 组合流地址（不含 streams 参数） */
+    baseUrl: string;
+    /** 数据流名称 */
+    stream: string;
+  };
+  /** 解析推送消息，非 K 线消息返回 null */
+  parse: (message: unknown) => KlineCandle | null;
+}
+
+/**
+ * 交易所数据源通用配置
+ */
+export interface ExchangeDataSourceOptions {
+  /** 是否启用数据缓存 */
+  enableCache?: boolean;
+  /** 缓存过期时间（毫秒，默认 5 分钟） */
+  cacheExpiry?: number;
+  /** REST 请求重试策略（默认 DEFAULT_RETRY_POLICY） */
+  retryPolicy?: RetryPolicy;
+  /**
+   * WebSocket 连接工厂（可选）：提供时使用独立的页面内连接，不经过全局传输层，
+   * 用于接入本地模拟服务或测试替身
+   */
+  webSocketFactory?: WebSocketFactory;
+}
+
+/**
+ * 交易所数据源基类
+ *
+ * 封装各交易所适配器的公共逻辑：
+ * - 缓存：基于 DataCache 单例，缓存键带数据源标识前缀
+ * - 重试：统一的重试机制和错误封装
+ * - 取消：AbortSignal 贯穿请求、限频排队和重试等待，取消后不写入缓存
+ * - 订阅：WebSocket 连接复用 + RAF 节流
+ * - 周期：交易所不支持的周期（含自定义周期）自动由原生周期重采样
+ *
+ * 子类只需实现 REST 请求（fetchCandles）和推送流描述（createStream），
+ * 并完成交易对与周期到交易所格式的映射。
+ */
+export abstract class BaseExchangeDataSource implements IKlineDataSource {
+  /** 交易所标识 */
+  abstract readonly exchange: ExchangeId;
+  /** 日志前缀 */
+  protected abstract readonly logTag: string;
+  /** 单次 REST 请求允许的最大条数 */
+  protected abstract readonly maxLimit: number;
+  /** 交易所原生支持的周期 */
+  protected abstract readonly supportedIntervals: readonly NativeKlineInterval[];
+
+  /** 交易所限频策略（不配置时仅处理 429 / 418） */
+  protected readonly rateLimit?: RateLimitPolicy;
+
+  protected scheduler: RequestScheduler;
+  protected cache: DataCache;
+  protected enableCache: boolean;
+  protected cacheExpiry: number;
+
+  protected retryPolicy: RetryPolicy;
+
+  // 注入连接工厂时使用的独立连接管理器
+  private ownTransport?: WebSocketManager;
+
+  /** 数据源标识，与交易所标识一致 */
+  get id(): string {
+    return this.exchange;
+  }
+
+  /** WebSocket 传输层（首次订阅时创建，以便在此之前调用 configureWebSocketTransport） */
+  protected get transport(): WebSocketTransport {
+    return this.ownTransport ?? getWebSocketTransport();
+  }
+
+  /**
+   * 实时推送能否交给 Worker 处理
+   *
+   * Worker 内按交易所标识重新创建数据源，依赖实例配置的子类返回 false
+   */
+  protected get workerSubscribable(): boolean {
+    return true;
+  }
+
+  constructor(options: ExchangeDataSourceOptions = {}) {
+    // REST 请求调度器单例（所有数据源共享权重预算）
+    this.scheduler = RequestScheduler.getInstance();
+    // 数据缓存单例
+    this.cache = DataCache.getInstance();
+    this.enableCache = options.enableCache ?? true;
+    this.cacheExpiry = options.cacheExpiry ?? 5 * 60 * 1000; // 默认 5 分钟
+    this.retryPolicy = options.retryPolicy ?? DEFAULT_RETRY_POLICY;
+    if (options.webSocketFactory) {
+      this.ownTransport = new WebSocketManager({ webSocketFactory: options.webSocketFactory });
+    }
+
+    if (this.cacheExpiry) {
+      this.cache.setDefaultExpiry(this.cacheExpiry);
+    }
+  }
+
+  /**
+   * 请求交易所 REST 接口并转换为标准 K 线（按时间升序）
+   *
+   * @param signal 取消信号，需传给 requestJson
+   */
+  protected abstract fetchCandles(
+    symbol: string,
+    interval: NativeKlineInterval,
+    range: KlineTimeRange & { limit: number },
+    signal?: AbortSignal
+  ): Promise<KlineCandle[]>;
+
+  /**
+   * 描述交易所的实时 K 线推送流
+   */
+  protected abstract createStream(symbol: string, interval: NativeKlineInterval): KlineStream;
+
+  /**
+   * 获取历史 K 线数据（带缓存和重试）
+   */
+  async fetchHistorical(
+    symbol: string,
+    interval: KlineInterval,
+    limit = 100,
+    signal?: AbortSignal
+  ): Promise<KlineCandle[]> {
+    const cacheKey = `${this.id}_${symbol.toLowerCase()}_${interval}_${limit}`;
+
+    return this.withCacheAndRetry(
+      cacheKey,
+      'Fetch',
+      () => this.fetchRange(symbol, interval, { limit }, signal),
+      signal
+    );
+  }
+
+  /**
+   * 根据时间范围获取历史 K 线数据（带缓存和重试）
+   */
+  async fetchHistoricalByTimeRange(
+    symbol: string,
+    interval: KlineInterval,
+    options: KlineTimeRange = {},
+    signal?: AbortSignal
+  ): Promise<KlineCandle[]> {
+    const { startTime, endTime, limit = 100 } = options;
+
+    // 验证参数
+    if (limit && (limit < 1 || limit > this.maxLimit)) {
+      throw new DataSourceError(
+        `Limit must be between 1 and ${this.maxLimit}`,
+        'INVALID_PARAMETER'
+      );
+    }
+
+    if (startTime && endTime && startTime >= endTime) {
+      throw new DataSourceError(
+        'startTime must be less than endTime',
+        'INVALID_PARAMETER'
+      );
+    }
+
+    // 生成缓存键
+    const cacheKey = `${this.id}_${symbol.toLowerCase()}_${interval}_${startTime || 'none'}_${endTime || 'none'}_${limit}`;
+
+    return this.withCacheAndRetry(
+      cacheKey,
+      'Fetch by time range',
+      () => this.fetchRange(symbol, interval, { startTime, endTime, limit }, signal),
+      signal
+    );
+  }
+
+  /**
+   * 获取任意长度时间范围的 K 线（按 maxLimit 分页，并发拉取）
+   *
+   * 分页请求不写入缓存，避免大批量数据挤掉图表常用的缓存项
+   */
+  async fetchHistoricalRange(
+    symbol: string,
+    interval: KlineInterval,
+    options: KlineRangeOptions
+  ): Promise<KlineCandle[]> {
+    // 重采样周期按源周期折算页大小，保证每页只需一次源数据请求
+    let pageSize = this.maxLimit;
+    if (!this.isSupportedInterval(interval)) {
+      const source = pickSourceInterval(interval, this.supportedIntervals);
+      const ratio = Math.ceil(intervalToMs(interval) / intervalToMs(source));
+      pageSize = Math.max(1, Math.floor(this.maxLimit / ratio));
+    }
+
+    const { signal } = options;
+
+    return fetchPaginatedRange(
+      (range) =>
+        this.withCacheAndRetry(
+          null,
+          `Fetch range page ${range.startTime}`,
+          () => this.fetchRange(symbol, interval, range, signal),
+          signal
+        ),
+      interval,
+      options,
+      pageSize
+    );
+  }
+
+  /**
+   * 是否可以直接请求交易所的该周期
+   */
+  protected isSupportedInterval(interval: KlineInterval): interval is NativeKlineInterval {
+    return isNativeInterval(interval) && this.supportedIntervals.includes(interval);
+  }
+
+  /**
+   * 原生周期直接请求，其余周期由源周期重采样
+   */
+  private fetchRange(
+    symbol: string,
+    interval: KlineInterval,
+    range: KlineTimeRange & { limit: number },
+    signal?: AbortSignal
+  ): Promise<KlineCandle[]> {
+    if (this.isSupportedInterval(interval)) {
+      return this.fetchCandles(symbol, interval, range, signal);
+    }
+    return this.fetchResampled(symbol, interval, range, signal);
+  }
+
+  /**
+   * 获取重采样后的 K 线（语义与原生请求一致：指定 startTime 时向后取，否则取截至 endTime 的最新 limit 条）
+   */
+  private async fetchResampled(
+    symbol: string,
+    interval: KlineInterval,
+    range: KlineTimeRange & { limit: number },
+    signal?: AbortSignal
+  ): Promise<KlineCandle[]> {
+    const { startTime, endTime, limit } = range;
+    const source = pickSourceInterval(interval, this.supportedIntervals);
+    const end = Math.min(endTime ?? Date.now(), Date.now());
+
+    // 计算目标 K 线的开盘时间范围 [firstOpen, lastOpen]
+    let firstOpen: number;
+    let lastOpen: number;
+    if (startTime !== undefined) {
+      firstOpen = alignToInterval(startTime, interval);
+      if (firstOpen < startTime) firstOpen = nextIntervalTime(firstOpen, interval);
+      if (firstOpen > end) return [];
+
+      lastOpen = firstOpen;
+      for (let i = 1; i < limit; i++) {
+        const next = nextIntervalTime(lastOpen, interval);
+        if (next > end) break;
+        lastOpen = next;
+      }
+    } else {
+      lastOpen = alignToInterval(end, interval);
+      firstOpen = lastOpen;
+      for (let i = 1; i < limit; i++) {
+        firstOpen = previousIntervalTime(firstOpen, interval);
+      }
+    }
+
+    // 请求到最后一根的收盘边界，保证每根目标 K 线的源数据完整
+    const candles = await this.fetchSourceCandles(
+      symbol,
+      source,
+      firstOpen,
+      nextIntervalTime(lastOpen, interval) - 1,
+      signal
+    );
+
+    return resampleCandles(candles, interval, source).filter((candle) => {
+      const openTime = candle.time * 1000;
+      return openTime >= firstOpen && openTime <= lastOpen;
+    });
+  }
+
+  /**
+   * 从 to 向前分页获取 [from, to] 范围内的源周期 K 线
+   *
+   * @throws {DataSourceError} 范围过大需要超过 MAX_RESAMPLE_PAGES 页时
+   */
+  private async fetchSourceCandles(
+    symbol: string,
+    source: NativeKlineInterval,
+    from: number,
+    to: number,
+    signal?: AbortSignal
+  ): Promise<KlineCandle[]> {
+    const estimatedPages = Math.ceil((to - from) / intervalToMs(source) / this.maxLimit);
+    if (estimatedPages > MAX_RESAMPLE_PAGES) {
+      throw new DataSourceError(
+        `Requested range needs ~${estimatedPages} requests of ${source} data, please reduce limit`,
+        'INVALID_PARAMETER'
+      );
+    }
+
+    const byTime = new Map<number, KlineCandle>();
+    let cursor = to;
+
+    for (let page = 0; page < MAX_RESAMPLE_PAGES; page++) {
+      const candles = await this.fetchCandles(
+        symbol,
+        source,
+        { endTime: cursor, limit: this.maxLimit },
+        signal
+      );
+      if (candles.length === 0) break;
+
+      candles.forEach((candle) => byTime.set(candle.time, candle));
+
+      const oldest = candles[0].time * 1000;
+      if (oldest <= from || candles.length < this.maxLimit) break;
+      cursor = oldest - 1;
+    }
+
+    return [...byTime.values()]
+      .filter((candle) => candle.time * 1000 >= from && candle.time * 1000 <= to)
+      .sort((a, b) => a.time - b.time);
+  }
+
+  /**
+   * 订阅实时 K 线数据（默认按帧节流，可通过 options.delivery 指定投递策略）
+   *
+   * 非原生周期订阅源周期的推送流，逐条重采样后再按策略投递；
+   * 使用 Worker 传输层时解析和重采样在 Worker 中完成，投递策略在主线程执行
+   */
+  subscribe(
+    symbol: string,
+    interval: KlineInterval,
+    callback: (data: KlineCandle) => void,
+    options: SubscribeOptions<KlineCandle> = {}
+  ): () => void {
+    const delivery = createDelivery(options.delivery, callback, isSameCandle);
+    const transport = this.transport;
+    if (transport instanceof WorkerTransport && this.workerSubscribable) {
+      const unsubscribe = transport.subscribeKlines(
+        { exchange: this.exchange, symbol, interval },
+        delivery.push,
+        // 投递策略只在这里执行一次
+        { delivery: EVERY_DELIVERY }
+      );
+      return () => {
+        delivery.cancel();
+        unsubscribe();
+      };
+    }
+
+    const source = this.getSourceInterval(interval);
+    const stream = this.createStream(symbol, source);
+    const resampler = source === interval ? null : createCandleResampler(interval, source);
+
+    console.log(
+      `${this.logTag} Subscribing to ${stream.key}${resampler ? ` (resampled to ${interval})` : ''}`
+    );
+
+    // 补全当前周期内订阅前已收盘的源 K 线（失败不影响实时推送，取消订阅时中断）
+    const seedController = new AbortController();
+    if (resampler) {
+      const now = Date.now();
+      this.fetchSourceCandles(symbol, source, alignToInterval(now, interval), now, seedController.signal)
+        .then((candles) => {
+          if (!seedController.signal.aborted) candles.forEach((candle) => resampler.seed(candle));
+        })
+        .catch((error) => {
+          if (isAbortError(error)) return;
+          console.warn(`${this.logTag} Failed to seed resampler:`, error);
+        });
+    }
+
+    const handleMessage = (message: unknown) => {
+      try {
+        const parsed = stream.parse(message);
+        const data = parsed && resampler ? resampler.add(parsed) : parsed;
+        if (data) delivery.push(data);
+      } catch (error) {
+        console.error(`${this.logTag} Error processing WebSocket message:`, error);
+      }
+    };
+
+    // 通过 WebSocket 传输层订阅（支持组合流时与其他数据流共用连接）
+    const unsubscribe = stream.combined
+      ? this.transport.subscribeStream(
+          stream.combined.baseUrl,
+          stream.combined.stream,
+          handleMessage,
+          { heartbeat: stream.heartbeat }
+        )
+      : this.transport.subscribe(
+          stream.key,
+          stream.url,
+          handleMessage,
+          undefined, // 最大重连次数取 WebSocketManager 的 RetryPolicy
+          stream.heartbeat,
+          stream.subscribeMessage
+        );
+
+    // 返回取消订阅函数，确保清理待投递的数据
+    return () => {
+      seedController.abort();
+      delivery.cancel();
+      unsubscribe();
+    };
+  }
+
+  /**
+   * 实时数据流标识（组合流为数据流名称，否则为订阅键）
+   */
+  getStreamId(symbol: string, interval: KlineInterval): string {
+    const stream = this.createStream(symbol, this.getSourceInterval(interval));
+    return stream.combined?.stream ?? stream.key;
+  }
+
+  /**
+   * 实时推送使用的源周期（非原生周期取可重采样的原生周期）
+   */
+  private getSourceInterval(interval: KlineInterval): NativeKlineInterval {
+    return this.isSupportedInterval(interval)
+      ? interval
+      : pickSourceInterval(interval, this.supportedIntervals);
+  }
+
+  /**
+   * 清理资源
+   */
+  destroy(): void {
+    console.log(`${this.logTag} Destroying data source`);
+    // WebSocket 管理器是单例，不需要销毁
+    // 只清理缓存
+    if (this.enableCache) {
+      this.cache.clear();
+    }
+  }
+
+  /**
+   * 将标准周期映射为交易所周期参数
+   *
+   * @throws {DataSourceError} 交易所不支持该周期时
+   */
+  protected resolveInterval(
+    intervals: Partial<Record<NativeKlineInterval, string>>,
+    interval: NativeKlineInterval
+  ): string {
+    const mapped = intervals[interval];
+    if (!mapped) {
+      throw new DataSourceError(
+        `Interval ${interval} is not supported by ${this.exchange}`,
+        'UNSUPPORTED_INTERVAL'
+      );
+    }
+    return mapped;
+  }
+
+  /**
+   * 请求 JSON 接口（经 RequestScheduler 限频），HTTP 错误统一封装为 DataSourceError
+   *
+   * @param weight 接口权重，用于共享的权重预算
+   * @param signal 取消信号，取消时抛出 ABORTED
+   */
+  protected async requestJson<T>(url: string, weight = 1, signal?: AbortSignal): Promise<T> {
+    let response: Response;
+    try {
+      response = await this.scheduler.fetch(url, { weight, policy: this.rateLimit, signal });
+    } catch (error) {
+      if (isAbortError(error)) throw createAbortError();
+      if (error instanceof DataSourceError) throw error;
+      // fetch 只在网络层失败（断网、DNS、CORS）时抛出 TypeError
+      throw new DataSourceError('Network request failed', 'NETWORK_ERROR', {
+        originalError: error,
+      });
+    }
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      const { code, message } = this.classifyHttpError(response.status, body);
+      throw new DataSourceError(message, code, { status: response.status });
+    }
+
+    try {
+      return (await response.json()) as T;
+    } catch (error) {
+      throw new DataSourceError('Invalid JSON response', 'INVALID_FORMAT', {
+        originalError: error,
+        status: response.status,
+      });
+    }
+  }
+
+  /**
+   * 将 HTTP 错误响应映射为错误码（子类可根据交易所业务错误码细化）
+   *
+   * 5xx 可重试；408 视为超时；其余 4xx 为请求本身的问题，快速失败
+   */
+  protected classifyHttpError(
+    status: number,
+    body: string
+  ): { code: DataSourceErrorCode; message: string } {
+    const message = `HTTP ${status}: ${body.slice(0, 200) || 'Request failed'}`;
+    if (status === 408) return { code: 'TIMEOUT', message };
+    if (status >= 500) return { code: 'SERVER_ERROR', message };
+    return { code: 'HTTP_ERROR', message };
+  }
+
+  /**
+   * 缓存 + 重试包装（cacheKey 为 null 时不读写缓存）
+   *
+   * signal 取消后立即结束重试，已返回的数据也不再写入缓存
+   */
+  private async withCacheAndRetry(
+    cacheKey: string | null,
+    label: string,
+    request: () => Promise<KlineCandle[]>,
+    signal?: AbortSignal
+  ): Promise<KlineCandle[]> {
+    // 检查缓存
+    if (this.enableCache && cacheKey) {
+      const cached = this.cache.get<KlineCandle[]>(cacheKey);
+      if (cached) return cached;
+    }
+
+    // 带重试的请求（是否重试、等待多久由 RetryPolicy 决定）
+    for (let attempt = 1; ; attempt++) {
+      throwIfAborted(signal);
+
+      try {
+        const data = await request();
+        throwIfAborted(signal);
+
+        // 存入缓存
+        if (this.enableCache && cacheKey) {
+          this.cache.set(cacheKey, data, this.cacheExpiry);
+        }
+
+        return data;
+      } catch (error) {
+        // 取消不是失败，不记录日志也不重试
+        if (isAbortError(error)) {
+          throw createAbortError();
+        }
+
+        console.error(`${this.logTag} ${label} attempt ${attempt} failed:`, error);
+
+        // 参数错误、交易对无效、限频等不可重试的错误直接抛出，快速失败
+        if (!this.retryPolicy.isRetryable(error)) {
+          throw error;
+        }
+
+        if (!this.retryPolicy.shouldRetry(error, attempt)) {
+          throw new DataSourceError(
+            `Failed to fetch historical data after ${attempt} attempts (${label})`,
+            'FETCH_FAILED',
+            { originalError: error }
+          );
+        }
+
+        await this.delay(this.retryPolicy.getDelay(attempt, error), signal);
+      }
+    }
+  }
+
+  /**
+   * 延迟工具函数（可取消）
+   */
+  protected delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return abortableDelay(ms, signal);
+  }
+}
@@ -1,12 +1,145 @@
 import {
-  IKlineDataSource,
-  CandlestickData,
+  KlineCandle,
   KlineInterval,
+  NativeKlineInterval,
+  KlineTimeRange,
   DataSourceError,
+  DataSourceErrorCode,
+  SubscribeOptions,
 } from './types';
-import { WebSocketManager } from './WebSocketManager';
-import { DataCache } from './DataCache';
+import {
+  BaseExchangeDataSource,
+  ExchangeDataSourceOptions,
+  KlineStream,
+} from './BaseExchangeDataSource';
+import {
+  BinanceEndpoints,
+  binanceStreamUrl,
+  binanceCombinedStreamUrl,
+  getBinanceEndpoints,
+  subscribeBinanceEndpoints,
+} from './endpoints';
+import { toExchangeSymbol } from './symbols';
+import { NATIVE_INTERVALS } from './intervals';
+import { check } from './schema';
+import {
+  apiErrorSchema,
+  parseBinanceMessage,
+  restKlineSchema,
+  restKlinesSchema,
+} from './binanceSchemas';
+import { MessageQuarantine } from './quarantine';
+import { RateLimitPolicy } from './RequestScheduler';
 import { UTCTimestamp } from 'lightweight-charts';
+import { KlineData } from '@/types/binance';
+
+/**
+ * 解析并验证 REST 接口返回的单条 K 线
+ *
+ * Binance 格式：[openTime, open, high, low, close, volume, closeTime,
+ * quoteVolume, trades, takerBuyVolume, takerBuyQuoteVolume, ignore]
+ */
+export function parseRestKline(kline: unknown): KlineCandle {
+  const result = check(restKlineSchema, kline);
+  if (!result.ok) {
+    throw new DataSourceError(
+      `Invalid kline data at ${result.issue.path}: ${result.issue.message}`,
+      'PARSE_ERROR'
+    );
+  }
+
+  const [
+    openTime,
+    open,
+    high,
+    low,
+    close,
+    volume,
+    closeTime,
+    quoteVolume,
+    trades,
+    takerBuyVolume,
+    takerBuyQuoteVolume,
+  ] = result.value;
+
+  const data: KlineCandle = {
+    time: Math.floor(Number(openTime) / 1000) as UTCTimestamp,
+    open: Number(open),
+    high: Number(high),
+    low: Number(low),
+    close: Number(close),
+    volume: Number(volume),
+    quoteVolume: Number(quoteVolume),
+    trades: Number(trades),
+    takerBuyVolume: Number(takerBuyVolume),
+    takerBuyQuoteVolume: Number(takerBuyQuoteVolume),
+    // REST 接口不返回收盘标记，收盘时间已过即视为已收盘
+    isClosed: Number(closeTime) < Date.now(),
+  };
+
+  if (!isValidCandle(data)) {
+    throw new DataSourceError('Invalid numeric values in kline data', 'PARSE_ERROR');
+  }
+
+  return data;
+}
+
+/**
+ * 解析 WebSocket 推送的 K 线（`message.k`），数值无效时返回 null
+ */
+export function parseStreamKline(kline: KlineData): KlineCandle | null {
+  const data: KlineCandle = {
+    time: Math.floor(kline.t / 1000) as UTCTimestamp,
+    open: parseFloat(kline.o),
+    high: parseFloat(kline.h),
+    low: parseFloat(kline.l),
+    close: parseFloat(kline.c),
+    volume: parseFloat(kline.v),
+    quoteVolume: parseFloat(kline.q),
+    trades: kline.n,
+    takerBuyVolume: parseFloat(kline.V),
+    takerBuyQuoteVolume: parseFloat(kline.Q),
+    isClosed: kline.x,
+  };
+
+  return isValidCandle(data) ? data : null;
+}
+
+/**
+ * 校验 K 线中的数值字段是否有效
+ */
+function isValidCandle(data: KlineCandle): boolean {
+  return [
+    data.time,
+    data.open,
+    data.high,
+    data.low,
+    data.close,
+    data.volume,
+    data.quoteVolume,
+  ].every((value) => !isNaN(value));
+}
+
+/**
+ * /klines 接口权重
+ */
+const KLINES_WEIGHT = 2;
+
+/**
+ * Binance 现货 REST 限频：每分钟 6000 权重（所有 Binance 接口共用）
+ */
+export const BINANCE_RATE_LIMIT: RateLimitPolicy = {
+  weightLimit: 6000,
+  usedWeightHeader: 'X-MBX-USED-WEIGHT-1M',
+};
+
+/**
+ * Binance 数据源配置
+ */
+export interface BinanceDataSourceOptions extends ExchangeDataSourceOptions {
+  /** 固定使用的接口地址；不传时跟随全局配置（见 endpoints.ts） */
+  endpoints?: BinanceEndpoints;
+}
 
 /**
  * Binance 数据源实现
@@ -17,200 +150,58 @@ import { UTCTimestamp } from 'lightweight-charts';
  * - 数据缓存：避免重复请求
  * - 错误处理：统一的错误封装和重试机制
  * - 数据验证：确保数据格式正确
+ * - 可配置地址：支持 testnet、binance.us、本地代理，切换后实时订阅自动重连
  */
-export class BinanceDataSource implements IKlineDataSource {
-  private wsManager: WebSocketManager;
-  private cache: DataCache;
-  private enableCache: boolean;
-  private cacheExpiry: number;
-
-  private readonly REST_API_BASE = 'https://api.binance.com/api/v3';
-  private readonly WS_BASE = 'wss://stream.binance.com:9443/ws';
-  private readonly MAX_RETRIES = 3;
-  private readonly RETRY_DELAY = 1000;
-
-  constructor(options: { enableCache?: boolean; cacheExpiry?: number } = {}) {
-    // WebSocket 管理器单例
-    this.wsManager = WebSocketManager.getInstance();
-    // 数据缓存单例
-    this.cache = DataCache.getInstance();
-    this.enableCache = options.enableCache ?? true;
-    this.cacheExpiry = options.cacheExpiry ?? 5 * 60 * 1000; // 默认 5 分钟
-
-    if (this.cacheExpiry) {
-      this.cache.setDefaultExpiry(this.cacheExpiry);
-    }
-  }
+export class BinanceDataSource extends BaseExchangeDataSource {
+  readonly exchange = 'binance' as const;
+  protected readonly logTag: string = '[BinanceDataSource]';
+  protected readonly maxLimit = 1000;
+  protected readonly supportedIntervals = NATIVE_INTERVALS;
 
-  /**
-   * 获取历史 K 线数据（带缓存和重试）
-   */
-  async fetchHistorical(
-    symbol: string,
-    interval: KlineInterval,
-    limit = 100
-  ): Promise<CandlestickData[]> {
-    const cacheKey = `${symbol.toLowerCase()}_${interval}_${limit}`;
-
-    // 检查缓存
-    if (this.enableCache) {
-      const cached = this.cache.get<CandlestickData[]>(cacheKey);
-      if (cached) return cached;
-    }
+  protected readonly rateLimit = BINANCE_RATE_LIMIT;
 
-    // 带重试的请求
-    let lastError: unknown;
-    for (let attempt = 1; attempt <= this.MAX_RETRIES; attempt++) {
-      try {
-        const data = await this.fetchHistoricalInternal(symbol, interval, limit);
-
-        // 存入缓存
-        if (this.enableCache) {
-          this.cache.set(cacheKey, data, this.cacheExpiry);
-        }
-
-        return data;
-      } catch (error) {
-        lastError = error;
-        console.error(
-          `[BinanceDataSource] Fetch attempt ${attempt}/${this.MAX_RETRIES} failed:`,
-          error
-        );
-
-        if (attempt < this.MAX_RETRIES) {
-          await this.delay(this.RETRY_DELAY * attempt);
-        }
-      }
-    }
+  private readonly fixedEndpoints?: BinanceEndpoints;
 
-    throw new DataSourceError(
-      `Failed to fetch historical data after ${this.MAX_RETRIES} attempts`,
-      'FETCH_FAILED',
-      lastError
-    );
+  constructor(options: BinanceDataSourceOptions = {}) {
+    super(options);
+    this.fixedEndpoints = options.endpoints;
   }
 
   /**
-   * 根据时间范围获取历史 K 线数据（带缓存和重试）
+   * 当前生效的接口地址（每次请求时读取，保证运行时切换立即生效）
    */
-  async fetchHistoricalByTimeRange(
-    symbol: string,
-    interval: KlineInterval,
-    options: {
-      startTime?: number;
-      endTime?: number;
-      limit?: number;
-    } = {}
-  ): Promise<CandlestickData[]> {
-    const { startTime, endTime, limit = 100 } = options;
-
-    // 验证参数
-    if (limit && (limit < 1 || limit > 1000)) {
-      throw new DataSourceError(
-        'Limit must be between 1 and 1000',
-        'INVALID_PARAMETER'
-      );
-    }
-
-    if (startTime && endTime && startTime >= endTime) {
-      throw new DataSourceError(
-        'startTime must be less than endTime',
-        'INVALID_PARAMETER'
-      );
-    }
-
-    // 生成缓存键
-    const cacheKey = `${symbol.toLowerCase()}_${interval}_${startTime || 'none'}_${endTime || 'none'}_${limit}`;
-
-    // 检查缓存
-    if (this.enableCache) {
-      const cached = this.cache.get<CandlestickData[]>(cacheKey);
-      if (cached) return cached;
-    }
-
-    // 带重试的请求
-    let lastError: unknown;
-    for (let attempt = 1; attempt <= this.MAX_RETRIES; attempt++) {
-      try {
-        const data = await this.fetchHistoricalByTimeRangeInternal(
-          symbol,
-          interval,
-          options
-        );
-
-        // 存入缓存
-        if (this.enableCache) {
-          this.cache.set(cacheKey, data, this.cacheExpiry);
-        }
-
-        return data;
-      } catch (error) {
-        lastError = error;
-        console.error(
-          `[BinanceDataSource] Fetch by time range attempt ${attempt}/${this.MAX_RETRIES} failed:`,
-          error
-        );
-
-        if (attempt < this.MAX_RETRIES) {
-          await this.delay(this.RETRY_DELAY * attempt);
-        }
-      }
-    }
-
-    throw new DataSourceError(
-      `Failed to fetch historical data by time range after ${this.MAX_RETRIES} attempts`,
-      'FETCH_FAILED',
-      lastError
-    );
+  get endpoints(): BinanceEndpoints {
+    return this.fixedEndpoints ?? getBinanceEndpoints();
   }
 
   /**
-   * 实际的 REST API 请求
+   * REST 请求地址（子类可改为经由代理）
    */
-  private async fetchHistoricalInternal(
-    symbol: string,
-    interval: KlineInterval,
-    limit: number
-  ): Promise<CandlestickData[]> {
-    const url = `${this.REST_API_BASE}/klines?symbol=${symbol.toUpperCase()}&interval=${interval}&limit=${limit}`;
-
-    const response = await fetch(url);
-
-    if (!response.ok) {
-      throw new DataSourceError(
-        `HTTP ${response.status}: ${response.statusText}`,
-        'HTTP_ERROR'
-      );
-    }
-
-    const data = await response.json();
-
-    // 验证响应数据
-    if (!Array.isArray(data)) {
-      throw new DataSourceError('Invalid response format: expected array', 'INVALID_FORMAT');
-    }
+  protected get restBase(): string {
+    return this.endpoints.restBase;
+  }
 
-    // 转换为标准格式
-    return data.map((kline: string[]) => this.parseKlineData(kline));
+  /**
+   * 固定地址的实例不交给 Worker（Worker 内的数据源跟随全局配置）
+   */
+  protected get workerSubscribable(): boolean {
+    return !this.fixedEndpoints;
   }
 
   /**
-   * 根据时间范围的实际 REST API 请求
+   * 实际的 REST API 请求
    */
-  private async fetchHistoricalByTimeRangeInternal(
+  protected async fetchCandles(
     symbol: string,
-    interval: KlineInterval,
-    options: {
-      startTime?: number;
-      endTime?: number;
-      limit?: number;
-    }
-  ): Promise<CandlestickData[]> {
-    const { startTime, endTime, limit = 100 } = options;
+    interval: NativeKlineInterval,
+    range: KlineTimeRange & { limit: number },
+    signal?: AbortSignal
+  ): Promise<KlineCandle[]> {
+    const { startTime, endTime, limit } = range;
 
     // 构建 URL 参数
     const params = new URLSearchParams({
-      symbol: symbol.toUpperCase(),
+      symbol: toExchangeSymbol(symbol, this.exchange),
       interval,
       limit: limit.toString(),
     });
@@ -223,163 +214,111 @@ export class BinanceDataSource implements IKlineDataSource {
       params.append('endTime', endTime.toString());
     }
 
-    const url = `${this.REST_API_BASE}/klines?${params.toString()}`;
-
-    const response = await fetch(url);
+    const data = await this.requestJson<unknown>(
+      `${this.restBase}/klines?${params.toString()}`,
+      KLINES_WEIGHT,
+      signal
+    );
 
-    if (!response.ok) {
+    // 验证响应数据，格式错误的响应进入隔离区
+    const result = check(restKlinesSchema, data);
+    if (!result.ok) {
+      const { path, message } = result.issue;
+      MessageQuarantine.getInstance().report({
+        reason: 'malformed',
+        source: 'BinanceDataSource',
+        stream: '/klines',
+        path,
+        message,
+        payload: data,
+      });
       throw new DataSourceError(
-        `HTTP ${response.status}: ${response.statusText}`,
-        'HTTP_ERROR'
+        `Invalid response format at ${path}: ${message}`,
+        Array.isArray(data) ? 'PARSE_ERROR' : 'INVALID_FORMAT'
       );
     }
 
-    const data = await response.json();
-
-    // 验证响应数据
-    if (!Array.isArray(data)) {
-      throw new DataSourceError('Invalid response format: expected array', 'INVALID_FORMAT');
-    }
-
     // 转换为标准格式
-    return data.map((kline: string[]) => this.parseKlineData(kline));
+    return result.value.map((kline) => parseRestKline(kline));
   }
 
   /**
-   * 解析并验证 K 线数据
+   * 按 Binance 业务错误码细化 HTTP 错误
+   *
+   * 错误体格式：{ "code": -1121, "msg": "Invalid symbol." }
    */
-  private parseKlineData(kline: string[]): CandlestickData {
-    if (!Array.isArray(kline) || kline.length < 6) {
-      throw new DataSourceError('Invalid kline data format', 'PARSE_ERROR');
+  protected classifyHttpError(
+    status: number,
+    body: string
+  ): { code: DataSourceErrorCode; message: string } {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(body);
+    } catch {
+      // 非 JSON 错误体（如网关返回的 HTML）按 HTTP 状态码处理
     }
 
-    const [openTime, open, high, low, close] = kline;
-
-    const time = Math.floor(Number(openTime) / 1000) as UTCTimestamp;
-    const openPrice = Number(open);
-    const highPrice = Number(high);
-    const lowPrice = Number(low);
-    const closePrice = Number(close);
-
-    // 验证数值是否有效
-    if (
-      isNaN(time) ||
-      isNaN(openPrice) ||
-      isNaN(highPrice) ||
-      isNaN(lowPrice) ||
-      isNaN(closePrice)
-    ) {
-      throw new DataSourceError('Invalid numeric values in kline data', 'PARSE_ERROR');
+    const result = check(apiErrorSchema, parsed);
+    if (!result.ok) {
+      return super.classifyHttpError(status, body);
     }
 
-    return {
-      time,
-      open: openPrice,
-      high: highPrice,
-      low: lowPrice,
-      close: closePrice,
-    };
+    const error = result.value;
+    const message = `Binance error ${error.code}: ${error.msg}`;
+    if (error.code === -1121) return { code: 'INVALID_SYMBOL', message };
+    if (error.code === -1120) return { code: 'UNSUPPORTED_INTERVAL', message };
+    // -1100 ~ -1199：请求参数错误
+    if (error.code <= -1100 && error.code > -1200) return { code: 'INVALID_PARAMETER', message };
+    return { code: status >= 500 ? 'SERVER_ERROR' : 'API_ERROR', message };
   }
 
   /**
-   * 订阅实时 K 线数据（使用 RAF 节流优化性能）
+   * 订阅实时 K 线；跟随全局配置时，地址切换后按新地址重新订阅
    */
   subscribe(
     symbol: string,
     interval: KlineInterval,
-    callback: (data: CandlestickData) => void
+    callback: (data: KlineCandle) => void,
+    options?: SubscribeOptions<KlineCandle>
   ): () => void {
-    const key = `${symbol.toLowerCase()}_${interval}`;
-    const url = `${this.WS_BASE}/${symbol.toLowerCase()}@kline_${interval}`;
-
-    console.log(`[BinanceDataSource] Subscribing to ${key}`);
-
-    // RAF 节流状态
-    let latestData: CandlestickData | null = null;
-    let rafId: number | null = null;
-
-    // 在下一帧发送最新数据
-    const emitLatest = () => {
-      if (latestData) {
-        callback(latestData);
-        latestData = null;
-      }
-      rafId = null;
-    };
+    let unsubscribe = super.subscribe(symbol, interval, callback, options);
+    if (this.fixedEndpoints) return unsubscribe;
 
-    // 使用 WebSocket 管理器订阅
-    const unsubscribe = this.wsManager.subscribe(
-      key,
-      url,
-      (message: any) => {
-        try {
-          // 解析 Binance WebSocket 消息格式
-          const kline = message.k;
-          if (!kline) {
-            console.warn('[BinanceDataSource] Invalid message format:', message);
-            return;
-          }
-
-          const data: CandlestickData = {
-            time: Math.floor(kline.t / 1000) as UTCTimestamp,
-            open: parseFloat(kline.o),
-            high: parseFloat(kline.h),
-            low: parseFloat(kline.l),
-            close: parseFloat(kline.c),
-          };
-
-          // 验证数据
-          if (
-            isNaN(data.time) ||
-            isNaN(data.open) ||
-            isNaN(data.high) ||
-            isNaN(data.low) ||
-            isNaN(data.close)
-          ) {
-            console.warn('[BinanceDataSource] Invalid numeric values:', data);
-            return;
-          }
-
-          // 更新最新数据
-          latestData = data;
-
-          // 如果没有待处理的 RAF，安排在下一帧发送
-          if (!rafId) {
-            rafId = requestAnimationFrame(emitLatest);
-          }
-        } catch (error) {
-          console.error('[BinanceDataSource] Error processing WebSocket message:', error);
-        }
-      },
-      5 // 最大重连次数
-    );
+    const stopListening = subscribeBinanceEndpoints(() => {
+      unsubscribe();
+      unsubscribe = super.subscribe(symbol, interval, callback, options);
+    });
 
-    // 返回取消订阅函数，确保清理 RAF
     return () => {
-      if (rafId !== null) {
-        cancelAnimationFrame(rafId);
-        rafId = null;
-      }
+      stopListening();
       unsubscribe();
     };
   }
 
   /**
-   * 清理资源
+   * Binance 组合流：所有交易对和周期共用连接，通过 SUBSCRIBE / UNSUBSCRIBE 增减订阅
    */
-  destroy(): void {
-    console.log('[BinanceDataSource] Destroying data source');
-    // WebSocket 管理器是单例，不需要销毁
-    // 只清理缓存
-    if (this.enableCache) {
-      this.cache.clear();
-    }
-  }
+  protected createStream(symbol: string, interval: NativeKlineInterval): KlineStream {
+    const stream = toExchangeSymbol(symbol, this.exchange).toLowerCase();
+    const { endpoints } = this;
+    // 非默认环境在 key 中带上环境名，避免复用旧地址的连接
+    const suffix = endpoints.name === 'spot' ? '' : `@${endpoints.name}`;
 
-  /**
-   * 延迟工具函数
-   */
-  private delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+    return {
+      key: `${stream}_${interval}${suffix}`,
+      url: binanceStreamUrl(`${stream}@kline_${interval}`, endpoints),
+      combined: {
+        baseUrl: binanceCombinedStreamUrl(endpoints),
+        stream: `${stream}@kline_${interval}`,
+      },
+      parse: (message) => {
+        // 校验 Binance WebSocket 消息格式（格式错误和错误帧由隔离区统一上报）
+        const parsed = parseBinanceMessage(message, {
+          source: 'BinanceDataSource',
+          stream: `${stream}@kline_${interval}`,
+        });
+        return parsed?.type === 'kline' ? parseStreamKline(parsed.data.k) : null;
+      },
+    };
   }
 }
@@ -0,0 +1,221 @@
+import {
+  KlineCandle,
+  NativeKlineInterval,
+  KlineTimeRange,
+  DataSourceError,
+  DataSourceErrorCode,
+} from './types';
+import { BaseExchangeDataSource, KlineStream } from './BaseExchangeDataSource';
+import { toExchangeSymbol } from './symbols';
+import { intervalToMs } from './intervals';
+import { UTCTimestamp } from 'lightweight-charts';
+
+/**
+ * Bybit K 线周期参数（分钟数或 D/W/M）
+ */
+const BYBIT_INTERVALS: Partial<Record<NativeKlineInterval, string>> = {
+  '1m': '1',
+  '3m': '3',
+  '5m': '5',
+  '15m': '15',
+  '30m': '30',
+  '1h': '60',
+  '2h': '120',
+  '4h': '240',
+  '6h': '360',
+  '12h': '720',
+  '1d': 'D',
+  '1w': 'W',
+  '1M': 'M',
+};
+
+/**
+ * Bybit REST 响应
+ */
+export interface BybitResponse<T> {
+  retCode: number;
+  retMsg: string;
+  result: T;
+}
+
+/**
+ * Bybit K 线行：[startTime, open, high, low, close, volume, turnover]
+ */
+export type BybitKlineRow = string[];
+
+/**
+ * Bybit 推送的 K 线
+ */
+export interface BybitStreamKline {
+  start: number;
+  end: number;
+  interval: string;
+  open: string;
+  close: string;
+  high: string;
+  low: string;
+  volume: string;
+  turnover: string;
+  confirm: boolean;
+  timestamp: number;
+}
+
+/**
+ * Bybit 推送消息：{ topic: 'kline.1.BTCUSDT', type, ts, data: BybitStreamKline[] }
+ */
+export interface BybitKlineMessage {
+  topic?: string;
+  data?: BybitStreamKline[];
+}
+
+/**
+ * 校验 K 线数值
+ */
+function isValidCandle(data: KlineCandle): boolean {
+  return [data.time, data.open, data.high, data.low, data.close, data.volume].every(
+    (value) => !isNaN(value)
+  );
+}
+
+/**
+ * 解析 Bybit REST K 线行，数值无效时返回 null
+ *
+ * @param intervalMs 周期毫秒数，用于推断是否已收盘（REST 接口不返回收盘标记）
+ */
+export function parseBybitKline(row: BybitKlineRow, intervalMs: number): KlineCandle | null {
+  if (!Array.isArray(row) || row.length < 7) return null;
+
+  const [start, open, high, low, close, volume, turnover] = row;
+  const data: KlineCandle = {
+    time: Math.floor(Number(start) / 1000) as UTCTimestamp,
+    open: Number(open),
+    high: Number(high),
+    low: Number(low),
+    close: Number(close),
+    volume: Number(volume),
+    quoteVolume: Number(turnover),
+    isClosed: Number(start) + intervalMs <= Date.now(),
+  };
+
+  return isValidCandle(data) ? data : null;
+}
+
+/**
+ * 解析 Bybit 推送的 K 线，数值无效时返回 null
+ */
+export function parseBybitStreamKline(kline: BybitStreamKline): KlineCandle | null {
+  const data: KlineCandle = {
+    time: Math.floor(kline.start / 1000) as UTCTimestamp,
+    open: parseFloat(kline.open),
+    high: parseFloat(kline.high),
+    low: parseFloat(kline.low),
+    close: parseFloat(kline.close),
+    volume: parseFloat(kline.volume),
+    quoteVolume: parseFloat(kline.turnover),
+    isClosed: kline.confirm,
+  };
+
+  return isValidCandle(data) ? data : null;
+}
+
+/**
+ * Bybit 业务错误码映射（未列出的按 API_ERROR 处理）
+ */
+const BYBIT_ERROR_CODES: Record<number, DataSourceErrorCode> = {
+  10001: 'INVALID_PARAMETER', // 参数错误（含无效交易对）
+  10006: 'RATE_LIMITED', // 请求频率过高
+  10016: 'SERVER_ERROR', // 服务内部错误
+};
+
+/**
+ * 解析 Bybit REST 响应（按时间降序返回，转换为升序）
+ *
+ * @throws {DataSourceError} retCode 非 0 或数据格式错误时
+ */
+export function parseBybitKlines(
+  response: BybitResponse<{ list: BybitKlineRow[] }>,
+  intervalMs: number
+): KlineCandle[] {
+  if (response.retCode !== 0) {
+    throw new DataSourceError(
+      `Bybit error ${response.retCode}: ${response.retMsg}`,
+      BYBIT_ERROR_CODES[response.retCode] ?? 'API_ERROR'
+    );
+  }
+  if (!Array.isArray(response.result?.list)) {
+    throw new DataSourceError('Invalid response format: expected array', 'INVALID_FORMAT');
+  }
+
+  return response.result.list
+    .map((row) => {
+      const candle = parseBybitKline(row, intervalMs);
+      if (!candle) {
+        throw new DataSourceError('Invalid numeric values in kline data', 'PARSE_ERROR');
+      }
+      return candle;
+    })
+    .reverse();
+}
+
+/**
+ * Bybit 数据源实现（现货 v5 接口）
+ */
+export class BybitDataSource extends BaseExchangeDataSource {
+  readonly exchange = 'bybit' as const;
+  protected readonly logTag = '[BybitDataSource]';
+  protected readonly maxLimit = 1000;
+  protected readonly supportedIntervals = Object.keys(BYBIT_INTERVALS) as NativeKlineInterval[];
+
+  private readonly REST_API_BASE = 'https://api.bybit.com/v5/market';
+  private readonly WS_URL = 'wss://stream.bybit.com/v5/public/spot';
+
+  protected async fetchCandles(
+    symbol: string,
+    interval: NativeKlineInterval,
+    range: KlineTimeRange & { limit: number },
+    signal?: AbortSignal
+  ): Promise<KlineCandle[]> {
+    const { startTime, endTime, limit } = range;
+
+    const params = new URLSearchParams({
+      category: 'spot',
+      symbol: toExchangeSymbol(symbol, this.exchange),
+      interval: this.resolveInterval(BYBIT_INTERVALS, interval),
+      limit: limit.toString(),
+    });
+
+    if (startTime) {
+      params.append('start', startTime.toString());
+    }
+    if (endTime) {
+      params.append('end', endTime.toString());
+    }
+
+    const response = await this.requestJson<BybitResponse<{ list: BybitKlineRow[] }>>(
+      `${this.REST_API_BASE}/kline?${params.toString()}`,
+      1,
+      signal
+    );
+
+    return parseBybitKlines(response, intervalToMs(interval));
+  }
+
+  protected createStream(symbol: string, interval: NativeKlineInterval): KlineStream {
+    const venueSymbol = toExchangeSymbol(symbol, this.exchange);
+    const topic = `kline.${this.resolveInterval(BYBIT_INTERVALS, interval)}.${venueSymbol}`;
+
+    return {
+      key: `bybit_${venueSymbol}_${interval}`,
+      url: this.WS_URL,
+      subscribeMessage: { op: 'subscribe', args: [topic] },
+      // Bybit 建议每 20 秒发送一次 ping 维持连接
+      heartbeat: { interval: 20_000, pingMessage: JSON.stringify({ op: 'ping' }) },
+      parse: (message) => {
+        const { topic: messageTopic, data } = message as BybitKlineMessage;
+        // pong、订阅确认等消息没有 topic
+        if (messageTopic !== topic || !Array.isArray(data) || data.length === 0) return null;
+        return parseBybitStreamKline(data[data.length - 1]);
+      },
+    };
+  }
+}
@@ -0,0 +1,216 @@
+import { KlineCandle, NativeKlineInterval, KlineTimeRange, DataSourceError } from './types';
+import { BaseExchangeDataSource, KlineStream } from './BaseExchangeDataSource';
+import { toExchangeSymbol } from './symbols';
+import { intervalToMs } from './intervals';
+import { UTCTimestamp } from 'lightweight-charts';
+
+/**
+ * Coinbase K 线粒度（秒），其余周期由基类重采样
+ */
+const COINBASE_GRANULARITIES: Partial<Record<NativeKlineInterval, string>> = {
+  '1m': '60',
+  '5m': '300',
+  '15m': '900',
+  '1h': '3600',
+  '6h': '21600',
+  '1d': '86400',
+};
+
+/**
+ * Coinbase K 线行：[time(秒), low, high, open, close, volume]
+ */
+export type CoinbaseCandleRow = number[];
+
+/**
+ * Coinbase 成交推送（matches 频道）
+ */
+export interface CoinbaseMatchMessage {
+  type: string;
+  product_id: string;
+  time: string;
+  price: string;
+  size: string;
+  side: 'buy' | 'sell';
+}
+
+/**
+ * 解析 Coinbase K 线行，数值无效时返回 null
+ *
+ * Coinbase 不提供成交额，按收盘价估算 quoteVolume。
+ */
+export function parseCoinbaseCandle(
+  row: CoinbaseCandleRow,
+  intervalMs: number
+): KlineCandle | null {
+  if (!Array.isArray(row) || row.length < 6) return null;
+
+  const [time, low, high, open, close, volume] = row.map(Number);
+  if ([time, low, high, open, close, volume].some((value) => isNaN(value))) return null;
+
+  return {
+    time: time as UTCTimestamp,
+    open,
+    high,
+    low,
+    close,
+    volume,
+    quoteVolume: volume * close,
+    isClosed: time * 1000 + intervalMs <= Date.now(),
+  };
+}
+
+/**
+ * 解析 Coinbase REST 响应（按时间降序返回，转换为升序）
+ *
+ * @throws {DataSourceError} 错误响应或数据格式错误时
+ */
+export function parseCoinbaseCandles(response: unknown, intervalMs: number): KlineCandle[] {
+  if (!Array.isArray(response)) {
+    const message = (response as { message?: string } | null)?.message;
+    throw new DataSourceError(
+      message ? `Coinbase error: ${message}` : 'Invalid response format: expected array',
+      message ? 'API_ERROR' : 'INVALID_FORMAT'
+    );
+  }
+
+  return response
+    .map((row: CoinbaseCandleRow) => {
+      const candle = parseCoinbaseCandle(row, intervalMs);
+      if (!candle) {
+        throw new DataSourceError('Invalid numeric values in kline data', 'PARSE_ERROR');
+      }
+      return candle;
+    })
+    .reverse();
+}
+
+/**
+ * 基于成交推送聚合 K 线
+ *
+ * Coinbase 公共 WebSocket 不推送 K 线，需要在客户端按周期聚合 matches 成交。
+ * seed 为 REST 获取的当前 K 线，用于补全订阅前已发生的成交（开盘价、高低点）。
+ */
+export function createMatchAggregator(intervalMs: number) {
+  let current: KlineCandle | null = null;
+  let seed: KlineCandle | null = null;
+
+  return {
+    /** 设置种子 K 线（仅在聚合尚未覆盖该周期时生效） */
+    seed(candle: KlineCandle) {
+      if (!current || current.time < candle.time) {
+        seed = candle;
+      }
+    },
+
+    /** 合并一笔成交，返回更新后的 K 线 */
+    add(match: CoinbaseMatchMessage): KlineCandle | null {
+      const price = parseFloat(match.price);
+      const size = parseFloat(match.size);
+      const timestamp = Date.parse(match.time);
+      if (isNaN(price) || isNaN(size) || isNaN(timestamp)) return null;
+
+      const bucketStart = Math.floor(timestamp / intervalMs) * intervalMs;
+      const time = (bucketStart / 1000) as UTCTimestamp;
+
+      if (!current || current.time !== time) {
+        // 乱序的旧周期成交直接丢弃
+        if (current && current.time > time) return null;
+
+        const base = seed && seed.time === time ? seed : null;
+        current = {
+          time,
+          open: base?.open ?? price,
+          high: base?.high ?? price,
+          low: base?.low ?? price,
+          close: price,
+          volume: base?.volume ?? 0,
+          quoteVolume: base?.quoteVolume ?? 0,
+          trades: 0,
+          isClosed: false,
+        };
+        seed = null;
+      }
+
+      current = {
+        ...current,
+        high: Math.max(current.high, price),
+        low: Math.min(current.low, price),
+        close: price,
+        volume: current.volume + size,
+        quoteVolume: current.quoteVolume + size * price,
+        trades: (current.trades ?? 0) + 1,
+      };
+
+      return current;
+    },
+  };
+}
+
+/**
+ * Coinbase 数据源实现（Exchange 公共接口）
+ */
+export class CoinbaseDataSource extends BaseExchangeDataSource {
+  readonly exchange = 'coinbase' as const;
+  protected readonly logTag = '[CoinbaseDataSource]';
+  protected readonly maxLimit = 300;
+  protected readonly supportedIntervals = Object.keys(COINBASE_GRANULARITIES) as NativeKlineInterval[];
+
+  private readonly REST_API_BASE = 'https://api.exchange.coinbase.com';
+  private readonly WS_URL = 'wss://ws-feed.exchange.coinbase.com';
+
+  protected async fetchCandles(
+    symbol: string,
+    interval: NativeKlineInterval,
+    range: KlineTimeRange & { limit: number },
+    signal?: AbortSignal
+  ): Promise<KlineCandle[]> {
+    const { startTime, endTime, limit } = range;
+    const granularity = this.resolveInterval(COINBASE_GRANULARITIES, interval);
+    const intervalMs = intervalToMs(interval);
+    const count = Math.min(limit, this.maxLimit);
+
+    const params = new URLSearchParams({ granularity });
+
+    // Coinbase 没有 limit 参数，需要由时间范围推算
+    if (startTime !== undefined || endTime !== undefined) {
+      const end = endTime ?? startTime! + count * intervalMs;
+      const start = startTime ?? end - (count - 1) * intervalMs;
+      params.append('start', new Date(start).toISOString());
+      params.append('end', new Date(end).toISOString());
+    }
+
+    const productId = toExchangeSymbol(symbol, this.exchange);
+    const response = await this.requestJson<unknown>(
+      `${this.REST_API_BASE}/products/${productId}/candles?${params.toString()}`,
+      1,
+      signal
+    );
+
+    return parseCoinbaseCandles(response, intervalMs).slice(-count);
+  }
+
+  protected createStream(symbol: string, interval: NativeKlineInterval): KlineStream {
+    const productId = toExchangeSymbol(symbol, this.exchange);
+    const aggregator = createMatchAggregator(intervalToMs(interval));
+
+    // 获取当前周期的 K 线作为聚合种子（失败不影响实时聚合）
+    this.fetchCandles(symbol, interval, { limit: 1 })
+      .then((candles) => {
+        if (candles.length > 0) aggregator.seed(candles[candles.length - 1]);
+      })
+      .catch((error) => console.warn('[CoinbaseDataSource] Failed to seed aggregator:', error));
+
+    return {
+      key: `coinbase_${productId}_${interval}`,
+      url: this.WS_URL,
+      subscribeMessage: { type: 'subscribe', product_ids: [productId], channels: ['matches'] },
+      parse: (message) => {
+        const match = message as CoinbaseMatchMessage;
+        // subscriptions 确认、heartbeat 等消息直接忽略
+        if (match.type !== 'match' && match.type !== 'last_match') return null;
+        if (match.product_id !== productId) return null;
+        return aggregator.add(match);
+      },
+    };
+  }
+}
@@ -8,6 +8,8 @@ import { CacheItem } from './types';
  * - 过期时间控制：支持自定义缓存过期时间
  * - 内存管理：限制最大缓存条目数
  * - 性能优化：避免重复请求相同数据
+ *
+ * 客户端数据源共用单例；服务端代理等需要独立容量的场景可直接创建实例
  */
 export class DataCache {
   // 单例实例
@@ -17,7 +19,12 @@ export class DataCache {
   private maxSize = 50; // 最大缓存条目数
   private defaultExpiry = 5 * 60 * 1000; // 默认 5 分钟过期
 
-  private constructor() {}
+  /**
+   * @param maxSize 最大缓存条目数（默认 50）
+   */
+  constructor(maxSize?: number) {
+    if (maxSize) this.maxSize = maxSize;
+  }
 
   /**
    * 获取单例实例
@@ -2,7 +2,11 @@
 
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { ReactQueryDevtools } from '@tanstack/react-query-devtools';
-import { ReactNode } from 'react';
+import { ReactNode, createContext, useContext, useMemo, useState } from 'react';
+import { ChartOptions, DeepPartial } from 'lightweight-charts';
+import { IKlineDataSource, KlineChartConfig } from './types';
+import { BinanceDataSource } from './BinanceDataSource';
+import { shouldRetryQuery } from './RetryPolicy';
 
 /**
  * K 线图系统的独立 Provider
@@ -12,8 +16,9 @@ import { ReactNode } from 'react';
  * - 📊 内置 React Query DevTools
  * - ⚙️ 针对 K 线数据优化的缓存配置
  * - 🔧 可配置的查询选项
+ * - 🔌 数据源依赖注入（可替换为其他交易所或 Mock 数据源）
  */
-interface KlineChartProviderProps {
+interface KlineChartProviderProps extends KlineChartConfig {
   children: ReactNode;
   /** 自定义 QueryClient（可选） */
   queryClient?: QueryClient;
@@ -21,6 +26,28 @@ interface KlineChartProviderProps {
   showDevTools?: boolean;
 }
 
+/**
+ * 通过 Context 下发给 Hooks 和组件的配置（已填充默认值）
+ */
+export interface KlineChartContextValue {
+  /** 数据源实例 */
+  dataSource: IKlineDataSource;
+  /** 图表样式配置 */
+  chartOptions?: DeepPartial<ChartOptions>;
+  /** 错误回调 */
+  onError?: (error: Error) => void;
+  /** 加载状态回调 */
+  onLoadingChange?: (isLoading: boolean) => void;
+  /** 是否启用数据缓存 */
+  enableCache: boolean;
+  /** 缓存过期时间（毫秒） */
+  cacheExpiry: number;
+}
+
+const DEFAULT_CACHE_EXPIRY = 5 * 60 * 1000;
+
+const KlineChartContext = createContext<KlineChartContextValue | null>(null);
+
 // 创建专门用于 K 线图的 QueryClient
 const createKlineQueryClient = () =>
   new QueryClient({
@@ -30,8 +57,8 @@ const createKlineQueryClient = () =>
         staleTime: 5 * 60 * 1000,
         // 缓存数据保留 10 分钟
         gcTime: 10 * 60 * 1000,
-        // 错误重试
-        retry: 3,
+        // 错误重试（数据源已按 RetryPolicy 重试，DataSourceError 不再重复重试）
+        retry: shouldRetryQuery,
         retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
         // 不在窗口焦点时自动重新获取（金融数据通常不需要）
         refetchOnWindowFocus: false,
@@ -58,34 +85,83 @@ const createKlineQueryClient = () =>
  * <KlineChartProvider queryClient={myQueryClient}>
  *   <OptimizedKlineChart symbol="btcusdt" interval="1m" />
  * </KlineChartProvider>
+ *
+ * // 方式 3：注入数据源和回调
+ * <KlineChartProvider
+ *   dataSource={new OKXDataSource({ enableCache: false })}
+ *   onError={(error) => reportError(error)}
+ * >
+ *   <OptimizedKlineChart symbol="BTC-USDT" interval="1m" />
+ * </KlineChartProvider>
  * ```
  */
 export function KlineChartProvider({
   children,
   queryClient,
   showDevTools = process.env.NODE_ENV === 'development',
+  dataSource,
+  chartOptions,
+  onError,
+  onLoadingChange,
+  enableCache = true,
+  cacheExpiry = DEFAULT_CACHE_EXPIRY,
 }: KlineChartProviderProps) {
-  // 使用提供的 QueryClient 或创建新的
-  const client = queryClient || createKlineQueryClient();
+  // 使用提供的 QueryClient 或创建新的（只创建一次，避免每次渲染丢失缓存）
+  const [client] = useState(() => queryClient || createKlineQueryClient());
+
+  // 未注入数据源时默认使用 Binance（TanStack Query 已负责缓存，关闭数据源内部缓存）
+  const resolvedDataSource = useMemo(
+    () => dataSource ?? new BinanceDataSource({ enableCache: false }),
+    [dataSource]
+  );
+
+  const value = useMemo<KlineChartContextValue>(
+    () => ({
+      dataSource: resolvedDataSource,
+      chartOptions,
+      onError,
+      onLoadingChange,
+      enableCache,
+      cacheExpiry,
+    }),
+    [resolvedDataSource, chartOptions, onError, onLoadingChange, enableCache, cacheExpiry]
+  );
 
   return (
     <QueryClientProvider client={client}>
-      {children}
-      {showDevTools && <ReactQueryDevtools initialIsOpen={false} />}
+      <KlineChartContext.Provider value={value}>
+        {children}
+        {showDevTools && <ReactQueryDevtools initialIsOpen={false} />}
+      </KlineChartContext.Provider>
     </QueryClientProvider>
   );
 }
 
+/**
+ * 读取 K 线图系统配置（数据源、回调、缓存设置）
+ *
+ * @throws {Error} 在 KlineChartProvider 外部调用时
+ */
+export function useKlineChartConfig(): KlineChartContextValue {
+  const context = useContext(KlineChartContext);
+  if (!context) {
+    throw new Error('useKlineChartConfig must be used within a KlineChartProvider');
+  }
+  return context;
+}
+
 /**
  * 导出工厂函数，用于创建独立的 K 线图系统实例
  */
-export const createKlineChartSystem = () => {
+export const createKlineChartSystem = (config: KlineChartConfig = {}) => {
   const queryClient = createKlineQueryClient();
 
   return {
     queryClient,
     Provider: ({ children }: { children: ReactNode }) => (
-      <KlineChartProvider queryClient={queryClient}>{children}</KlineChartProvider>
+      <KlineChartProvider queryClient={queryClient} {...config}>
+        {children}
+      </KlineChartProvider>
     ),
   };
 };
@@ -0,0 +1,168 @@
+import type { IKlineDataSource, KlineCandle, KlineInterval, SubscribeOptions } from './types';
+import type { ExchangeId } from './symbols';
+import type { WebSocketTransport } from './transport';
+import { getWebSocketTransport } from './transport';
+import { WorkerTransport } from './WorkerTransport';
+import { createDataSource } from './createDataSource';
+import { parseBinanceMessage } from './binanceSchemas';
+import { createDelivery, EVERY_DELIVERY } from './delivery';
+import {
+  createOrderBookBuilder,
+  createTradeTape,
+  OrderBookSnapshot,
+  TradeSnapshot,
+} from './marketSnapshots';
+
+/**
+ * 组合流中的单个数据流
+ */
+export interface StreamFeedRequest {
+  /** 组合流地址（不含 streams 参数） */
+  baseUrl: string;
+  /** 数据流名称，例如 `btcusdt@depth@100ms` */
+  stream: string;
+}
+
+/**
+ * 盘口订阅参数
+ */
+export interface OrderBookFeedRequest extends StreamFeedRequest {
+  /** 保留档位数（默认 100） */
+  depth?: number;
+}
+
+/**
+ * 成交订阅参数
+ */
+export interface TradeFeedRequest extends StreamFeedRequest {
+  /** 保留条数（默认 50） */
+  limit?: number;
+}
+
+/**
+ * 实时 K 线订阅参数
+ */
+export interface KlineFeedRequest {
+  exchange: ExchangeId;
+  symbol: string;
+  interval: KlineInterval;
+}
+
+/**
+ * 行情数据流：解析推送、维护盘口和聚合 K 线，只向调用方输出可渲染的快照
+ *
+ * - WorkerTransport：在 Worker 中完成，主线程只接收快照
+ * - InlineMarketDataFeed：同步实现，用于不支持 Worker 的环境（例如测试）和 Worker 内部
+ *
+ * 投递策略（options.delivery）在接收数据的线程执行，默认逐条投递
+ */
+export interface MarketDataFeed {
+  /** 订阅 Binance 深度增量，回调收到维护好的盘口快照 */
+  subscribeOrderBook(
+    request: OrderBookFeedRequest,
+    callback: (snapshot: OrderBookSnapshot) => void,
+    options?: SubscribeOptions<OrderBookSnapshot>
+  ): () => void;
+  /** 订阅 Binance 逐笔成交，回调收到最近成交快照 */
+  subscribeTrades(
+    request: TradeFeedRequest,
+    callback: (snapshot: TradeSnapshot) => void,
+    options?: SubscribeOptions<TradeSnapshot>
+  ): () => void;
+  /** 订阅实时 K 线（含非原生周期的重采样） */
+  subscribeKlines(
+    request: KlineFeedRequest,
+    callback: (candle: KlineCandle) => void,
+    options?: SubscribeOptions<KlineCandle>
+  ): () => void;
+}
+
+/**
+ * 同步行情数据流（在当前线程解析和聚合）
+ *
+ * @example
+ * ```ts
+ * const feed = new InlineMarketDataFeed(WebSocketManager.getInstance());
+ * feed.subscribeOrderBook({ baseUrl, stream: 'btcusdt@depth@100ms' }, console.log);
+ * ```
+ */
+export class InlineMarketDataFeed implements MarketDataFeed {
+  // 每个交易所一个数据源实例（只用于实时订阅）
+  private dataSources = new Map<ExchangeId, IKlineDataSource>();
+
+  constructor(private transport: WebSocketTransport) {}
+
+  subscribeOrderBook(
+    request: OrderBookFeedRequest,
+    callback: (snapshot: OrderBookSnapshot) => void,
+    options: SubscribeOptions<OrderBookSnapshot> = {}
+  ): () => void {
+    const { baseUrl, stream } = request;
+    const book = createOrderBookBuilder(request.depth);
+    // 每条增量都要应用到盘口，投递策略只决定快照何时送达
+    const delivery = createDelivery(options.delivery ?? EVERY_DELIVERY, callback);
+
+    const unsubscribe = this.transport.subscribeStream(baseUrl, stream, (data) => {
+      // 格式错误和错误帧由隔离区统一上报
+      const message = parseBinanceMessage(data, { source: 'MarketDataFeed', stream });
+      if (message?.type === 'depthUpdate') {
+        delivery.push(book.apply(message.data));
+      }
+    });
+    return () => {
+      delivery.cancel();
+      unsubscribe();
+    };
+  }
+
+  subscribeTrades(
+    request: TradeFeedRequest,
+    callback: (snapshot: TradeSnapshot) => void,
+    options: SubscribeOptions<TradeSnapshot> = {}
+  ): () => void {
+    const { baseUrl, stream } = request;
+    const tape = createTradeTape(request.limit);
+    const delivery = createDelivery(options.delivery ?? EVERY_DELIVERY, callback);
+
+    const unsubscribe = this.transport.subscribeStream(baseUrl, stream, (data) => {
+      const message = parseBinanceMessage(data, { source: 'MarketDataFeed', stream });
+      if (message?.type === 'trade') {
+        delivery.push(tape.add(message.data));
+      }
+    });
+    return () => {
+      delivery.cancel();
+      unsubscribe();
+    };
+  }
+
+  subscribeKlines(
+    request: KlineFeedRequest,
+    callback: (candle: KlineCandle) => void,
+    options: SubscribeOptions<KlineCandle> = {}
+  ): () => void {
+    let dataSource = this.dataSources.get(request.exchange);
+    if (!dataSource) {
+      dataSource = createDataSource(request.exchange, { enableCache: false });
+      this.dataSources.set(request.exchange, dataSource);
+    }
+    return dataSource.subscribe(request.symbol, request.interval, callback, {
+      delivery: options.delivery ?? EVERY_DELIVERY,
+    });
+  }
+}
+
+let inlineFeed: InlineMarketDataFeed | null = null;
+
+/**
+ * 获取当前行情数据流
+ *
+ * 传输层运行在 Worker 中时由 Worker 解析和聚合，否则回退到当前线程的同步实现
+ */
+export function getMarketDataFeed(): MarketDataFeed {
+  const transport = getWebSocketTransport();
+  if (transport instanceof WorkerTransport) return transport;
+
+  inlineFeed ??= new InlineMarketDataFeed(transport);
+  return inlineFeed;
+}
@@ -0,0 +1,589 @@
+import { UTCTimestamp } from 'lightweight-charts';
+import { KlineCandle } from './types';
+import { OrderBookUpdate, TradeData } from '@/types/binance';
+
+/**
+ * 市场模拟器配置
+ */
+export interface MarketSimulatorOptions {
+  /** 随机种子，相同种子生成完全相同的行情 */
+  seed?: number;
+  /** 锚定时刻的价格，默认 50000 */
+  initialPrice?: number;
+  /** 年化波动率（GBM σ），默认 0.6 */
+  volatility?: number;
+  /** 年化漂移率（GBM μ），默认 0 */
+  drift?: number;
+  /** 最小价格变动单位，默认 0.01 */
+  tickSize?: number;
+  /** 平均每秒成交笔数，默认 5 */
+  tradeRate?: number;
+  /** 平均每分钟成交量（基础资产），默认 10 */
+  baseVolume?: number;
+  /** 盘口档位数，默认 20 */
+  depthLevels?: number;
+  /**
+   * 锚定时刻（毫秒），该时刻价格等于 initialPrice，默认固定为 2024-01-01 UTC，
+   * 保证相同种子在任何一天生成的数据都相同；需要当前价格接近 initialPrice 时传入当前时间
+   */
+  anchorTime?: number;
+}
+
+/** 默认锚定时刻（2024-01-01T00:00:00Z） */
+const DEFAULT_ANCHOR_TIME = Date.UTC(2024, 0, 1);
+
+const MINUTE_MS = 60_000;
+const MINUTES_PER_YEAR = 365 * 24 * 60;
+/** 区块大小（分钟），整块统计结果会被缓存，用于快速生成大周期 K 线 */
+const BLOCK_MINUTES = 1440;
+/** 每分钟内的价格节点数（每 5 秒一个节点，节点之间线性插值） */
+const KNOTS_PER_MINUTE = 12;
+const KNOT_MS = MINUTE_MS / KNOTS_PER_MINUTE;
+/**
+ * 周期不小于该值（1 周）的 K 线使用区块概要：高低点只取分钟起点，成交笔数按期望值估算，
+ * 生成速度快约 30 倍；开收盘价和成交量与精确统计一致
+ */
+const SUMMARY_INTERVAL_MS = 7 * 24 * 60 * MINUTE_MS;
+
+/** 哈希盐值，区分不同用途的随机数 */
+const SALT_RETURN = 1;
+const SALT_KNOT = 2;
+const SALT_VOLUME = 3;
+const SALT_TRADE_COUNT = 4;
+const SALT_TRADE_TIME = 5;
+const SALT_TRADE_QTY = 6;
+const SALT_TRADE_SIDE = 7;
+const SALT_DEPTH = 8;
+
+/**
+ * 32 位整数混淆（murmur3 fmix32）
+ */
+function mix(h: number): number {
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+/**
+ * 字符串哈希，用于将交易对混入种子
+ */
+export function hashString(value: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h = Math.imul(h ^ value.charCodeAt(i), 0x01000193);
+  }
+  return mix(h);
+}
+
+/**
+ * 可随机访问的确定性随机数生成器
+ *
+ * 与顺序 PRNG 不同，任意位置的随机数都可以直接计算，
+ * 因此任意时间范围的历史数据无需从头生成。
+ */
+class RandomField {
+  constructor(private readonly seed: number) {}
+
+  /** (0, 1) 均匀分布 */
+  uniform(index: number, salt: number): number {
+    const h = mix(mix(this.seed ^ mix(index | 0)) ^ Math.imul(salt, 0x9e3779b1) ^ (index / 4294967296));
+    return (h + 0.5) / 4294967296;
+  }
+
+  /** 标准正态分布（Box-Muller） */
+  gaussian(index: number, salt: number): number {
+    const u1 = this.uniform(index, salt * 2 + 1);
+    const u2 = this.uniform(index, salt * 2 + 2);
+    return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+  }
+}
+
+/**
+ * 区块统计（相对于区块起点的对数价格）
+ */
+interface BlockStats {
+  sum: number;
+  max: number;
+  min: number;
+  volume: number;
+  /** 成交额（以区块起点价格为 1 计算，使用时乘以实际价格） */
+  relativeQuoteVolume: number;
+  trades: number;
+}
+
+/**
+ * 基于几何布朗运动（GBM）的确定性市场模拟器
+ *
+ * 价格模型：
+ * - 以 1 分钟为步长生成对数收益率：(μ - σ²/2)dt + σ√dt·z
+ * - 每分钟内 12 个价格节点构成布朗桥，节点之间线性插值，保证 K 线高低点与逐笔价格一致
+ * - 所有随机数由 (seed, 时间索引) 哈希得到，任意时刻的价格可直接计算
+ *
+ * K 线、成交和盘口都由同一条价格路径派生，因此三者保持一致；
+ * 相同种子和锚定时刻下生成的数据完全相同（周线及以上的高低点和成交笔数为概要值）。
+ */
+export class MarketSimulator {
+  readonly symbol: string;
+  readonly tickSize: number;
+
+  private readonly random: RandomField;
+  private readonly anchorMinute: number;
+  private readonly anchorLog: number;
+  private readonly stepDrift: number;
+  private readonly stepVolatility: number;
+  private readonly tradeRate: number;
+  private readonly baseVolume: number;
+  private readonly depthLevels: number;
+  private readonly priceDecimals: number;
+
+  private blockCache = new Map<number, BlockStats>();
+  private summaryCache = new Map<number, BlockStats>();
+  // 最近一次计算的分钟对数价格（实时推送时顺序递推，避免重复求和）
+  private lastMinute: number | null = null;
+  private lastMinuteLog = 0;
+
+  constructor(symbol: string, options: MarketSimulatorOptions = {}) {
+    const {
+      seed = 42,
+      initialPrice = 50_000,
+      volatility = 0.6,
+      drift = 0,
+      tickSize = 0.01,
+      tradeRate = 5,
+      baseVolume = 10,
+      depthLevels = 20,
+      anchorTime = DEFAULT_ANCHOR_TIME,
+    } = options;
+
+    this.symbol = symbol.toUpperCase();
+    this.tickSize = tickSize;
+    this.random = new RandomField(mix(seed ^ hashString(this.symbol)));
+    this.anchorMinute = Math.floor(anchorTime / MINUTE_MS);
+    this.anchorLog = Math.log(initialPrice);
+    const dt = 1 / MINUTES_PER_YEAR;
+    this.stepDrift = (drift - (volatility * volatility) / 2) * dt;
+    this.stepVolatility = volatility * Math.sqrt(dt);
+    this.tradeRate = tradeRate;
+    this.baseVolume = baseVolume;
+    this.depthLevels = depthLevels;
+    this.priceDecimals = Math.max(0, Math.ceil(-Math.log10(tickSize)));
+  }
+
+  // ============= 价格路径 =============
+
+  /**
+   * 第 minute 分钟的对数收益率
+   */
+  private minuteReturn(minute: number): number {
+    return this.stepDrift + this.stepVolatility * this.random.gaussian(minute, SALT_RETURN);
+  }
+
+  /**
+   * 分钟内第 knot 个节点相对分钟起点的对数价格偏移（布朗桥，首尾固定）
+   */
+  private knotOffset(minute: number, knot: number, minuteReturn: number): number {
+    if (knot <= 0) return 0;
+    if (knot >= KNOTS_PER_MINUTE) return minuteReturn;
+
+    const f = knot / KNOTS_PER_MINUTE;
+    // 均匀分布映射到 [-√3, √3]，方差为 1
+    const noise = (this.random.uniform(minute * KNOTS_PER_MINUTE + knot, SALT_KNOT) * 2 - 1) * Math.sqrt(3);
+    return f * minuteReturn + 0.5 * this.stepVolatility * Math.sqrt(f * (1 - f)) * noise;
+  }
+
+  /**
+   * 分钟内节点的最大/最小偏移（含首尾节点）
+   */
+  private minuteExtremes(minute: number, minuteReturn: number, knotLimit = KNOTS_PER_MINUTE) {
+    let max = 0;
+    let min = 0;
+    for (let knot = 1; knot <= knotLimit; knot++) {
+      const offset = this.knotOffset(minute, knot, minuteReturn);
+      if (offset > max) max = offset;
+      if (offset < min) min = offset;
+    }
+    return { max, min };
+  }
+
+  /**
+   * 第 minute 分钟的成交量（基础资产）
+   */
+  private minuteVolume(minute: number, minuteReturn: number): number {
+    const activity = 1 + Math.abs(minuteReturn) / this.stepVolatility;
+    return this.baseVolume * (0.3 + 1.4 * this.random.uniform(minute, SALT_VOLUME)) * activity * 0.6;
+  }
+
+  /**
+   * 区块统计（带缓存）
+   */
+  private blockStats(block: number): BlockStats {
+    const cached = this.blockCache.get(block);
+    if (cached) return cached;
+
+    const stats: BlockStats = { sum: 0, max: 0, min: 0, volume: 0, relativeQuoteVolume: 0, trades: 0 };
+    const start = block * BLOCK_MINUTES;
+    for (let minute = start; minute < start + BLOCK_MINUTES; minute++) {
+      const r = this.minuteReturn(minute);
+      const { max, min } = this.minuteExtremes(minute, r);
+      const volume = this.minuteVolume(minute, r);
+      stats.max = Math.max(stats.max, stats.sum + max);
+      stats.min = Math.min(stats.min, stats.sum + min);
+      stats.volume += volume;
+      stats.relativeQuoteVolume += volume * Math.exp(stats.sum + r / 2);
+      stats.trades += this.minuteTrades(minute);
+      stats.sum += r;
+    }
+
+    this.blockCache.set(block, stats);
+    return stats;
+  }
+
+  /**
+   * 区块概要（带缓存）：跳过分钟内节点和逐秒成交笔数，用于大周期 K 线和远距离求和
+   */
+  private blockSummary(block: number): BlockStats {
+    const cached = this.summaryCache.get(block) ?? this.blockCache.get(block);
+    if (cached) return cached;
+
+    const stats: BlockStats = { sum: 0, max: 0, min: 0, volume: 0, relativeQuoteVolume: 0, trades: 0 };
+    const start = block * BLOCK_MINUTES;
+    for (let minute = start; minute < start + BLOCK_MINUTES; minute++) {
+      const r = this.minuteReturn(minute);
+      const volume = this.minuteVolume(minute, r);
+      stats.volume += volume;
+      stats.relativeQuoteVolume += volume * Math.exp(stats.sum + r / 2);
+      stats.sum += r;
+      stats.max = Math.max(stats.max, stats.sum);
+      stats.min = Math.min(stats.min, stats.sum);
+    }
+    // tradeCount = floor(u · 2·tradeRate)，期望约为 tradeRate - 0.5
+    stats.trades = Math.round(Math.max(0, this.tradeRate - 0.5) * 60 * BLOCK_MINUTES);
+
+    this.summaryCache.set(block, stats);
+    return stats;
+  }
+
+  /**
+   * [from, to) 分钟区间内收益率之和
+   */
+  private sumReturns(from: number, to: number): number {
+    let sum = 0;
+    let minute = from;
+    while (minute < to) {
+      if (minute % BLOCK_MINUTES === 0 && minute + BLOCK_MINUTES <= to) {
+        sum += this.blockSummary(minute / BLOCK_MINUTES).sum;
+        minute += BLOCK_MINUTES;
+      } else {
+        sum += this.minuteReturn(minute);
+        minute++;
+      }
+    }
+    return sum;
+  }
+
+  /**
+   * 第 minute 分钟起点的对数价格
+   */
+  private logPriceAtMinute(minute: number): number {
+    // 顺序访问时直接递推
+    if (this.lastMinute !== null && minute >= this.lastMinute && minute - this.lastMinute < BLOCK_MINUTES) {
+      this.lastMinuteLog += this.sumReturns(this.lastMinute, minute);
+    } else if (minute >= this.anchorMinute) {
+      this.lastMinuteLog = this.anchorLog + this.sumReturns(this.anchorMinute, minute);
+    } else {
+      this.lastMinuteLog = this.anchorLog - this.sumReturns(minute, this.anchorMinute);
+    }
+    this.lastMinute = minute;
+    return this.lastMinuteLog;
+  }
+
+  /**
+   * 任意时刻的价格（未按 tickSize 取整）
+   */
+  priceAt(time: number): number {
+    const minute = Math.floor(time / MINUTE_MS);
+    const base = this.logPriceAtMinute(minute);
+    const r = this.minuteReturn(minute);
+    const position = (time - minute * MINUTE_MS) / KNOT_MS;
+    const knot = Math.floor(position);
+    const frac = position - knot;
+    const from = this.knotOffset(minute, knot, r);
+    const to = this.knotOffset(minute, knot + 1, r);
+    return Math.exp(base + from + (to - from) * frac);
+  }
+
+  /**
+   * 按 tickSize 取整
+   */
+  roundPrice(price: number): number {
+    return Number((Math.round(price / this.tickSize) * this.tickSize).toFixed(this.priceDecimals));
+  }
+
+  // ============= K 线 =============
+
+  /**
+   * 生成一根 K 线（openTime 需按周期对齐）
+   *
+   * 若周期尚未结束，只统计到 now 为止，并标记为未收盘。
+   */
+  getCandle(openTime: number, intervalMs: number, now = Date.now()): KlineCandle {
+    if (intervalMs < MINUTE_MS) {
+      return this.getSecondCandle(openTime, intervalMs, now);
+    }
+
+    const closeTime = Math.min(openTime + intervalMs, Math.max(now, openTime));
+    const startMinute = Math.floor(openTime / MINUTE_MS);
+    const fullEnd = Math.floor(closeTime / MINUTE_MS);
+
+    let log = this.logPriceAtMinute(startMinute);
+    const openLog = log;
+    let high = log;
+    let low = log;
+    let volume = 0;
+    let quoteVolume = 0;
+    let trades = 0;
+
+    const summary = intervalMs >= SUMMARY_INTERVAL_MS;
+    let minute = startMinute;
+    while (minute < fullEnd) {
+      // 整块区间直接使用缓存的区块统计
+      if (minute % BLOCK_MINUTES === 0 && minute + BLOCK_MINUTES <= fullEnd) {
+        const block = minute / BLOCK_MINUTES;
+        const stats = summary ? this.blockSummary(block) : this.blockStats(block);
+        high = Math.max(high, log + stats.max);
+        low = Math.min(low, log + stats.min);
+        volume += stats.volume;
+        quoteVolume += stats.relativeQuoteVolume * Math.exp(log);
+        trades += stats.trades;
+        log += stats.sum;
+        minute += BLOCK_MINUTES;
+        continue;
+      }
+
+      const r = this.minuteReturn(minute);
+      const { max, min } = this.minuteExtremes(minute, r);
+      const minuteVolume = this.minuteVolume(minute, r);
+      high = Math.max(high, log + max);
+      low = Math.min(low, log + min);
+      volume += minuteVolume;
+      quoteVolume += minuteVolume * Math.exp(log + r / 2);
+      trades += this.minuteTrades(minute);
+      log += r;
+      minute++;
+    }
+
+    // 进行中的最后一分钟：统计到当前节点，并计入当前价格
+    const partialMs = closeTime - fullEnd * MINUTE_MS;
+    if (partialMs > 0 && fullEnd * MINUTE_MS >= openTime) {
+      const r = this.minuteReturn(fullEnd);
+      const { max, min } = this.minuteExtremes(fullEnd, r, Math.floor(partialMs / KNOT_MS));
+      const fraction = partialMs / MINUTE_MS;
+      const minuteVolume = this.minuteVolume(fullEnd, r) * fraction;
+      const currentLog = Math.log(this.priceAt(closeTime));
+      high = Math.max(high, log + max, currentLog);
+      low = Math.min(low, log + min, currentLog);
+      volume += minuteVolume;
+      quoteVolume += minuteVolume * Math.exp(currentLog);
+      trades += Math.round(this.minuteTrades(fullEnd) * fraction);
+      log = currentLog;
+    }
+
+    return {
+      time: Math.floor(openTime / 1000) as UTCTimestamp,
+      open: this.roundPrice(Math.exp(openLog)),
+      high: this.roundPrice(Math.exp(high)),
+      low: this.roundPrice(Math.exp(low)),
+      close: this.roundPrice(Math.exp(log)),
+      volume: Number(volume.toFixed(6)),
+      quoteVolume: Number(quoteVolume.toFixed(2)),
+      trades,
+      isClosed: openTime + intervalMs <= now,
+    };
+  }
+
+  /**
+   * 秒级 K 线：逐秒采样价格路径，成交量按所在分钟的成交量比例分摊
+   */
+  private getSecondCandle(openTime: number, intervalMs: number, now: number): KlineCandle {
+    const closeTime = Math.min(openTime + intervalMs, Math.max(now, openTime));
+    const minute = Math.floor(openTime / MINUTE_MS);
+    const open = this.priceAt(openTime);
+
+    let high = open;
+    let low = open;
+    let trades = 0;
+    for (let time = openTime; time < closeTime; time += 1000) {
+      const price = this.priceAt(time);
+      high = Math.max(high, price);
+      low = Math.min(low, price);
+      trades += this.tradeCount(Math.floor(time / 1000));
+    }
+
+    const close = this.priceAt(closeTime);
+    high = Math.max(high, close);
+    low = Math.min(low, close);
+
+    const fraction = (closeTime - openTime) / MINUTE_MS;
+    const volume = this.minuteVolume(minute, this.minuteReturn(minute)) * fraction;
+
+    return {
+      time: Math.floor(openTime / 1000) as UTCTimestamp,
+      open: this.roundPrice(open),
+      high: this.roundPrice(high),
+      low: this.roundPrice(low),
+      close: this.roundPrice(close),
+      volume: Number(volume.toFixed(6)),
+      quoteVolume: Number((volume * (open + close) / 2).toFixed(2)),
+      trades,
+      isClosed: openTime + intervalMs <= now,
+    };
+  }
+
+  // ============= 逐笔成交 =============
+
+  /**
+   * 第 minute 分钟的成交笔数（与逐笔成交生成规则一致）
+   */
+  private minuteTrades(minute: number): number {
+    let count = 0;
+    const firstSecond = minute * 60;
+    for (let second = firstSecond; second < firstSecond + 60; second++) {
+      count += this.tradeCount(second);
+    }
+    return count;
+  }
+
+  /**
+   * 第 second 秒的成交笔数（均值为 tradeRate）
+   */
+  private tradeCount(second: number): number {
+    return Math.floor(this.random.uniform(second, SALT_TRADE_COUNT) * this.tradeRate * 2);
+  }
+
+  /**
+   * 生成第 second 秒内的全部成交（Binance trade 消息格式）
+   */
+  getTrades(second: number, eventTime = Date.now()): TradeData[] {
+    const count = this.tradeCount(second);
+    const trades: TradeData[] = [];
+    const averageQty = this.baseVolume / Math.max(1, this.tradeRate * 60);
+
+    for (let j = 0; j < count; j++) {
+      const index = second * 64 + j;
+      const time = second * 1000 + Math.floor(this.random.uniform(index, SALT_TRADE_TIME) * 1000);
+      const price = this.priceAt(time);
+      // 价格下行时卖方主动成交（买方为 maker）的概率更高
+      const trend = price - this.priceAt(time - KNOT_MS);
+      const sellProbability = trend < 0 ? 0.7 : trend > 0 ? 0.3 : 0.5;
+      const quantity = -Math.log(this.random.uniform(index, SALT_TRADE_QTY)) * averageQty;
+
+      trades.push({
+        e: 'trade',
+        E: eventTime,
+        s: this.symbol,
+        t: index,
+        p: this.roundPrice(price).toFixed(this.priceDecimals),
+        q: quantity.toFixed(5),
+        b: 0,
+        a: 0,
+        T: time,
+        m: this.random.uniform(index, SALT_TRADE_SIDE) < sellProbability,
+        M: true,
+      });
+    }
+
+    return trades.sort((a, b) => a.T - b.T);
+  }
+
+  /**
+   * 订阅逐笔成交（按秒生成，只推送已完整结束的秒，保证结果确定）
+   */
+  subscribeTrades(callback: (trade: TradeData) => void, pollMs = 250): () => void {
+    let lastSecond = Math.floor(Date.now() / 1000) - 1;
+
+    const timer = setInterval(() => {
+      const now = Date.now();
+      const currentSecond = Math.floor(now / 1000);
+      for (let second = lastSecond + 1; second < currentSecond; second++) {
+        this.getTrades(second, now).forEach(callback);
+      }
+      lastSecond = Math.max(lastSecond, currentSecond - 1);
+    }, pollMs);
+
+    return () => clearInterval(timer);
+  }
+
+  // ============= 盘口 =============
+
+  /**
+   * 生成 time 时刻的盘口档位（围绕当前价格，每秒刷新挂单量）
+   */
+  getDepth(time: number): { bids: [string, string][]; asks: [string, string][] } {
+    const mid = this.priceAt(time);
+    const bestBidTicks = Math.floor(mid / this.tickSize);
+    const epoch = Math.floor(time / 1000);
+    const averageQty = this.baseVolume / 20;
+
+    const level = (ticks: number, distance: number): [string, string] => {
+      const u = this.random.uniform(ticks ^ mix(epoch), SALT_DEPTH);
+      // 越远离盘口挂单量越大
+      const quantity = averageQty * (0.2 + 2 * u) * (1 + distance / this.depthLevels);
+      return [(ticks * this.tickSize).toFixed(this.priceDecimals), quantity.toFixed(5)];
+    };
+
+    const bids: [string, string][] = [];
+    const asks: [string, string][] = [];
+    for (let i = 0; i < this.depthLevels; i++) {
+      bids.push(level(bestBidTicks - i, i));
+      asks.push(level(bestBidTicks + 1 + i, i));
+    }
+    return { bids, asks };
+  }
+
+  /**
+   * 订阅盘口增量（Binance depthUpdate 消息格式）
+   *
+   * 每次推送完整档位，并对移出范围的旧档位推送数量 0，使增量合并后的盘口不会交叉。
+   */
+  subscribeDepth(callback: (update: OrderBookUpdate) => void, intervalMs = 100): () => void {
+    let updateId = 0;
+    let previousBids = new Set<string>();
+    let previousAsks = new Set<string>();
+
+    const emit = () => {
+      const now = Date.now();
+      const { bids, asks } = this.getDepth(now);
+
+      const withRemovals = (levels: [string, string][], previous: Set<string>) => {
+        const current = new Set(levels.map(([price]) => price));
+        const removed = [...previous]
+          .filter((price) => !current.has(price))
+          .map((price): [string, string] => [price, '0']);
+        return { levels: [...removed, ...levels], current };
+      };
+
+      const bidUpdate = withRemovals(bids, previousBids);
+      const askUpdate = withRemovals(asks, previousAsks);
+      previousBids = bidUpdate.current;
+      previousAsks = askUpdate.current;
+
+      callback({
+        e: 'depthUpdate',
+        E: now,
+        s: this.symbol,
+        U: updateId + 1,
+        u: updateId + 1,
+        b: bidUpdate.levels,
+        a: askUpdate.levels,
+      });
+      updateId++;
+    };
+
+    emit();
+    const timer = setInterval(emit, intervalMs);
+    return () => clearInterval(timer);
+  }
+}
@@ -0,0 +1,182 @@
+import {
+  KlineCandle,
+  NativeKlineInterval,
+  KlineTimeRange,
+  DataSourceError,
+  DataSourceErrorCode,
+} from './types';
+import { BaseExchangeDataSource, KlineStream } from './BaseExchangeDataSource';
+import { toExchangeSymbol } from './symbols';
+import { UTCTimestamp } from 'lightweight-charts';
+
+/**
+ * OKX K 线周期参数（日线使用 UTC 对齐的 1Dutc，与其他交易所保持一致）
+ */
+const OKX_INTERVALS: Partial<Record<NativeKlineInterval, string>> = {
+  '1m': '1m',
+  '3m': '3m',
+  '5m': '5m',
+  '15m': '15m',
+  '30m': '30m',
+  '1h': '1H',
+  '2h': '2H',
+  '4h': '4H',
+  '6h': '6Hutc',
+  '12h': '12Hutc',
+  '1d': '1Dutc',
+  '1w': '1Wutc',
+  '1M': '1Mutc',
+};
+
+/**
+ * OKX REST 响应
+ */
+export interface OKXResponse<T> {
+  code: string;
+  msg: string;
+  data: T;
+}
+
+/**
+ * OKX K 线行：[ts, o, h, l, c, vol, volCcy, volCcyQuote, confirm]
+ */
+export type OKXCandleRow = string[];
+
+/**
+ * OKX 推送消息：{ arg: { channel, instId }, data: OKXCandleRow[] }
+ */
+export interface OKXCandleMessage {
+  arg?: { channel: string; instId: string };
+  data?: OKXCandleRow[];
+}
+
+/**
+ * 解析 OKX K 线行，数值无效时返回 null
+ */
+export function parseOKXCandle(row: OKXCandleRow): KlineCandle | null {
+  if (!Array.isArray(row) || row.length < 9) return null;
+
+  const [ts, open, high, low, close, volume, , quoteVolume, confirm] = row;
+
+  const data: KlineCandle = {
+    time: Math.floor(Number(ts) / 1000) as UTCTimestamp,
+    open: Number(open),
+    high: Number(high),
+    low: Number(low),
+    close: Number(close),
+    // 现货的 vol 为基础资产数量，volCcyQuote 为计价资产金额
+    volume: Number(volume),
+    quoteVolume: Number(quoteVolume),
+    isClosed: confirm === '1',
+  };
+
+  const values = [data.time, data.open, data.high, data.low, data.close, data.volume];
+  return values.some((value) => isNaN(value)) ? null : data;
+}
+
+/**
+ * OKX 业务错误码映射（未列出的按 API_ERROR 处理）
+ */
+const OKX_ERROR_CODES: Record<string, DataSourceErrorCode> = {
+  '50001': 'SERVER_ERROR', // 服务暂时不可用
+  '50011': 'RATE_LIMITED', // 请求频率过高
+  '51000': 'INVALID_PARAMETER', // 参数错误
+  '51001': 'INVALID_SYMBOL', // 产品 ID 不存在
+};
+
+/**
+ * 解析 OKX REST 响应（按时间降序返回，转换为升序）
+ *
+ * @throws {DataSourceError} 响应码非 0 或数据格式错误时
+ */
+export function parseOKXCandles(response: OKXResponse<OKXCandleRow[]>): KlineCandle[] {
+  if (response.code !== '0') {
+    throw new DataSourceError(
+      `OKX error ${response.code}: ${response.msg}`,
+      OKX_ERROR_CODES[response.code] ?? 'API_ERROR'
+    );
+  }
+  if (!Array.isArray(response.data)) {
+    throw new DataSourceError('Invalid response format: expected array', 'INVALID_FORMAT');
+  }
+
+  return response.data
+    .map((row) => {
+      const candle = parseOKXCandle(row);
+      if (!candle) {
+        throw new DataSourceError('Invalid numeric values in kline data', 'PARSE_ERROR');
+      }
+      return candle;
+    })
+    .reverse();
+}
+
+/**
+ * OKX 数据源实现
+ *
+ * - 最新数据使用 /market/candles（最多 300 条）
+ * - 按时间范围查询使用 /market/history-candles（最多 100 条）
+ * - 实时数据通过 business 频道订阅 candle{bar}
+ */
+export class OKXDataSource extends BaseExchangeDataSource {
+  readonly exchange = 'okx' as const;
+  protected readonly logTag = '[OKXDataSource]';
+  protected readonly maxLimit = 100;
+  protected readonly supportedIntervals = Object.keys(OKX_INTERVALS) as NativeKlineInterval[];
+
+  private readonly REST_API_BASE = 'https://www.okx.com/api/v5/market';
+  private readonly WS_URL = 'wss://ws.okx.com:8443/ws/v5/business';
+  private readonly MAX_LATEST_LIMIT = 300;
+
+  protected async fetchCandles(
+    symbol: string,
+    interval: NativeKlineInterval,
+    range: KlineTimeRange & { limit: number },
+    signal?: AbortSignal
+  ): Promise<KlineCandle[]> {
+    const { startTime, endTime, limit } = range;
+    const isRange = startTime !== undefined || endTime !== undefined;
+
+    const params = new URLSearchParams({
+      instId: toExchangeSymbol(symbol, this.exchange),
+      bar: this.resolveInterval(OKX_INTERVALS, interval),
+      limit: Math.min(limit, isRange ? this.maxLimit : this.MAX_LATEST_LIMIT).toString(),
+    });
+
+    // after：返回早于该时间戳的数据；before：返回晚于该时间戳的数据（均不含边界）
+    if (endTime) {
+      params.append('after', (endTime + 1).toString());
+    }
+    if (startTime) {
+      params.append('before', (startTime - 1).toString());
+    }
+
+    const path = isRange ? 'history-candles' : 'candles';
+    const response = await this.requestJson<OKXResponse<OKXCandleRow[]>>(
+      `${this.REST_API_BASE}/${path}?${params.toString()}`,
+      1,
+      signal
+    );
+
+    return parseOKXCandles(response);
+  }
+
+  protected createStream(symbol: string, interval: NativeKlineInterval): KlineStream {
+    const instId = toExchangeSymbol(symbol, this.exchange);
+    const channel = `candle${this.resolveInterval(OKX_INTERVALS, interval)}`;
+
+    return {
+      key: `okx_${instId}_${interval}`,
+      url: this.WS_URL,
+      subscribeMessage: { op: 'subscribe', args: [{ channel, instId }] },
+      // OKX 30 秒内无数据会断开连接，需要定期发送文本 ping
+      heartbeat: { interval: 25_000, pingMessage: 'ping', pongMessage: 'pong' },
+      parse: (message) => {
+        const { data } = message as OKXCandleMessage;
+        // 订阅确认等事件消息没有 data 字段
+        if (!Array.isArray(data) || data.length === 0) return null;
+        return parseOKXCandle(data[data.length - 1]);
+      },
+    };
+  }
+}
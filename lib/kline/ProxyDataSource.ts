@@ -0,0 +1,47 @@
+import { BinanceDataSource, BinanceDataSourceOptions } from './BinanceDataSource';
+
+/** 默认代理地址（对应 app/api 下的路由） */
+const DEFAULT_PROXY_BASE = '/api';
+
+/**
+ * 代理数据源配置
+ */
+export interface ProxyDataSourceOptions extends BinanceDataSourceOptions {
+  /** 代理接口地址，默认 `/api`；部署在其他域名时传入完整地址 */
+  baseUrl?: string;
+}
+
+/**
+ * 经由同源代理获取 Binance 数据的数据源
+ *
+ * 历史 K 线通过 `/api/klines` 请求（服务端共享缓存已收盘 K 线、合并并发请求、统一限频），
+ * 避免浏览器直连交易所时的 CORS 问题；实时推送与 BinanceDataSource 相同。
+ *
+ * @example
+ * ```tsx
+ * <KlineChartProvider dataSource={new ProxyDataSource()}>
+ *   <App />
+ * </KlineChartProvider>
+ * ```
+ */
+export class ProxyDataSource extends BinanceDataSource {
+  protected readonly logTag = '[ProxyDataSource]';
+
+  private readonly baseUrl: string;
+
+  constructor(options: ProxyDataSourceOptions = {}) {
+    super(options);
+    this.baseUrl = (options.baseUrl ?? DEFAULT_PROXY_BASE).replace(/\/+$/, '');
+  }
+
+  /**
+   * 与直连的 Binance 数据源区分查询缓存（上游地址由服务端决定，可能与页面配置不同）
+   */
+  get id(): string {
+    return 'binance-proxy';
+  }
+
+  protected get restBase(): string {
+    return this.baseUrl;
+  }
+}
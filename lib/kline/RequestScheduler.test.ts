@@ -0,0 +1,36 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { RequestScheduler } from './RequestScheduler';
+
+const POLICY = { weightLimit: 100, threshold: 1, windowMs: 60 * 60 * 1000 };
+
+describe('RequestScheduler', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('returns the reserved weight when a request is aborted before it is sent', async () => {
+    const fetchMock = vi.fn(async () => new Response('[]'));
+    vi.stubGlobal('fetch', fetchMock);
+    const scheduler = RequestScheduler.getInstance();
+    const controller = new AbortController();
+
+    const requests = Array.from({ length: 5 }, () =>
+      scheduler.fetch('https://abort.test/klines', { weight: 10, policy: POLICY, signal: controller.signal })
+    );
+    controller.abort();
+
+    const results = await Promise.allSettled(requests);
+    expect(results.every((result) => result.status === 'rejected')).toBe(true);
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(scheduler.getStatus('abort.test').usedWeight).toBe(0);
+  });
+
+  it('keeps the weight of requests that were sent', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('[]')));
+    const scheduler = RequestScheduler.getInstance();
+
+    await scheduler.fetch('https://sent.test/klines', { weight: 10, policy: POLICY });
+
+    expect(scheduler.getStatus('sent.test').usedWeight).toBe(10);
+  });
+});
@@ -0,0 +1,239 @@
+import { DataSourceError } from './types';
+import { abortableDelay, createAbortError } from './abort';
+
+/**
+ * 接口限频策略
+ */
+export interface RateLimitPolicy {
+  /** 每个窗口允许的最大权重 */
+  weightLimit: number;
+  /** 窗口长度（毫秒），默认 60 秒 */
+  windowMs?: number;
+  /** 已用权重达到上限的该比例后开始排队，默认 0.9 */
+  threshold?: number;
+  /** 服务端返回已用权重的响应头，例如 Binance 的 X-MBX-USED-WEIGHT-1M */
+  usedWeightHeader?: string;
+}
+
+/**
+ * 单次请求选项
+ */
+export interface ScheduledRequestOptions {
+  /** 请求权重，默认 1 */
+  weight?: number;
+  /** 该主机的限频策略（首次传入后保存，之后的请求沿用） */
+  policy?: RateLimitPolicy;
+  /** 取消信号（排队等待和请求本身都会被中断） */
+  signal?: AbortSignal;
+}
+
+/**
+ * 主机限频状态
+ */
+export interface RateLimitStatus {
+  /** 当前窗口已用权重 */
+  usedWeight: number;
+  /** 窗口权重上限（未配置策略时为 undefined） */
+  weightLimit?: number;
+  /** 被限频/封禁的解除时间（毫秒时间戳），0 表示未被限制 */
+  blockedUntil: number;
+}
+
+interface HostState {
+  policy?: RateLimitPolicy;
+  usedWeight: number;
+  windowStart: number;
+  blockedUntil: number;
+  blockCode: 'RATE_LIMITED' | 'IP_BANNED';
+}
+
+const DEFAULT_WINDOW_MS = 60 * 1000;
+const DEFAULT_THRESHOLD = 0.9;
+// 服务端未返回 Retry-After 时的默认等待时间
+const DEFAULT_RETRY_AFTER_MS = 60 * 1000;
+
+/**
+ * 判断是否为限频/封禁错误（这类错误重试只会延长封禁时间）
+ */
+export function isRateLimitError(error: unknown): error is DataSourceError {
+  return (
+    error instanceof DataSourceError &&
+    (error.code === 'RATE_LIMITED' || error.code === 'IP_BANNED')
+  );
+}
+
+/**
+ * REST 请求调度器（单例模式）
+ *
+ * 功能特性：
+ * - 权重统计：按主机统计当前窗口已用权重，优先采用服务端响应头校准
+ * - 排队等待：权重接近上限时延迟到下一个窗口再发送；发送前取消的请求不占用权重
+ * - 限频处理：HTTP 429 / 418 时记录 Retry-After，期间的请求直接失败而不再打到服务端
+ * - 多图表共享：所有数据源实例共用同一份权重预算
+ */
+export class RequestScheduler {
+  // 单例实例
+  private static instance: RequestScheduler;
+  // 主机 -> 限频状态
+  private hosts = new Map<string, HostState>();
+
+  private constructor() {}
+
+  /**
+   * 获取单例实例
+   */
+  static getInstance(): RequestScheduler {
+    if (!RequestScheduler.instance) {
+      RequestScheduler.instance = new RequestScheduler();
+    }
+    return RequestScheduler.instance;
+  }
+
+  /**
+   * 按限频策略发送请求
+   *
+   * @throws {DataSourceError} RATE_LIMITED / IP_BANNED，error.retryAfter 为建议等待时间（毫秒）；取消时为 ABORTED
+   */
+  async fetch(url: string, options: ScheduledRequestOptions = {}): Promise<Response> {
+    const { weight = 1, policy, signal } = options;
+    const state = this.getState(this.getHost(url));
+    if (policy) state.policy = policy;
+
+    const windowStart = await this.reserve(state, weight, signal);
+    // 预留之后、发送之前被取消：请求不会到达服务端，归还预留的权重
+    if (signal?.aborted) {
+      this.release(state, weight, windowStart);
+      throw createAbortError();
+    }
+
+    const response = await fetch(url, { signal });
+    this.syncUsedWeight(state, response);
+
+    if (response.status === 429 || response.status === 418) {
+      const retryAfter = this.parseRetryAfter(response);
+      state.blockedUntil = Date.now() + retryAfter;
+      state.blockCode = response.status === 418 ? 'IP_BANNED' : 'RATE_LIMITED';
+
+      console.warn(
+        `[RequestScheduler] HTTP ${response.status} from ${this.getHost(url)}, blocked for ${retryAfter}ms`
+      );
+      throw this.createBlockedError(state);
+    }
+
+    return response;
+  }
+
+  /**
+   * 获取主机的限频状态
+   */
+  getStatus(host: string): RateLimitStatus {
+    const state = this.getState(host);
+    this.rollWindow(state, Date.now());
+    return {
+      usedWeight: state.usedWeight,
+      weightLimit: state.policy?.weightLimit,
+      blockedUntil: state.blockedUntil > Date.now() ? state.blockedUntil : 0,
+    };
+  }
+
+  /**
+   * 预留权重：被封禁时直接失败，预算不足时等待下一个窗口（等待期间取消不占用权重）
+   *
+   * @returns 预留所在窗口的起始时间
+   */
+  private async reserve(state: HostState, weight: number, signal?: AbortSignal): Promise<number> {
+    for (;;) {
+      const now = Date.now();
+      this.rollWindow(state, now);
+
+      if (state.blockedUntil > now) {
+        throw this.createBlockedError(state);
+      }
+
+      const { policy } = state;
+      const budget = policy ? policy.weightLimit * (policy.threshold ?? DEFAULT_THRESHOLD) : Infinity;
+      if (!policy || state.usedWeight + weight <= budget) {
+        state.usedWeight += weight;
+        return state.windowStart;
+      }
+
+      const waitMs = state.windowStart + (policy.windowMs ?? DEFAULT_WINDOW_MS) - now;
+      console.log(`[RequestScheduler] Weight budget exhausted, waiting ${waitMs}ms`);
+      await abortableDelay(waitMs, signal);
+    }
+  }
+
+  /**
+   * 归还未使用的预留权重（窗口已切换时计数已清零，无需归还）
+   */
+  private release(state: HostState, weight: number, windowStart: number): void {
+    if (state.windowStart !== windowStart) return;
+    state.usedWeight = Math.max(0, state.usedWeight - weight);
+  }
+
+  /**
+   * 窗口按整分钟对齐（与 Binance 的计数周期一致），过期后清零
+   */
+  private rollWindow(state: HostState, now: number): void {
+    const windowMs = state.policy?.windowMs ?? DEFAULT_WINDOW_MS;
+    const windowStart = Math.floor(now / windowMs) * windowMs;
+    if (windowStart !== state.windowStart) {
+      state.windowStart = windowStart;
+      state.usedWeight = 0;
+    }
+  }
+
+  /**
+   * 用服务端返回的已用权重校准本地计数（其他标签页或进程也会消耗权重）
+   */
+  private syncUsedWeight(state: HostState, response: Response): void {
+    const header = state.policy?.usedWeightHeader;
+    if (!header) return;
+
+    const usedWeight = Number(response.headers.get(header));
+    if (Number.isFinite(usedWeight) && usedWeight > 0) {
+      this.rollWindow(state, Date.now());
+      state.usedWeight = Math.max(state.usedWeight, usedWeight);
+    }
+  }
+
+  /**
+   * 解析 Retry-After（秒数或 HTTP 日期）
+   */
+  private parseRetryAfter(response: Response): number {
+    const value = response.headers.get('Retry-After');
+    if (!value) return DEFAULT_RETRY_AFTER_MS;
+
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+    const date = Date.parse(value);
+    return isNaN(date) ? DEFAULT_RETRY_AFTER_MS : Math.max(0, date - Date.now());
+  }
+
+  private createBlockedError(state: HostState): DataSourceError {
+    const retryAfter = Math.max(0, state.blockedUntil - Date.now());
+    const message =
+      state.blockCode === 'IP_BANNED'
+        ? `IP banned by exchange, retry in ${Math.ceil(retryAfter / 1000)}s`
+        : `Rate limited by exchange, retry in ${Math.ceil(retryAfter / 1000)}s`;
+    return new DataSourceError(message, state.blockCode, { retryAfter });
+  }
+
+  private getHost(url: string): string {
+    try {
+      return new URL(url, 'http://localhost').host;
+    } catch {
+      return url;
+    }
+  }
+
+  private getState(host: string): HostState {
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = { usedWeight: 0, windowStart: 0, blockedUntil: 0, blockCode: 'RATE_LIMITED' };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+}
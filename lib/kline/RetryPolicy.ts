@@ -0,0 +1,142 @@
+import { DataSourceError, DataSourceErrorCode } from './types';
+import { isAbortError } from './abort';
+
+/**
+ * 单个错误码的重试规则
+ */
+export interface RetryRule {
+  /** 是否重试 */
+  retryable: boolean;
+  /** 该错误码的最大尝试次数（覆盖全局 maxAttempts） */
+  maxAttempts?: number;
+}
+
+/**
+ * 重试策略配置
+ */
+export interface RetryPolicyOptions {
+  /** 最大尝试次数（含首次），默认 3 */
+  maxAttempts?: number;
+  /** 首次重试延迟（毫秒），默认 1000 */
+  baseDelay?: number;
+  /** 最大延迟（毫秒），默认 30000 */
+  maxDelay?: number;
+  /** 退避倍数，默认 2 */
+  factor?: number;
+  /** 抖动比例（0 ~ 1），延迟在 ±jitter 范围内随机浮动，默认 0.2 */
+  jitter?: number;
+  /** 按错误码覆盖默认规则 */
+  rules?: Partial<Record<DataSourceErrorCode, RetryRule>>;
+}
+
+/**
+ * 默认规则：调用方问题、解析失败、限频和取消不重试；网络和服务端问题重试
+ */
+const DEFAULT_RULES: Record<DataSourceErrorCode, RetryRule> = {
+  INVALID_PARAMETER: { retryable: false },
+  INVALID_SYMBOL: { retryable: false },
+  UNSUPPORTED_INTERVAL: { retryable: false },
+  NETWORK_ERROR: { retryable: true },
+  TIMEOUT: { retryable: true },
+  SERVER_ERROR: { retryable: true },
+  CONNECTION_CLOSED: { retryable: true },
+  HTTP_ERROR: { retryable: false },
+  API_ERROR: { retryable: false },
+  INVALID_FORMAT: { retryable: false },
+  PARSE_ERROR: { retryable: false },
+  // 限频期间再请求只会延长封禁，交给调用方在 retryAfter 之后处理
+  RATE_LIMITED: { retryable: false },
+  IP_BANNED: { retryable: false },
+  ABORTED: { retryable: false },
+  FETCH_FAILED: { retryable: false },
+};
+
+/**
+ * 重试策略
+ *
+ * REST 请求（BaseExchangeDataSource）和 WebSocket 重连（WebSocketManager）共用：
+ * - 指数退避 + 随机抖动，避免多个客户端同时重试
+ * - 按错误码判断是否可重试，可逐个覆盖
+ * - 服务端给出 retryAfter 时优先使用
+ *
+ * @example
+ * ```ts
+ * const policy = new RetryPolicy({
+ *   maxAttempts: 5,
+ *   rules: { API_ERROR: { retryable: true, maxAttempts: 2 } },
+ * });
+ * new BinanceDataSource({ retryPolicy: policy });
+ * ```
+ */
+export class RetryPolicy {
+  readonly maxAttempts: number;
+  private readonly baseDelay: number;
+  private readonly maxDelay: number;
+  private readonly factor: number;
+  private readonly jitter: number;
+  private readonly rules: Record<DataSourceErrorCode, RetryRule>;
+
+  constructor(options: RetryPolicyOptions = {}) {
+    this.maxAttempts = options.maxAttempts ?? 3;
+    this.baseDelay = options.baseDelay ?? 1000;
+    this.maxDelay = options.maxDelay ?? 30_000;
+    this.factor = options.factor ?? 2;
+    this.jitter = Math.min(Math.max(options.jitter ?? 0.2, 0), 1);
+    this.rules = { ...DEFAULT_RULES, ...options.rules };
+  }
+
+  /**
+   * 错误是否属于可重试类型（不考虑次数）
+   *
+   * 非 DataSourceError 的未知错误（如代码异常）不重试
+   */
+  isRetryable(error: unknown): boolean {
+    if (isAbortError(error) || !(error instanceof DataSourceError)) return false;
+    return this.rules[error.code]?.retryable ?? false;
+  }
+
+  /**
+   * 第 attempt 次尝试失败后是否继续重试
+   *
+   * @param attempt 已完成的尝试次数（从 1 开始）
+   */
+  shouldRetry(error: unknown, attempt: number): boolean {
+    if (!this.isRetryable(error)) return false;
+    const rule = this.rules[(error as DataSourceError).code];
+    return attempt < (rule?.maxAttempts ?? this.maxAttempts);
+  }
+
+  /**
+   * 第 attempt 次尝试失败后的等待时间（毫秒）
+   *
+   * @param attempt 已完成的尝试次数（从 1 开始）
+   */
+  getDelay(attempt: number, error?: unknown): number {
+    if (error instanceof DataSourceError && error.retryAfter !== undefined) {
+      return error.retryAfter;
+    }
+
+    const delay = Math.min(this.baseDelay * this.factor ** (attempt - 1), this.maxDelay);
+    const spread = delay * this.jitter;
+    return Math.round(delay - spread + Math.random() * spread * 2);
+  }
+}
+
+/**
+ * REST 请求默认策略：最多 3 次，1s / 2s 退避
+ */
+export const DEFAULT_RETRY_POLICY = new RetryPolicy();
+
+/**
+ * WebSocket 重连默认策略：最多 5 次重连，1s ~ 16s 退避
+ */
+export const WEBSOCKET_RETRY_POLICY = new RetryPolicy({ maxAttempts: 5, maxDelay: 16_000 });
+
+/**
+ * TanStack Query 重试判断
+ *
+ * 数据源已按 RetryPolicy 重试过，DataSourceError 不再重复重试；其他错误最多重试 3 次
+ */
+export function shouldRetryQuery(failureCount: number, error: Error): boolean {
+  return !(error instanceof DataSourceError) && failureCount < 3;
+}
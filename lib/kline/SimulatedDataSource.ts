@@ -0,0 +1,165 @@
+import {
+  IKlineDataSource,
+  KlineCandle,
+  KlineInterval,
+  KlineTimeRange,
+  KlineRangeOptions,
+  DataSourceError,
+  SubscribeOptions,
+} from './types';
+import { MarketSimulator, MarketSimulatorOptions } from './MarketSimulator';
+import { alignToInterval, nextIntervalTime, previousIntervalTime } from './intervals';
+import { fetchPaginatedRange } from './fetchRange';
+import { throwIfAborted } from './abort';
+import { createDelivery, isSameCandle } from './delivery';
+
+/**
+ * 模拟数据源配置
+ */
+export interface SimulatedDataSourceOptions extends MarketSimulatorOptions {
+  /** 实时 K 线推送间隔（毫秒），默认 500 */
+  updateInterval?: number;
+}
+
+/**
+ * 模拟数据源实现（离线开发用）
+ *
+ * 功能特性：
+ * - 无需网络：历史和实时数据全部由 MarketSimulator 本地生成
+ * - 确定性：相同种子下任意时间范围的数据完全相同
+ * - 一致性：K 线、逐笔成交、盘口共享同一条价格路径（通过 getMarket 获取）
+ */
+export class SimulatedDataSource implements IKlineDataSource {
+  readonly id = 'simulated';
+
+  private readonly options: SimulatedDataSourceOptions;
+  private markets = new Map<string, MarketSimulator>();
+  private timers = new Set<ReturnType<typeof setInterval>>();
+
+  constructor(options: SimulatedDataSourceOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * 获取交易对的模拟器（同一交易对共享实例，供盘口和成交流使用）
+   */
+  getMarket(symbol: string): MarketSimulator {
+    const key = symbol.toLowerCase();
+    let market = this.markets.get(key);
+    if (!market) {
+      market = new MarketSimulator(key, this.options);
+      this.markets.set(key, market);
+    }
+    return market;
+  }
+
+  async fetchHistorical(
+    symbol: string,
+    interval: KlineInterval,
+    limit = 100,
+    signal?: AbortSignal
+  ): Promise<KlineCandle[]> {
+    return this.fetchHistoricalByTimeRange(symbol, interval, { limit }, signal);
+  }
+
+  async fetchHistoricalByTimeRange(
+    symbol: string,
+    interval: KlineInterval,
+    options: KlineTimeRange = {},
+    signal?: AbortSignal
+  ): Promise<KlineCandle[]> {
+    const { startTime, endTime, limit = 100 } = options;
+    throwIfAborted(signal);
+
+    // 与 Binance 保持一致的参数校验
+    if (limit < 1 || limit > 1000) {
+      throw new DataSourceError('Limit must be between 1 and 1000', 'INVALID_PARAMETER');
+    }
+    if (startTime && endTime && startTime >= endTime) {
+      throw new DataSourceError('startTime must be less than endTime', 'INVALID_PARAMETER');
+    }
+
+    const market = this.getMarket(symbol);
+    const now = Date.now();
+    const lastOpenTime = alignToInterval(Math.min(endTime ?? now, now), interval);
+
+    // 与 Binance 语义一致：指定 startTime 时从起点向后取，否则取截至 endTime 的最新 limit 条
+    let firstOpenTime: number;
+    if (startTime) {
+      firstOpenTime = alignToInterval(startTime, interval);
+      if (firstOpenTime < startTime) firstOpenTime = nextIntervalTime(firstOpenTime, interval);
+    } else {
+      firstOpenTime = lastOpenTime;
+      for (let i = 1; i < limit; i++) {
+        firstOpenTime = previousIntervalTime(firstOpenTime, interval);
+      }
+    }
+
+    // 模拟器可直接生成任意周期（含月线、自定义周期），按周期边界逐根生成
+    const candles: KlineCandle[] = [];
+    for (
+      let openTime = firstOpenTime;
+      openTime <= lastOpenTime && candles.length < limit;
+      openTime = nextIntervalTime(openTime, interval)
+    ) {
+      candles.push(market.getCandle(openTime, nextIntervalTime(openTime, interval) - openTime, now));
+    }
+    return candles;
+  }
+
+  async fetchHistoricalRange(
+    symbol: string,
+    interval: KlineInterval,
+    options: KlineRangeOptions
+  ): Promise<KlineCandle[]> {
+    return fetchPaginatedRange(
+      (range) => this.fetchHistoricalByTimeRange(symbol, interval, range, options.signal),
+      interval,
+      options,
+      1000
+    );
+  }
+
+  subscribe(
+    symbol: string,
+    interval: KlineInterval,
+    callback: (data: KlineCandle) => void,
+    options: SubscribeOptions<KlineCandle> = {}
+  ): () => void {
+    const market = this.getMarket(symbol);
+    const delivery = createDelivery(options.delivery, callback, isSameCandle);
+    const candleAt = (openTime: number, now: number) =>
+      market.getCandle(openTime, nextIntervalTime(openTime, interval) - openTime, now);
+    let currentOpenTime = alignToInterval(Date.now(), interval);
+
+    console.log(`[SimulatedDataSource] Subscribing to ${symbol.toLowerCase()}_${interval}`);
+
+    const timer = setInterval(() => {
+      const now = Date.now();
+      const openTime = alignToInterval(now, interval);
+
+      // 周期切换时先推送上一根的收盘数据
+      if (openTime !== currentOpenTime) {
+        delivery.push(candleAt(currentOpenTime, now));
+        currentOpenTime = openTime;
+      }
+
+      delivery.push(candleAt(openTime, now));
+    }, this.options.updateInterval ?? 500);
+
+    this.timers.add(timer);
+
+    return () => {
+      clearInterval(timer);
+      this.timers.delete(timer);
+      delivery.cancel();
+    };
+  }
+
+  destroy(): void {
+    console.log('[SimulatedDataSource] Destroying data source');
+    this.timers.forEach((timer) => clearInterval(timer));
+    this.timers.clear();
+    this.markets.clear();
+  }
+}
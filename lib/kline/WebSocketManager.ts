@@ -1,25 +1,140 @@
-import { WebSocketState, WebSocketSubscription, HeartbeatOptions } from './types';
+import {
+  WebSocketState,
+  WebSocketSubscription,
+  HeartbeatOptions,
+  CombinedStreamOptions,
+  ConnectionStatus,
+  BackgroundPolicy,
+  DataSourceError,
+  WebSocketFactory,
+  WebSocketLike,
+} from './types';
+import { RetryPolicy, WEBSOCKET_RETRY_POLICY } from './RetryPolicy';
+import { MessageQuarantine } from './quarantine';
+import * as s from './schema';
+import { errorFrameSchema, subscriptionAckSchema } from './binanceSchemas';
+import { klineEvents } from './events';
+import { StreamMetricsRecorder, ConnectionMetrics } from './streamMetrics';
+import type { WebSocketTransport } from './transport';
 
 /** 心跳检测默认配置 */
 const DEFAULT_HEARTBEAT_INTERVAL = 30_000; // 检测间隔 30s
 const DEFAULT_HEARTBEAT_TIMEOUT = 60_000; // 无消息超时 60s 判定连接失效
 
+/** 组合流默认限制（Binance：单连接 1024 个数据流、每秒 5 条客户端消息） */
+const DEFAULT_MAX_STREAMS_PER_CONNECTION = 1024;
+const DEFAULT_MAX_MESSAGES_PER_SECOND = 5;
+const DEFAULT_MAX_URL_STREAMS = 100;
+
+/** 标签页隐藏后挂起连接的默认延迟 */
+const DEFAULT_SUSPEND_DELAY = 60_000;
+
+/** WebSocket.readyState 取值（不依赖全局 WebSocket，注入的替身同样适用） */
+const SOCKET_CONNECTING = 0;
+const SOCKET_OPEN = 1;
+
+/** 默认使用浏览器 WebSocket */
+const createBrowserWebSocket: WebSocketFactory = (url) => new WebSocket(url);
+
+/**
+ * WebSocketManager 配置
+ */
+export interface WebSocketManagerOptions {
+  /** 创建连接的工厂（默认浏览器 WebSocket），用于接入模拟服务或测试替身 */
+  webSocketFactory?: WebSocketFactory;
+}
+
+type StreamCallback = (data: unknown) => void;
+
+/**
+ * 组合流控制请求
+ */
+interface StreamRequest {
+  method: 'SUBSCRIBE' | 'UNSUBSCRIBE';
+  params: string[];
+}
+
+/**
+ * 组合流连接：多个数据流共用一个物理连接
+ *
+ * streams 是期望订阅的数据流，active 是服务端已订阅（或订阅请求已发出）的数据流，
+ * 两者的差异通过 SUBSCRIBE / UNSUBSCRIBE 按频率限制逐步同步
+ */
+interface CombinedConnection {
+  /** 连接键（subscriptions / connections 中使用） */
+  key: string;
+  /** 组合流地址（不含 streams 参数） */
+  baseUrl: string;
+  /** 数据流 -> 回调 */
+  streams: Map<string, Set<StreamCallback>>;
+  /** 服务端已订阅的数据流 */
+  active: Set<string>;
+  /** 等待响应的控制请求 */
+  pending: Map<number | string, StreamRequest>;
+  maxStreams: number;
+  maxUrlStreams: number;
+  /** 两条控制消息之间的最小间隔（毫秒） */
+  messageInterval: number;
+  lastSentAt: number;
+  syncTimer: NodeJS.Timeout | null;
+}
+
+/**
+ * 浏览器是否处于离线状态（非浏览器环境视为在线）
+ */
+function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+/**
+ * 连接关闭原因（originalError 为关闭前 onerror 收到的错误）
+ *
+ * 4400 ~ 4599 为应用自定义关闭码（4000 + HTTP 状态码，例如 SSE 中继拒绝请求），按 HTTP 错误处理，不再重连
+ */
+function closeReason(event: CloseEvent, originalError?: unknown): DataSourceError {
+  if (event.code >= 4400 && event.code < 4600) {
+    return new DataSourceError(event.reason || `Connection rejected (code ${event.code})`, 'HTTP_ERROR', {
+      status: event.code - 4000,
+      originalError,
+    });
+  }
+  return new DataSourceError(`Connection closed (code ${event.code})`, 'CONNECTION_CLOSED', {
+    originalError,
+  });
+}
+
+/**
+ * 是否为组合流推送（`{ stream, data }`）
+ */
+function isStreamEnvelope(message: unknown): message is { stream: string; data: unknown } {
+  return (
+    typeof message === 'object' &&
+    message !== null &&
+    typeof (message as { stream?: unknown }).stream === 'string' &&
+    'data' in message
+  );
+}
+
 /**
  * WebSocket 连接管理器（单例模式）
  *
  * 功能特性：
  * - 连接复用：同一 URL 只创建一个 WebSocket 实例
- * - 自动重连：连接断开后自动尝试重连（指数退避策略）
+ * - 自动重连：连接断开后按 RetryPolicy 重连（指数退避 + 抖动）
+ * - 网络感知：离线时暂停重连，恢复联网或回到前台时重连已失败的订阅；可选在后台标签页挂起连接
  * - 心跳检测：空闲超时检测，发现假连接后主动断开触发重连
  * - 订阅管理：支持多个组件订阅同一个连接
- * - 状态追踪：实时追踪每个连接的状态
+ * - 组合流：多个数据流共用一个连接（`/stream?streams=`），运行时通过 SUBSCRIBE / UNSUBSCRIBE 增减，
+ *   遵守单连接数据流上限和消息频率限制，重连后自动恢复全部订阅
+ * - 指标统计：按数据流记录消息速率、字节数、事件延迟、解析/回调错误，按连接记录重连次数和在线时长
+ * - 状态追踪：每次状态变化发出 connectionStateChange 事件，并提供兼容 useSyncExternalStore 的快照
  * - 资源清理：组件卸载时自动清理无用连接
  */
-export class WebSocketManager {
+export class WebSocketManager implements WebSocketTransport {
   // 单例实例
   private static instance: WebSocketManager;
   // WebSocket 连接池
-  private connections = new Map<string, WebSocket>();
+  private connections = new Map<string, WebSocketLike>();
   // 订阅者管理
   private subscriptions = new Map<string, WebSocketSubscription>();
   // 重连定时器
@@ -28,8 +143,39 @@ export class WebSocketManager {
   private lastMessageTimes = new Map<string, number>();
   // 心跳检测定时器
   private heartbeatTimers = new Map<string, NodeJS.Timeout>();
+  // 重连策略
+  private retryPolicy: RetryPolicy = WEBSOCKET_RETRY_POLICY;
+  // 组合流连接池：组合流地址 -> 连接列表
+  private combinedPools = new Map<string, CombinedConnection[]>();
+  private nextConnectionId = 1;
+  private nextRequestId = 1;
+  // 连接状态：连接键 -> 最新状态
+  private statuses = new Map<string, ConnectionStatus>();
+  // 状态快照（变化时重建，保证引用稳定）
+  private statusSnapshot: readonly ConnectionStatus[] = [];
+  private statusListeners = new Set<() => void>();
+  // 后台标签页策略
+  private backgroundPolicy: BackgroundPolicy = { suspendWhenHidden: false };
+  // 因标签页隐藏而挂起的订阅
+  private suspended = new Set<string>();
+  private suspendTimer: NodeJS.Timeout | null = null;
+  // 数据流指标
+  private metrics = new StreamMetricsRecorder();
+  // 连接工厂
+  private webSocketFactory: WebSocketFactory;
 
-  private constructor() {}
+  /**
+   * 一般通过 getInstance 使用单例；需要隔离的连接（例如注入连接工厂的数据源）可单独创建
+   */
+  constructor(options: WebSocketManagerOptions = {}) {
+    this.webSocketFactory = options.webSocketFactory ?? createBrowserWebSocket;
+
+    // 仅在浏览器中监听网络和可见性变化
+    if (typeof window === 'undefined') return;
+    window.addEventListener('online', () => this.handleOnline());
+    window.addEventListener('offline', () => this.handleOffline());
+    document.addEventListener('visibilitychange', () => this.handleVisibilityChange());
+  }
 
   /**
    * 获取单例实例
@@ -41,22 +187,97 @@ export class WebSocketManager {
     return WebSocketManager.instance;
   }
 
+  /**
+   * 设置连接工厂（影响之后建立的连接，已建立的连接不受影响）
+   *
+   * @example
+   * ```ts
+   * WebSocketManager.getInstance().setWebSocketFactory((url) => new MockSocket(url));
+   * ```
+   */
+  setWebSocketFactory(factory: WebSocketFactory): void {
+    this.webSocketFactory = factory;
+  }
+
+  /**
+   * 设置重连策略（影响之后创建的订阅和之后的重连）
+   */
+  setRetryPolicy(policy: RetryPolicy): void {
+    this.retryPolicy = policy;
+  }
+
+  /**
+   * 设置后台标签页策略
+   *
+   * @example
+   * ```ts
+   * // 标签页隐藏 5 分钟后断开，回到前台时自动恢复（漏掉的 K 线由缺口补齐）
+   * WebSocketManager.getInstance().setBackgroundPolicy({ suspendWhenHidden: true, suspendDelay: 300_000 });
+   * ```
+   */
+  setBackgroundPolicy(policy: BackgroundPolicy): void {
+    this.backgroundPolicy = policy;
+    if (!policy.suspendWhenHidden) {
+      this.resumeSuspended();
+    }
+  }
+
+  /**
+   * 立即重连指定订阅（重置重连次数，适用于已 FAILED 的订阅）
+   *
+   * @returns 订阅不存在时返回 false
+   */
+  reconnect(key: string): boolean {
+    const subscription = this.subscriptions.get(key);
+    if (!subscription) return false;
+
+    console.log(`[WebSocketManager] Reconnecting: ${key}`);
+    this.dropSocket(key);
+    this.suspended.delete(key);
+    subscription.reconnectAttempts = 0;
+    this.connect(key);
+    return true;
+  }
+
+  /**
+   * 重连所有未连通的订阅（FAILED、DISCONNECTED、RECONNECTING），挂起的订阅除外
+   *
+   * @param options.includeConnected 同时重连已连通的订阅
+   * @param options.onlyFailed 只重连已 FAILED 的订阅
+   * @returns 重连的订阅数量
+   */
+  reconnectAll(options: { includeConnected?: boolean; onlyFailed?: boolean } = {}): number {
+    let count = 0;
+    for (const [key, subscription] of [...this.subscriptions]) {
+      if (this.suspended.has(key)) continue;
+      if (options.onlyFailed && subscription.state !== WebSocketState.FAILED) continue;
+      const active =
+        subscription.state === WebSocketState.CONNECTED ||
+        subscription.state === WebSocketState.CONNECTING;
+      if (active && !options.includeConnected) continue;
+      if (this.reconnect(key)) count++;
+    }
+    return count;
+  }
+
   /**
    * 订阅 WebSocket 数据流
    *
    * @param key 订阅唯一标识（用于区分不同的数据流）
    * @param url WebSocket 连接地址
    * @param callback 数据回调函数
-   * @param maxReconnectAttempts 最大重连次数（默认 5）
+   * @param maxReconnectAttempts 最大重连次数（默认取 RetryPolicy.maxAttempts）
    * @param heartbeat 心跳检测配置（可选）
+   * @param subscribeMessage 连接建立后发送的订阅消息（可选）
    * @returns unsubscribe 取消订阅函数
    */
   subscribe(
     key: string,
     url: string,
     callback: (data: any) => void,
-    maxReconnectAttempts = 5,
-    heartbeat?: HeartbeatOptions
+    maxReconnectAttempts?: number,
+    heartbeat?: HeartbeatOptions,
+    subscribeMessage?: unknown
   ): () => void {
     // 如果订阅已存在，直接添加回调
     if (this.subscriptions.has(key)) {
@@ -71,8 +292,9 @@ export class WebSocketManager {
         callbacks: new Set([callback]),
         state: WebSocketState.CONNECTING,
         reconnectAttempts: 0,
-        maxReconnectAttempts,
+        maxReconnectAttempts: maxReconnectAttempts ?? this.retryPolicy.maxAttempts,
         heartbeat,
+        subscribeMessage,
       };
       this.subscriptions.set(key, subscription);
       this.connect(key);
@@ -101,6 +323,281 @@ export class WebSocketManager {
     }
   }
 
+  /**
+   * 订阅组合流中的单个数据流（多个数据流共用连接）
+   *
+   * 回调收到的是拆包后的 `data`；同一数据流的多个订阅者共享一次服务端订阅。
+   * 连接已满（maxStreamsPerConnection）时自动新建连接。
+   *
+   * @param baseUrl 组合流地址（不含 streams 参数），例如 `wss://stream.binance.com:9443/stream`
+   * @param stream 数据流名称，例如 `btcusdt@trade`
+   * @param callback 数据回调函数
+   * @param options 连接配置（仅在新建连接时生效）
+   * @returns unsubscribe 取消订阅函数
+   *
+   * @example
+   * ```ts
+   * const unsubscribe = WebSocketManager.getInstance().subscribeStream(
+   *   binanceCombinedStreamUrl(),
+   *   'btcusdt@trade',
+   *   (data) => console.log(data)
+   * );
+   * ```
+   */
+  subscribeStream(
+    baseUrl: string,
+    stream: string,
+    callback: StreamCallback,
+    options: CombinedStreamOptions = {}
+  ): () => void {
+    const pool = this.combinedPools.get(baseUrl) ?? [];
+    this.combinedPools.set(baseUrl, pool);
+
+    const existing = pool.find((connection) => connection.streams.has(stream));
+    if (existing) {
+      existing.streams.get(stream)!.add(callback);
+      console.log(`[WebSocketManager] Added callback to existing stream: ${stream}`);
+      return () => this.unsubscribeStream(existing, stream, callback);
+    }
+
+    let connection = pool.find((item) => item.streams.size < item.maxStreams);
+    if (!connection) {
+      connection = this.createCombinedConnection(baseUrl, options);
+      pool.push(connection);
+    }
+    connection.streams.set(stream, new Set([callback]));
+    console.log(`[WebSocketManager] Added stream ${stream} to ${connection.key}`);
+
+    if (this.subscriptions.has(connection.key)) {
+      this.refreshStatusStreams(connection.key);
+      this.scheduleStreamSync(connection);
+    } else {
+      this.openCombinedConnection(connection, options.heartbeat);
+    }
+
+    const target = connection;
+    return () => this.unsubscribeStream(target, stream, callback);
+  }
+
+  /**
+   * 获取数据流所在连接的状态
+   */
+  getStreamState(baseUrl: string, stream: string): WebSocketState | undefined {
+    const connection = this.combinedPools
+      .get(baseUrl)
+      ?.find((item) => item.streams.has(stream));
+    return connection ? this.getState(connection.key) : undefined;
+  }
+
+  private createCombinedConnection(
+    baseUrl: string,
+    options: CombinedStreamOptions
+  ): CombinedConnection {
+    const maxMessagesPerSecond = options.maxMessagesPerSecond ?? DEFAULT_MAX_MESSAGES_PER_SECOND;
+    return {
+      key: `combined:${baseUrl}#${this.nextConnectionId++}`,
+      baseUrl,
+      streams: new Map(),
+      active: new Set(),
+      pending: new Map(),
+      maxStreams: options.maxStreamsPerConnection ?? DEFAULT_MAX_STREAMS_PER_CONNECTION,
+      maxUrlStreams: options.maxUrlStreams ?? DEFAULT_MAX_URL_STREAMS,
+      messageInterval: Math.ceil(1000 / maxMessagesPerSecond),
+      lastSentAt: 0,
+      syncTimer: null,
+    };
+  }
+
+  /**
+   * 将组合流连接注册为普通订阅，复用重连和心跳逻辑
+   */
+  private openCombinedConnection(
+    connection: CombinedConnection,
+    heartbeat?: HeartbeatOptions
+  ): void {
+    const subscription: WebSocketSubscription = {
+      key: connection.key,
+      url: connection.baseUrl,
+      callbacks: new Set(),
+      state: WebSocketState.CONNECTING,
+      reconnectAttempts: 0,
+      maxReconnectAttempts: this.retryPolicy.maxAttempts,
+      heartbeat,
+      resolveUrl: () => this.resolveCombinedUrl(connection),
+      onOpen: () => this.scheduleStreamSync(connection),
+      route: (message, bytes) => this.routeStreamMessage(connection, message, bytes),
+    };
+    this.subscriptions.set(connection.key, subscription);
+    this.connect(connection.key);
+    console.log(`[WebSocketManager] Created combined connection: ${connection.key}`);
+  }
+
+  /**
+   * 按当前订阅拼接连接地址（每次连接和重连时调用）
+   *
+   * 地址中最多携带 maxUrlStreams 个数据流，其余在连接建立后通过 SUBSCRIBE 补发
+   */
+  private resolveCombinedUrl(connection: CombinedConnection): string {
+    const streams = [...connection.streams.keys()].slice(0, connection.maxUrlStreams);
+    connection.active = new Set(streams);
+    connection.pending.clear();
+    return `${connection.baseUrl}?streams=${streams.join('/')}`;
+  }
+
+  /**
+   * 安排一次订阅同步（相邻控制消息至少间隔 messageInterval）
+   */
+  private scheduleStreamSync(connection: CombinedConnection): void {
+    if (connection.syncTimer) return;
+
+    const delay = Math.max(0, connection.lastSentAt + connection.messageInterval - Date.now());
+    connection.syncTimer = setTimeout(() => {
+      connection.syncTimer = null;
+      this.syncStreams(connection);
+    }, delay);
+  }
+
+  /**
+   * 发送一条 SUBSCRIBE 或 UNSUBSCRIBE，使服务端订阅与期望订阅一致
+   *
+   * 先退订再订阅，避免临时超出单连接数据流上限；仍有差异时安排下一次同步
+   */
+  private syncStreams(connection: CombinedConnection): void {
+    const ws = this.connections.get(connection.key);
+    // 未连接时由 onOpen 触发同步
+    if (!ws || ws.readyState !== SOCKET_OPEN) return;
+
+    const toUnsubscribe = [...connection.active].filter((stream) => !connection.streams.has(stream));
+    const toSubscribe = [...connection.streams.keys()].filter(
+      (stream) => !connection.active.has(stream)
+    );
+
+    const request: StreamRequest | null =
+      toUnsubscribe.length > 0
+        ? { method: 'UNSUBSCRIBE', params: toUnsubscribe }
+        : toSubscribe.length > 0
+          ? { method: 'SUBSCRIBE', params: toSubscribe }
+          : null;
+    if (!request) return;
+
+    const id = this.nextRequestId++;
+    ws.send(JSON.stringify({ ...request, id }));
+    connection.pending.set(id, request);
+    connection.lastSentAt = Date.now();
+
+    for (const stream of request.params) {
+      if (request.method === 'SUBSCRIBE') {
+        connection.active.add(stream);
+      } else {
+        connection.active.delete(stream);
+      }
+    }
+    console.log(
+      `[WebSocketManager] ${request.method} ${request.params.length} stream(s) on ${connection.key} (id ${id})`
+    );
+
+    if (toUnsubscribe.length > 0 && toSubscribe.length > 0) {
+      this.scheduleStreamSync(connection);
+    }
+  }
+
+  /**
+   * 分发组合流消息：推送按 stream 路由给对应回调，控制响应用于确认订阅
+   */
+  private routeStreamMessage(
+    connection: CombinedConnection,
+    message: unknown,
+    bytes: number
+  ): void {
+    if (isStreamEnvelope(message)) {
+      const callbacks = connection.streams.get(message.stream);
+      if (!callbacks) return;
+      this.metrics.recordMessage(connection.key, message.stream, bytes, message.data);
+      callbacks.forEach((callback) => {
+        try {
+          callback(message.data);
+        } catch (error) {
+          this.metrics.recordCallbackError(connection.key, message.stream);
+          console.error(`[WebSocketManager] Callback error for ${message.stream}:`, error);
+        }
+      });
+      return;
+    }
+
+    const errorFrame = s.check(errorFrameSchema, message);
+    if (errorFrame.ok) {
+      const { id, error } = errorFrame.value;
+      const request = id != null ? connection.pending.get(id) : undefined;
+      if (id != null) connection.pending.delete(id);
+      // 订阅失败的数据流不算已订阅，下次同步时重新尝试
+      if (request?.method === 'SUBSCRIBE') {
+        request.params.forEach((stream) => connection.active.delete(stream));
+      }
+      MessageQuarantine.getInstance().report({
+        reason: 'error-frame',
+        source: 'WebSocketManager',
+        stream: request ? `${request.method} ${request.params.join(',')}` : connection.key,
+        message: `Binance error ${error.code}: ${error.msg}`,
+        payload: message,
+      });
+      return;
+    }
+
+    const ack = s.check(subscriptionAckSchema, message);
+    if (ack.ok) {
+      connection.pending.delete(ack.value.id);
+      return;
+    }
+
+    MessageQuarantine.getInstance().report({
+      reason: 'malformed',
+      source: 'WebSocketManager',
+      stream: connection.key,
+      message: 'expected combined stream envelope or subscription response',
+      payload: message,
+    });
+  }
+
+  /**
+   * 取消组合流订阅，最后一个数据流退订后关闭连接
+   */
+  private unsubscribeStream(
+    connection: CombinedConnection,
+    stream: string,
+    callback: StreamCallback
+  ): void {
+    const callbacks = connection.streams.get(stream);
+    if (!callbacks) return;
+
+    callbacks.delete(callback);
+    if (callbacks.size > 0) return;
+
+    connection.streams.delete(stream);
+    this.metrics.removeStream(connection.key, stream);
+    console.log(`[WebSocketManager] Removed stream ${stream} from ${connection.key}`);
+
+    if (connection.streams.size > 0) {
+      this.refreshStatusStreams(connection.key);
+      this.scheduleStreamSync(connection);
+      return;
+    }
+
+    if (connection.syncTimer) {
+      clearTimeout(connection.syncTimer);
+      connection.syncTimer = null;
+    }
+    this.closeConnection(connection.key);
+    const pool = this.combinedPools.get(connection.baseUrl);
+    if (pool) {
+      const remaining = pool.filter((item) => item !== connection);
+      if (remaining.length > 0) {
+        this.combinedPools.set(connection.baseUrl, remaining);
+      } else {
+        this.combinedPools.delete(connection.baseUrl);
+      }
+    }
+  }
+
   /**
    * 建立 WebSocket 连接
    */
@@ -109,14 +606,19 @@ export class WebSocketManager {
     if (!subscription) return;
 
     try {
-      const ws = new WebSocket(subscription.url);
+      const ws = this.webSocketFactory(subscription.resolveUrl?.() ?? subscription.url);
       this.connections.set(key, ws);
-      subscription.state = WebSocketState.CONNECTING;
+      this.transition(subscription, WebSocketState.CONNECTING);
 
       ws.onopen = () => {
         console.log(`[WebSocketManager] Connected: ${key}`);
-        subscription.state = WebSocketState.CONNECTED;
         subscription.reconnectAttempts = 0; // 重置重连计数
+        this.transition(subscription, WebSocketState.CONNECTED);
+        // 需要显式订阅的交易所：每次连接（含重连）后重新发送订阅消息
+        if (subscription.subscribeMessage !== undefined) {
+          ws.send(JSON.stringify(subscription.subscribeMessage));
+        }
+        subscription.onOpen?.();
         // 启动心跳检测
         this.startHeartbeat(key);
       };
@@ -125,41 +627,70 @@ export class WebSocketManager {
         // 收到任意消息即刷新心跳时间戳
         this.lastMessageTimes.set(key, Date.now());
 
+        // 应用层 pong 只用于保活，不分发给订阅者
+        if (subscription.heartbeat?.pongMessage && event.data === subscription.heartbeat.pongMessage) {
+          return;
+        }
+
+        const bytes = typeof event.data === 'string' ? event.data.length : 0;
+        let data: unknown;
         try {
-          const data = JSON.parse(event.data);
-          // 将数据分发给所有订阅者
-          subscription.callbacks.forEach((callback) => {
-            try {
-              callback(data);
-            } catch (error) {
-              console.error(`[WebSocketManager] Callback error for ${key}:`, error);
-            }
-          });
+          data = JSON.parse(event.data);
         } catch (error) {
-          console.error(`[WebSocketManager] Parse error for ${key}:`, error);
+          MessageQuarantine.getInstance().report({
+            reason: 'invalid-json',
+            source: 'WebSocketManager',
+            stream: key,
+            message: error instanceof Error ? error.message : 'Invalid JSON',
+            payload: event.data,
+          });
+          return;
+        }
+
+        if (subscription.route) {
+          subscription.route(data, bytes);
+          return;
         }
+
+        // 将数据分发给所有订阅者
+        this.metrics.recordMessage(key, key, bytes, data);
+        subscription.callbacks.forEach((callback) => {
+          try {
+            callback(data);
+          } catch (error) {
+            this.metrics.recordCallbackError(key, key);
+            console.error(`[WebSocketManager] Callback error for ${key}:`, error);
+          }
+        });
       };
 
+      // error 之后总会触发 close：状态在 onclose 中决定（重连或重连次数用尽时才 FAILED），
+      // 这里只记录原始错误，避免普通断线重连时状态先闪成 FAILED
+      let socketError: unknown;
       ws.onerror = (error) => {
         console.error(`[WebSocketManager] Error for ${key}:`, error);
-        subscription.state = WebSocketState.FAILED;
+        socketError = error;
       };
 
       ws.onclose = (event) => {
         console.log(`[WebSocketManager] Closed: ${key}, code: ${event.code}`);
-        subscription.state = WebSocketState.DISCONNECTED;
+        const reason = closeReason(event, socketError);
+        this.transition(subscription, WebSocketState.DISCONNECTED, { error: reason });
         this.connections.delete(key);
         this.stopHeartbeat(key);
 
         // 如果还有订阅者，尝试重连
-        if (subscription.callbacks.size > 0) {
-          this.scheduleReconnect(key);
+        if (subscription.callbacks.size > 0 || subscription.route) {
+          this.scheduleReconnect(key, reason);
         }
       };
     } catch (error) {
       console.error(`[WebSocketManager] Connection error for ${key}:`, error);
-      subscription.state = WebSocketState.FAILED;
-      this.scheduleReconnect(key);
+      const reason = new DataSourceError('Failed to open connection', 'NETWORK_ERROR', {
+        originalError: error,
+      });
+      // 由 scheduleReconnect 决定进入 RECONNECTING 还是 FAILED
+      this.scheduleReconnect(key, reason);
     }
   }
 
@@ -179,7 +710,7 @@ export class WebSocketManager {
 
     const check = (): void => {
       const ws = this.connections.get(key);
-      if (!ws || ws.readyState !== WebSocket.OPEN) return;
+      if (!ws || ws.readyState !== SOCKET_OPEN) return;
 
       const lastTime = this.lastMessageTimes.get(key) ?? 0;
       const elapsed = Date.now() - lastTime;
@@ -188,11 +719,18 @@ export class WebSocketManager {
         console.warn(
           `[WebSocketManager] Heartbeat timeout for ${key} (${elapsed}ms), closing connection`
         );
-        this.stopHeartbeat(key);
-        ws.close(4000, 'Heartbeat timeout');
+        // 对端无响应时关闭握手无法完成，onclose 可能迟迟不触发：直接丢弃连接并安排重连
+        const reason = new DataSourceError(`Heartbeat timeout (${elapsed}ms)`, 'TIMEOUT');
+        this.dropSocket(key);
+        this.transition(subscription, WebSocketState.DISCONNECTED, { error: reason });
+        this.scheduleReconnect(key, reason);
         return;
       }
 
+      if (subscription.heartbeat?.pingMessage) {
+        ws.send(subscription.heartbeat.pingMessage);
+      }
+
       const timer = setTimeout(check, interval);
       this.heartbeatTimers.set(key, timer);
     };
@@ -214,18 +752,35 @@ export class WebSocketManager {
   }
 
   /**
-   * 安排重连（指数退避策略）
+   * 安排重连（退避时间由 RetryPolicy 决定）
    */
-  private scheduleReconnect(key: string): void {
+  private scheduleReconnect(key: string, reason: DataSourceError): void {
     const subscription = this.subscriptions.get(key);
     if (!subscription) return;
 
+    // 离线时不消耗重连次数，恢复联网后由 handleOnline 统一重连
+    if (isOffline()) {
+      console.log(`[WebSocketManager] Offline, pausing reconnect for ${key}`);
+      this.transition(subscription, WebSocketState.RECONNECTING, {
+        error: reason,
+        reason: 'Offline, waiting for network',
+        paused: true,
+      });
+      return;
+    }
+
+    if (!this.retryPolicy.isRetryable(reason)) {
+      console.error(`[WebSocketManager] ${reason.code} is not retryable for ${key}, giving up`);
+      this.transition(subscription, WebSocketState.FAILED, { error: reason });
+      return;
+    }
+
     // 检查是否超过最大重连次数
     if (subscription.reconnectAttempts >= subscription.maxReconnectAttempts) {
       console.error(
         `[WebSocketManager] Max reconnect attempts reached for ${key}, giving up`
       );
-      subscription.state = WebSocketState.FAILED;
+      this.transition(subscription, WebSocketState.FAILED, { error: reason });
       return;
     }
 
@@ -236,11 +791,13 @@ export class WebSocketManager {
     }
 
     subscription.reconnectAttempts++;
-    subscription.state = WebSocketState.RECONNECTING;
 
-    // 指数退避：1s, 2s, 4s, 8s, 16s
-    // 作用：避免频繁重连导致服务器压力
-    const delay = Math.min(1000 * Math.pow(2, subscription.reconnectAttempts - 1), 16000);
+    // 默认策略：1s, 2s, 4s, 8s, 16s（±20% 抖动），避免频繁重连导致服务器压力
+    const delay = this.retryPolicy.getDelay(subscription.reconnectAttempts, reason);
+    this.transition(subscription, WebSocketState.RECONNECTING, {
+      error: reason,
+      nextRetryAt: Date.now() + delay,
+    });
     console.log(
       `[WebSocketManager] Scheduling reconnect for ${key} in ${delay}ms (attempt ${subscription.reconnectAttempts}/${subscription.maxReconnectAttempts})`
     );
@@ -258,14 +815,23 @@ export class WebSocketManager {
    */
   private closeConnection(key: string): void {
     const ws = this.connections.get(key);
-    if (ws && ws.readyState === WebSocket.OPEN) {
+    // 连接中的 socket 也要关闭，否则建立后会一直占用连接
+    if (ws && (ws.readyState === SOCKET_OPEN || ws.readyState === SOCKET_CONNECTING)) {
       ws.close();
     }
 
+    const subscription = this.subscriptions.get(key);
+    if (subscription) {
+      this.transition(subscription, WebSocketState.DISCONNECTED, { reason: 'Unsubscribed' });
+    }
+
     // 清理资源
     this.connections.delete(key);
     this.subscriptions.delete(key);
+    this.suspended.delete(key);
     this.stopHeartbeat(key);
+    this.metrics.removeConnection(key);
+    if (this.statuses.delete(key)) this.publishStatuses();
 
     const timer = this.reconnectTimers.get(key);
     if (timer) {
@@ -276,6 +842,99 @@ export class WebSocketManager {
     console.log(`[WebSocketManager] Closed and cleaned up: ${key}`);
   }
 
+  /**
+   * 关闭当前 socket 但保留订阅（解绑事件，旧 socket 关闭时不会触发重连）
+   */
+  private dropSocket(key: string): void {
+    const timer = this.reconnectTimers.get(key);
+    if (timer) {
+      clearTimeout(timer);
+      this.reconnectTimers.delete(key);
+    }
+    this.stopHeartbeat(key);
+
+    const ws = this.connections.get(key);
+    if (!ws) return;
+    ws.onopen = null;
+    ws.onmessage = null;
+    ws.onerror = null;
+    ws.onclose = null;
+    if (ws.readyState === SOCKET_OPEN || ws.readyState === SOCKET_CONNECTING) {
+      ws.close();
+    }
+    this.connections.delete(key);
+  }
+
+  /**
+   * 离线：取消等待中的重连，避免断网期间耗尽重连次数
+   */
+  private handleOffline(): void {
+    console.log('[WebSocketManager] Network offline, pausing reconnects');
+    for (const [key, timer] of [...this.reconnectTimers]) {
+      clearTimeout(timer);
+      this.reconnectTimers.delete(key);
+      const subscription = this.subscriptions.get(key);
+      if (subscription) {
+        this.transition(subscription, WebSocketState.RECONNECTING, {
+          reason: 'Offline, waiting for network',
+          paused: true,
+        });
+      }
+    }
+  }
+
+  /**
+   * 恢复联网：立即重连所有未连通的订阅（含已 FAILED 的）
+   */
+  private handleOnline(): void {
+    const count = this.reconnectAll();
+    console.log(`[WebSocketManager] Network online, reconnecting ${count} subscription(s)`);
+  }
+
+  /**
+   * 标签页隐藏：按策略延迟挂起；回到前台：恢复挂起的连接并重试已失败的订阅
+   */
+  private handleVisibilityChange(): void {
+    if (document.visibilityState === 'hidden') {
+      if (!this.backgroundPolicy.suspendWhenHidden || this.suspendTimer) return;
+      this.suspendTimer = setTimeout(() => {
+        this.suspendTimer = null;
+        this.suspendAll();
+      }, this.backgroundPolicy.suspendDelay ?? DEFAULT_SUSPEND_DELAY);
+      return;
+    }
+
+    if (this.suspendTimer) {
+      clearTimeout(this.suspendTimer);
+      this.suspendTimer = null;
+    }
+    this.resumeSuspended();
+    if (!isOffline()) {
+      this.reconnectAll({ onlyFailed: true });
+    }
+  }
+
+  /**
+   * 挂起所有订阅：断开连接但保留回调
+   */
+  private suspendAll(): void {
+    console.log(`[WebSocketManager] Tab hidden, suspending ${this.subscriptions.size} subscription(s)`);
+    for (const [key, subscription] of [...this.subscriptions]) {
+      this.dropSocket(key);
+      this.suspended.add(key);
+      this.transition(subscription, WebSocketState.DISCONNECTED, {
+        reason: 'Suspended while tab is hidden',
+        paused: true,
+      });
+    }
+  }
+
+  private resumeSuspended(): void {
+    const keys = [...this.suspended];
+    this.suspended.clear();
+    keys.forEach((key) => this.reconnect(key));
+  }
+
   /**
    * 获取订阅状态
    */
@@ -283,6 +942,110 @@ export class WebSocketManager {
     return this.subscriptions.get(key)?.state;
   }
 
+  /**
+   * 获取全部连接的状态快照（状态不变时返回同一个数组）
+   */
+  getStatusSnapshot(): readonly ConnectionStatus[] {
+    return this.statusSnapshot;
+  }
+
+  /**
+   * 监听连接状态变化（兼容 useSyncExternalStore）
+   *
+   * 需要变化前后的状态、原因等细节时，监听 klineEvents 的 connectionStateChange 事件
+   *
+   * @returns 取消监听函数
+   */
+  subscribeStatus(listener: () => void): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  /**
+   * 获取所有连接和数据流的指标快照（每次调用重新计算，适合定时轮询）
+   *
+   * @example
+   * ```ts
+   * const [connection] = WebSocketManager.getInstance().getMetrics();
+   * connection.streams.forEach((s) => console.log(s.stream, s.messagesPerSecond, s.latency.avg));
+   * ```
+   */
+  getMetrics(): ConnectionMetrics[] {
+    return this.metrics.getSnapshot();
+  }
+
+  /**
+   * 清空指标计数
+   */
+  resetMetrics(): void {
+    this.metrics.reset();
+  }
+
+  /**
+   * 切换连接状态：更新状态快照并发出 connectionStateChange 事件
+   */
+  private transition(
+    subscription: WebSocketSubscription,
+    state: WebSocketState,
+    details: { error?: DataSourceError; reason?: string; nextRetryAt?: number; paused?: boolean } = {}
+  ): void {
+    subscription.state = state;
+    // 已被清理的旧连接（关闭后才触发 onclose）不再上报
+    if (this.subscriptions.get(subscription.key) !== subscription) return;
+
+    const previous = this.statuses.get(subscription.key);
+    const status: ConnectionStatus = {
+      key: subscription.key,
+      url: this.findCombinedConnection(subscription.key)?.baseUrl ?? subscription.url,
+      streams: this.getConnectionStreams(subscription.key),
+      state,
+      reason: details.reason ?? details.error?.message,
+      error: details.error,
+      attempt: subscription.reconnectAttempts,
+      maxAttempts: subscription.maxReconnectAttempts,
+      nextRetryAt: details.nextRetryAt ?? null,
+      paused: details.paused ?? false,
+      updatedAt: Date.now(),
+    };
+    this.statuses.set(subscription.key, status);
+    this.metrics.recordTransition(subscription.key, state, status.reason);
+    this.metrics.addStreams(subscription.key, status.streams);
+    this.publishStatuses();
+    klineEvents.emit('connectionStateChange', { ...status, previousState: previous?.state });
+  }
+
+  /**
+   * 组合流增减数据流后刷新状态快照中的数据流列表（状态本身不变，不发事件）
+   */
+  private refreshStatusStreams(key: string): void {
+    const status = this.statuses.get(key);
+    if (!status) return;
+    const streams = this.getConnectionStreams(key);
+    this.statuses.set(key, { ...status, streams });
+    this.metrics.addStreams(key, streams);
+    this.publishStatuses();
+  }
+
+  private publishStatuses(): void {
+    this.statusSnapshot = [...this.statuses.values()];
+    this.statusListeners.forEach((listener) => listener());
+  }
+
+  private findCombinedConnection(key: string): CombinedConnection | undefined {
+    for (const pool of this.combinedPools.values()) {
+      const connection = pool.find((item) => item.key === key);
+      if (connection) return connection;
+    }
+    return undefined;
+  }
+
+  private getConnectionStreams(key: string): string[] {
+    const connection = this.findCombinedConnection(key);
+    return connection ? [...connection.streams.keys()] : [key];
+  }
+
   /**
    * 销毁所有连接（用于应用卸载时清理）
    */
@@ -291,7 +1054,7 @@ export class WebSocketManager {
 
     // 关闭所有连接
     this.connections.forEach((ws) => {
-      if (ws.readyState === WebSocket.OPEN) {
+      if (ws.readyState === SOCKET_OPEN) {
         ws.close();
       }
     });
@@ -299,6 +1062,15 @@ export class WebSocketManager {
     // 清理所有定时器
     this.reconnectTimers.forEach((timer) => clearTimeout(timer));
     this.heartbeatTimers.forEach((timer) => clearTimeout(timer));
+    if (this.suspendTimer) {
+      clearTimeout(this.suspendTimer);
+      this.suspendTimer = null;
+    }
+    this.combinedPools.forEach((pool) =>
+      pool.forEach((connection) => {
+        if (connection.syncTimer) clearTimeout(connection.syncTimer);
+      })
+    );
 
     // 清空所有 Map
     this.connections.clear();
@@ -306,5 +1078,10 @@ export class WebSocketManager {
     this.reconnectTimers.clear();
     this.heartbeatTimers.clear();
     this.lastMessageTimes.clear();
+    this.combinedPools.clear();
+    this.statuses.clear();
+    this.suspended.clear();
+    this.metrics.destroy();
+    this.publishStatuses();
   }
 }
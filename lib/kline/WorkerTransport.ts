@@ -0,0 +1,287 @@
+import { WebSocketState } from './types';
+import type {
+  CombinedStreamOptions,
+  ConnectionStatus,
+  HeartbeatOptions,
+  KlineCandle,
+  SubscribeOptions,
+} from './types';
+import type { ConnectionMetrics } from './streamMetrics';
+import type { WebSocketTransport } from './transport';
+import type {
+  KlineFeedRequest,
+  MarketDataFeed,
+  OrderBookFeedRequest,
+  TradeFeedRequest,
+} from './MarketDataFeed';
+import type { OrderBookSnapshot, TradeSnapshot } from './marketSnapshots';
+import { getBinanceEndpoints, subscribeBinanceEndpoints } from './endpoints';
+import { createDelivery, EVERY_DELIVERY, isSameCandle, type Delivery } from './delivery';
+import { TAB_PING_INTERVAL, type TabMessage, type WorkerMessage } from './workerProtocol';
+
+type SubscribeRequest = Extract<
+  TabMessage,
+  { type: 'subscribe' | 'subscribeStream' | 'subscribeOrderBook' | 'subscribeTrades' | 'subscribeKlines' }
+>;
+
+/** Worker 与 SharedWorker.port 的公共部分 */
+interface WorkerPort {
+  postMessage(message: unknown): void;
+  onmessage: ((event: MessageEvent) => void) | null;
+}
+
+/**
+ * Worker 传输层（WebSocket 连接和行情解析在 Worker 中完成）
+ *
+ * 物理连接、心跳、重连、消息解析、盘口维护和 K 线聚合都在 Worker 内完成，
+ * 主线程只接收可渲染的快照；订阅接口与 WebSocketManager 一致。
+ *
+ * 功能特性：
+ * - dedicated：每个标签页一个 Worker，主线程不再处理 JSON 解析和盘口排序
+ * - shared：同源的所有标签页共用一个 SharedWorker 和其中的连接，避免触发交易所的连接数限制
+ * - 标签页关闭（pagehide）或心跳超时后，worker 自动退订该标签页的数据流
+ * - 从往返缓存（bfcache）恢复的页面自动重新订阅（shared 模式下重新连接 SharedWorker）
+ * - Worker 逐条推送快照，投递策略（按帧节流等）在主线程执行
+ * - 连接状态实时同步；指标按需拉取（getMetrics 返回上一次拉取的结果）
+ * - Binance 接口地址变化时同步到 Worker（SharedWorker 中以最后一次设置为准）
+ *
+ * 通过 configureWebSocketTransport 或 NEXT_PUBLIC_WS_TRANSPORT 选择
+ */
+export class WorkerTransport implements WebSocketTransport, MarketDataFeed {
+  private port: WorkerPort;
+  private nextId = 1;
+  // 订阅 id -> 回调
+  private callbacks = new Map<number, (data: unknown) => void>();
+  // 订阅 id -> 订阅请求（页面从 bfcache 恢复后重新发送）
+  private requests = new Map<number, SubscribeRequest>();
+  private statuses: readonly ConnectionStatus[] = [];
+  private statusListeners = new Set<() => void>();
+  private metrics: ConnectionMetrics[] = [];
+
+  /**
+   * @param kind dedicated 使用当前标签页专属的 Worker，shared 使用同源共享的 SharedWorker
+   */
+  constructor(private readonly kind: 'dedicated' | 'shared') {
+    this.port = this.connect();
+
+    // Worker 中的数据源使用与页面相同的 Binance 接口地址
+    const syncEndpoints = () => this.post({ type: 'setBinanceEndpoints', endpoints: getBinanceEndpoints() });
+    syncEndpoints();
+    subscribeBinanceEndpoints(syncEndpoints);
+
+    setInterval(() => this.post({ type: 'ping' }), TAB_PING_INTERVAL);
+    window.addEventListener('pagehide', () => this.post({ type: 'close' }));
+    window.addEventListener('pageshow', (event) => {
+      if (!event.persisted) return;
+      // SharedWorker 收到 close 后已关闭该标签页的端口，需要重新连接
+      if (this.kind === 'shared') {
+        this.port.onmessage = null;
+        this.port = this.connect();
+        syncEndpoints();
+      }
+      this.requests.forEach((request) => this.post(request));
+    });
+    // 回到前台时重试已失败的连接（与页面内 WebSocketManager 的行为一致）
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'visible') {
+        this.post({ type: 'reconnectAll', onlyFailed: true });
+      }
+    });
+  }
+
+  subscribe(
+    key: string,
+    url: string,
+    callback: (data: unknown) => void,
+    maxReconnectAttempts?: number,
+    heartbeat?: HeartbeatOptions,
+    subscribeMessage?: unknown
+  ): () => void {
+    return this.addSubscription(callback, (id) => ({
+      type: 'subscribe',
+      id,
+      key,
+      url,
+      maxReconnectAttempts,
+      heartbeat,
+      subscribeMessage,
+    }));
+  }
+
+  subscribeStream(
+    baseUrl: string,
+    stream: string,
+    callback: (data: unknown) => void,
+    options?: CombinedStreamOptions
+  ): () => void {
+    return this.addSubscription(callback, (id) => ({
+      type: 'subscribeStream',
+      id,
+      baseUrl,
+      stream,
+      options,
+    }));
+  }
+
+  subscribeOrderBook(
+    request: OrderBookFeedRequest,
+    callback: (snapshot: OrderBookSnapshot) => void,
+    options: SubscribeOptions<OrderBookSnapshot> = {}
+  ): () => void {
+    return this.addFeedSubscription(
+      createDelivery(options.delivery ?? EVERY_DELIVERY, callback),
+      (id) => ({ type: 'subscribeOrderBook', id, request })
+    );
+  }
+
+  subscribeTrades(
+    request: TradeFeedRequest,
+    callback: (snapshot: TradeSnapshot) => void,
+    options: SubscribeOptions<TradeSnapshot> = {}
+  ): () => void {
+    return this.addFeedSubscription(
+      createDelivery(options.delivery ?? EVERY_DELIVERY, callback),
+      (id) => ({ type: 'subscribeTrades', id, request })
+    );
+  }
+
+  subscribeKlines(
+    request: KlineFeedRequest,
+    callback: (candle: KlineCandle) => void,
+    options: SubscribeOptions<KlineCandle> = {}
+  ): () => void {
+    return this.addFeedSubscription(
+      createDelivery(options.delivery ?? EVERY_DELIVERY, callback, isSameCandle),
+      (id) => ({ type: 'subscribeKlines', id, request })
+    );
+  }
+
+  getStatusSnapshot(): readonly ConnectionStatus[] {
+    return this.statuses;
+  }
+
+  subscribeStatus(listener: () => void): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  /**
+   * 返回上一次从 worker 拉取的指标，并异步拉取最新指标（适合定时轮询）
+   */
+  getMetrics(): ConnectionMetrics[] {
+    this.post({ type: 'getMetrics' });
+    return this.metrics;
+  }
+
+  resetMetrics(): void {
+    this.post({ type: 'resetMetrics' });
+  }
+
+  /**
+   * 请求 worker 重连；返回值按本地状态快照判断连接是否存在
+   */
+  reconnect(key: string): boolean {
+    this.post({ type: 'reconnect', key });
+    return this.statuses.some((status) => status.key === key);
+  }
+
+  /**
+   * 请求 worker 重连；返回值为本地状态快照中符合条件的连接数
+   */
+  reconnectAll(options: { includeConnected?: boolean; onlyFailed?: boolean } = {}): number {
+    this.post({ type: 'reconnectAll', ...options });
+    return this.statuses.filter((status) =>
+      options.onlyFailed
+        ? status.state === WebSocketState.FAILED
+        : options.includeConnected || status.state !== WebSocketState.CONNECTED
+    ).length;
+  }
+
+  /**
+   * 创建 Worker（shared 时连接到同源的 SharedWorker）并返回通信端口
+   */
+  private connect(): WorkerPort {
+    let port: WorkerPort;
+    if (this.kind === 'shared') {
+      const worker = new SharedWorker(new URL('./websocket.worker.ts', import.meta.url), {
+        type: 'module',
+        name: 'kline-websocket',
+      });
+      worker.onerror = (event) => {
+        console.error('[WorkerTransport] Worker error:', event);
+      };
+      worker.port.start();
+      port = worker.port;
+    } else {
+      const worker = new Worker(new URL('./websocket.worker.ts', import.meta.url), {
+        type: 'module',
+        name: 'kline-websocket',
+      });
+      worker.onerror = (event) => {
+        console.error('[WorkerTransport] Worker error:', event);
+      };
+      port = worker;
+    }
+    port.onmessage = (event: MessageEvent<WorkerMessage>) => this.handleMessage(event.data);
+    return port;
+  }
+
+  private addSubscription(
+    callback: (data: unknown) => void,
+    createRequest: (id: number) => SubscribeRequest
+  ): () => void {
+    const id = this.nextId++;
+    const request = createRequest(id);
+    this.callbacks.set(id, callback);
+    this.requests.set(id, request);
+    this.post(request);
+
+    return () => {
+      if (!this.callbacks.delete(id)) return;
+      this.requests.delete(id);
+      this.post({ type: 'unsubscribe', id });
+    };
+  }
+
+  /**
+   * 行情订阅：Worker 逐条推送，由主线程的投递器按策略转交
+   */
+  private addFeedSubscription<T>(
+    delivery: Delivery<T>,
+    createRequest: (id: number) => SubscribeRequest
+  ): () => void {
+    const unsubscribe = this.addSubscription(delivery.push as (data: unknown) => void, createRequest);
+    return () => {
+      delivery.cancel();
+      unsubscribe();
+    };
+  }
+
+  private handleMessage(message: WorkerMessage): void {
+    switch (message.type) {
+      case 'message': {
+        const callback = this.callbacks.get(message.id);
+        if (!callback) return;
+        try {
+          callback(message.data);
+        } catch (error) {
+          console.error(`[WorkerTransport] Callback error for subscription ${message.id}:`, error);
+        }
+        break;
+      }
+      case 'status':
+        this.statuses = message.statuses;
+        this.statusListeners.forEach((listener) => listener());
+        break;
+      case 'metrics':
+        this.metrics = message.metrics;
+        break;
+    }
+  }
+
+  private post(message: TabMessage): void {
+    this.port.postMessage(message);
+  }
+}
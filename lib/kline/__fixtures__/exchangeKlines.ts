@@ -0,0 +1,105 @@
+import type { UTCTimestamp } from 'lightweight-charts';
+import type { KlineCandle } from '../types';
+import type { OKXCandleRow, OKXResponse } from '../OKXDataSource';
+import type { BybitKlineMessage, BybitKlineRow, BybitResponse } from '../BybitDataSource';
+import type { CoinbaseCandleRow } from '../CoinbaseDataSource';
+
+/**
+ * 各交易所 K 线接口的样例响应（结构取自官方文档示例，数值换成同一组 1 分钟 K 线）
+ *
+ * 三个交易所都按时间降序返回，适配器需要转换为升序；
+ * OKX 和 Bybit 的数值为字符串，Coinbase 为数字且字段顺序为 [time, low, high, open, close, volume]
+ */
+
+/** 样例 K 线周期 */
+export const FIXTURE_INTERVAL_MS = 60_000;
+
+/**
+ * 期望的标准化 K 线（升序，不含各交易所口径不同的 quoteVolume）
+ */
+export const EXPECTED_CANDLES: Omit<KlineCandle, 'quoteVolume'>[] = [
+  {
+    time: 1704067200 as UTCTimestamp, // 2024-01-01T00:00:00Z
+    open: 42283.58,
+    high: 42298.62,
+    low: 42261.02,
+    close: 42284.83,
+    volume: 12.5,
+    isClosed: true,
+  },
+  {
+    time: 1704067260 as UTCTimestamp, // 2024-01-01T00:01:00Z
+    open: 42284.83,
+    high: 42300,
+    low: 42270.11,
+    close: 42295.1,
+    volume: 8.25,
+    isClosed: true,
+  },
+];
+
+/**
+ * OKX GET /api/v5/market/candles
+ * https://www.okx.com/docs-v5/en/#public-data-rest-api-get-candlesticks
+ *
+ * 行：[ts, o, h, l, c, vol, volCcy, volCcyQuote, confirm]
+ */
+export const OKX_CANDLES_RESPONSE: OKXResponse<OKXCandleRow[]> = {
+  code: '0',
+  msg: '',
+  data: [
+    ['1704067260000', '42284.83', '42300', '42270.11', '42295.1', '8.25', '8.25', '348922.17', '1'],
+    ['1704067200000', '42283.58', '42298.62', '42261.02', '42284.83', '12.5', '12.5', '528546.41', '1'],
+  ],
+};
+
+/**
+ * Bybit GET /v5/market/kline（category=spot）
+ * https://bybit-exchange.github.io/docs/v5/market/kline
+ *
+ * 行：[startTime, openPrice, highPrice, lowPrice, closePrice, volume, turnover]
+ */
+export const BYBIT_KLINE_RESPONSE: BybitResponse<{ list: BybitKlineRow[] }> = {
+  retCode: 0,
+  retMsg: 'OK',
+  result: {
+    list: [
+      ['1704067260000', '42284.83', '42300', '42270.11', '42295.1', '8.25', '348922.17'],
+      ['1704067200000', '42283.58', '42298.62', '42261.02', '42284.83', '12.5', '528546.41'],
+    ],
+  },
+};
+
+/**
+ * Bybit 公共频道 kline.{interval}.{symbol} 推送
+ * https://bybit-exchange.github.io/docs/v5/websocket/public/kline
+ */
+export const BYBIT_KLINE_MESSAGE: BybitKlineMessage = {
+  topic: 'kline.1.BTCUSDT',
+  data: [
+    {
+      start: 1704067260000,
+      end: 1704067319999,
+      interval: '1',
+      open: '42284.83',
+      close: '42295.1',
+      high: '42300',
+      low: '42270.11',
+      volume: '8.25',
+      turnover: '348922.17',
+      confirm: true,
+      timestamp: 1704067320012,
+    },
+  ],
+};
+
+/**
+ * Coinbase Exchange GET /products/{product_id}/candles
+ * https://docs.cdp.coinbase.com/exchange/reference/exchangerestapi_getproductcandles
+ *
+ * 行：[time（秒）, low, high, open, close, volume]
+ */
+export const COINBASE_CANDLES_RESPONSE: CoinbaseCandleRow[] = [
+  [1704067260, 42270.11, 42300, 42284.83, 42295.1, 8.25],
+  [1704067200, 42261.02, 42298.62, 42283.58, 42284.83, 12.5],
+];
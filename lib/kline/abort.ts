@@ -0,0 +1,50 @@
+import { DataSourceError } from './types';
+
+/**
+ * 创建取消错误（统一使用 ABORTED 错误码）
+ */
+export function createAbortError(): DataSourceError {
+  return new DataSourceError('Request aborted', 'ABORTED');
+}
+
+/**
+ * 是否为取消错误（包括 fetch 抛出的原生 AbortError）
+ */
+export function isAbortError(error: unknown): boolean {
+  if (error instanceof DataSourceError) return error.code === 'ABORTED';
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * 已取消时抛出 ABORTED 错误
+ *
+ * @throws {DataSourceError} signal 已取消时
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+}
+
+/**
+ * 可取消的延迟：signal 取消时立即以 ABORTED 错误结束
+ */
+export function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,320 @@
+import { DataCache } from './DataCache';
+import { RequestScheduler, isRateLimitError } from './RequestScheduler';
+import { BINANCE_RATE_LIMIT } from './BinanceDataSource';
+import { getBinanceEndpoints } from './endpoints';
+import { isNativeInterval } from './intervals';
+import { isAbortError } from './abort';
+import type { KlineInterval } from './types';
+
+// 已收盘数据不再变化，可长时间缓存
+const STABLE_TTL = 60 * 60 * 1000;
+// 含未收盘 K 线、盘口和最新成交的响应只短暂缓存，用于合并同一时刻的大量请求
+const LIVE_TTL = 1000;
+// 代理缓存的最大条目数（1000 根 K 线约 150KB）
+const PROXY_CACHE_SIZE = 200;
+// 上游请求超时（含限频排队时间）
+const UPSTREAM_TIMEOUT = 10 * 1000;
+
+const KLINES_WEIGHT = 2;
+const AGG_TRADES_WEIGHT = 4;
+const DEPTH_LIMITS = [5, 10, 20, 50, 100, 500, 1000, 5000];
+
+// Binance 交易对格式
+const SYMBOL_PATTERN = /^[A-Z0-9\-_.]{1,20}$/;
+
+/**
+ * 参数错误（响应格式与 Binance 一致，客户端按业务错误码分类）
+ */
+class ProxyParamError extends Error {
+  constructor(
+    readonly code: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * 上游响应（缓存和合并的单位）
+ */
+interface UpstreamResult {
+  status: number;
+  body: string;
+  /** 缓存时间（毫秒），0 表示不缓存 */
+  ttl: number;
+  /** 限频时建议的等待时间（秒） */
+  retryAfter?: number;
+}
+
+/**
+ * 单个代理接口的请求描述
+ */
+interface ProxyRequest {
+  /** 上游路径，例如 /klines */
+  path: string;
+  /** 规范化后的查询参数（决定缓存键） */
+  query: URLSearchParams;
+  /** 上游接口权重 */
+  weight: number;
+  /** 根据成功响应计算缓存时间 */
+  ttl: (body: unknown, now: number) => number;
+}
+
+function jsonResponse(status: number, body: string, headers: Record<string, string> = {}): Response {
+  return new Response(body, {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+function errorBody(code: number, msg: string): string {
+  return JSON.stringify({ code, msg });
+}
+
+function requireSymbol(params: URLSearchParams): string {
+  const symbol = params.get('symbol')?.toUpperCase();
+  if (!symbol) throw new ProxyParamError(-1102, "Mandatory parameter 'symbol' was not sent.");
+  if (!SYMBOL_PATTERN.test(symbol)) throw new ProxyParamError(-1121, 'Invalid symbol.');
+  return symbol;
+}
+
+/**
+ * 读取可选的非负整数参数
+ */
+function optionalInteger(params: URLSearchParams, name: string): number | undefined {
+  const value = params.get(name);
+  if (value === null || value === '') return undefined;
+  const parsed = Number(value);
+  if (!Number.isSafeInteger(parsed) || parsed < 0) {
+    throw new ProxyParamError(-1100, `Illegal value for parameter '${name}'.`);
+  }
+  return parsed;
+}
+
+function limitParam(params: URLSearchParams, fallback: number, max: number): number {
+  const limit = optionalInteger(params, 'limit') ?? fallback;
+  if (limit < 1 || limit > max) {
+    throw new ProxyParamError(-1100, `Parameter 'limit' must be between 1 and ${max}.`);
+  }
+  return limit;
+}
+
+/**
+ * 按 Binance 规则计算 /depth 的权重
+ */
+function depthWeight(limit: number): number {
+  if (limit <= 100) return 5;
+  if (limit <= 500) return 25;
+  if (limit <= 1000) return 50;
+  return 250;
+}
+
+/**
+ * Binance REST 代理（服务端单例，由 app/api 下的路由使用）
+ *
+ * 功能特性：
+ * - 共享缓存：已收盘的 K 线和历史成交长期缓存，所有用户共用；实时数据缓存 1 秒
+ * - 请求合并：相同参数的并发请求只向上游发送一次
+ * - 限频保护：经 RequestScheduler 统计权重，被限频期间直接返回 429 和 Retry-After
+ * - 参数校验：非法参数在本地拒绝，不消耗上游权重
+ *
+ * 上游地址取 BINANCE_PROXY_REST_URL，未配置时使用 endpoints.ts 的当前配置
+ */
+export class BinanceProxy {
+  // 单例实例
+  private static instance: BinanceProxy;
+  private cache = new DataCache(PROXY_CACHE_SIZE);
+  // 缓存键 -> 进行中的上游请求
+  private inflight = new Map<string, Promise<UpstreamResult>>();
+
+  private constructor() {}
+
+  /**
+   * 获取单例实例
+   */
+  static getInstance(): BinanceProxy {
+    if (!BinanceProxy.instance) {
+      BinanceProxy.instance = new BinanceProxy();
+    }
+    return BinanceProxy.instance;
+  }
+
+  /**
+   * 上游 REST 地址（含 /api/v3）
+   */
+  get restBase(): string {
+    return (process.env.BINANCE_PROXY_REST_URL || getBinanceEndpoints().restBase).replace(/\/+$/, '');
+  }
+
+  /**
+   * 代理 /klines（参数与 Binance 一致）
+   *
+   * 只有结果确定不再变化时才长期缓存：所有 K 线已收盘，且 endTime 已过去或已取满 limit 条
+   */
+  klines(params: URLSearchParams): Promise<Response> {
+    return this.handle(() => {
+      const symbol = requireSymbol(params);
+      const interval = params.get('interval');
+      if (!interval) throw new ProxyParamError(-1102, "Mandatory parameter 'interval' was not sent.");
+      if (!isNativeInterval(interval as KlineInterval)) throw new ProxyParamError(-1120, 'Invalid interval.');
+      const startTime = optionalInteger(params, 'startTime');
+      const endTime = optionalInteger(params, 'endTime');
+      const limit = limitParam(params, 500, 1000);
+
+      const query = new URLSearchParams({ symbol, interval });
+      if (startTime !== undefined) query.set('startTime', String(startTime));
+      if (endTime !== undefined) query.set('endTime', String(endTime));
+      query.set('limit', String(limit));
+
+      return {
+        path: '/klines',
+        query,
+        weight: KLINES_WEIGHT,
+        ttl: (body, now) => {
+          if (!Array.isArray(body)) return 0;
+          // closeTime 位于下标 6
+          const allClosed = body.every((kline) => Array.isArray(kline) && Number(kline[6]) < now);
+          const complete =
+            (endTime !== undefined && endTime < now) ||
+            (startTime !== undefined && body.length === limit);
+          return allClosed && complete ? STABLE_TTL : LIVE_TTL;
+        },
+      };
+    });
+  }
+
+  /**
+   * 代理 /depth（盘口快照只短暂缓存）
+   */
+  depth(params: URLSearchParams): Promise<Response> {
+    return this.handle(() => {
+      const symbol = requireSymbol(params);
+      const limit = optionalInteger(params, 'limit') ?? 100;
+      if (!DEPTH_LIMITS.includes(limit)) {
+        throw new ProxyParamError(-1100, `Parameter 'limit' must be one of ${DEPTH_LIMITS.join(', ')}.`);
+      }
+
+      return {
+        path: '/depth',
+        query: new URLSearchParams({ symbol, limit: String(limit) }),
+        weight: depthWeight(limit),
+        ttl: () => LIVE_TTL,
+      };
+    });
+  }
+
+  /**
+   * 代理 /aggTrades（历史成交不再变化，endTime 已过去或已取满 limit 条时长期缓存）
+   */
+  trades(params: URLSearchParams): Promise<Response> {
+    return this.handle(() => {
+      const symbol = requireSymbol(params);
+      const fromId = optionalInteger(params, 'fromId');
+      const startTime = optionalInteger(params, 'startTime');
+      const endTime = optionalInteger(params, 'endTime');
+      const limit = limitParam(params, 500, 1000);
+
+      const query = new URLSearchParams({ symbol });
+      if (fromId !== undefined) query.set('fromId', String(fromId));
+      if (startTime !== undefined) query.set('startTime', String(startTime));
+      if (endTime !== undefined) query.set('endTime', String(endTime));
+      query.set('limit', String(limit));
+
+      return {
+        path: '/aggTrades',
+        query,
+        weight: AGG_TRADES_WEIGHT,
+        ttl: (body, now) => {
+          if (!Array.isArray(body)) return 0;
+          const complete =
+            (endTime !== undefined && endTime < now) ||
+            ((fromId !== undefined || startTime !== undefined) && body.length === limit);
+          return complete ? STABLE_TTL : LIVE_TTL;
+        },
+      };
+    });
+  }
+
+  /**
+   * 校验参数后依次查缓存、合并进行中的请求、请求上游
+   */
+  private async handle(describe: () => ProxyRequest): Promise<Response> {
+    let request: ProxyRequest;
+    try {
+      request = describe();
+    } catch (error) {
+      if (error instanceof ProxyParamError) {
+        return jsonResponse(400, errorBody(error.code, error.message), { 'Cache-Control': 'no-store' });
+      }
+      throw error;
+    }
+
+    const key = `${request.path}?${request.query.toString()}`;
+
+    const cached = this.cache.get<UpstreamResult>(key);
+    if (cached) return this.toResponse(cached, 'HIT');
+
+    const pending = this.inflight.get(key);
+    if (pending) return this.toResponse(await pending, 'COALESCED');
+
+    const upstream = this.fetchUpstream(request, key).finally(() => this.inflight.delete(key));
+    this.inflight.set(key, upstream);
+    return this.toResponse(await upstream, 'MISS');
+  }
+
+  private async fetchUpstream(request: ProxyRequest, key: string): Promise<UpstreamResult> {
+    const url = `${this.restBase}${key}`;
+
+    let response: Response;
+    let body: string;
+    try {
+      response = await RequestScheduler.getInstance().fetch(url, {
+        weight: request.weight,
+        policy: BINANCE_RATE_LIMIT,
+        signal: AbortSignal.timeout(UPSTREAM_TIMEOUT),
+      });
+      body = await response.text();
+    } catch (error) {
+      if (isRateLimitError(error)) {
+        // 上游已限频：直接拒绝，不再消耗权重（IP 封禁也按 429 返回，由客户端退避）
+        return {
+          status: 429,
+          body: errorBody(-1003, error.message),
+          ttl: 0,
+          retryAfter: Math.ceil((error.retryAfter ?? 0) / 1000),
+        };
+      }
+      if (isAbortError(error) || (error instanceof Error && error.name === 'TimeoutError')) {
+        return { status: 504, body: errorBody(-1007, 'Timeout waiting for upstream response.'), ttl: 0 };
+      }
+      console.error(`[BinanceProxy] Upstream request failed: ${request.path}`, error);
+      return { status: 502, body: errorBody(-1000, 'Upstream request failed.'), ttl: 0 };
+    }
+
+    if (!response.ok) {
+      // 业务错误原样返回，客户端按 Binance 错误码分类
+      return { status: response.status, body, ttl: 0 };
+    }
+
+    let ttl = 0;
+    try {
+      ttl = request.ttl(JSON.parse(body), Date.now());
+    } catch {
+      // 无法解析的响应不缓存，原样交给客户端校验
+    }
+
+    const result: UpstreamResult = { status: response.status, body, ttl };
+    if (ttl > 0) this.cache.set(key, result, ttl);
+    return result;
+  }
+
+  private toResponse(result: UpstreamResult, cacheStatus: 'HIT' | 'MISS' | 'COALESCED'): Response {
+    const headers: Record<string, string> = {
+      'X-Proxy-Cache': cacheStatus,
+      'Cache-Control':
+        result.ttl > 0 ? `public, max-age=${Math.floor(result.ttl / 1000)}` : 'no-store',
+    };
+    if (result.retryAfter !== undefined) headers['Retry-After'] = String(result.retryAfter);
+    return jsonResponse(result.status, result.body, headers);
+  }
+}
@@ -0,0 +1,105 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { parseBinanceMessage, parseBinanceText, restKlinesSchema } from './binanceSchemas';
+import { MessageQuarantine } from './quarantine';
+import { check } from './schema';
+
+const CONTEXT = { source: 'test', stream: 'btcusdt@kline_1m' };
+
+const KLINE_EVENT = {
+  e: 'kline',
+  E: 1704067260000,
+  s: 'BTCUSDT',
+  k: {
+    t: 1704067200000,
+    T: 1704067259999,
+    s: 'BTCUSDT',
+    i: '1m',
+    f: 100,
+    L: 200,
+    o: '42000.00',
+    c: '42010.50',
+    h: '42020.00',
+    l: '41990.00',
+    v: '12.5',
+    n: 101,
+    x: false,
+    q: '525000.00',
+    V: '6.1',
+    Q: '256000.00',
+    B: '0',
+  },
+};
+
+describe('parseBinanceMessage', () => {
+  afterEach(() => {
+    MessageQuarantine.getInstance().clear();
+  });
+
+  it('accepts kline events and unwraps combined streams', () => {
+    expect(parseBinanceMessage(KLINE_EVENT, CONTEXT)).toEqual({ type: 'kline', data: KLINE_EVENT });
+    expect(
+      parseBinanceMessage({ stream: 'btcusdt@kline_1m', data: KLINE_EVENT }, { source: 'test' })
+    ).toEqual({ type: 'kline', data: KLINE_EVENT });
+    expect(MessageQuarantine.getInstance().getEntries()).toHaveLength(0);
+  });
+
+  it('classifies acks and error frames', () => {
+    expect(parseBinanceMessage({ result: null, id: 1 }, CONTEXT)).toMatchObject({ type: 'ack' });
+    expect(
+      parseBinanceMessage({ error: { code: 2, msg: 'Invalid request' }, id: null }, CONTEXT)
+    ).toMatchObject({ type: 'error' });
+    expect(MessageQuarantine.getInstance().getCounts()).toEqual({ 'test:error-frame': 1 });
+  });
+
+  it('quarantines frames with malformed fields together with the field path', () => {
+    const malformed = { ...KLINE_EVENT, k: { ...KLINE_EVENT.k, c: 42010.5 } };
+
+    expect(parseBinanceMessage(malformed, CONTEXT)).toBeNull();
+    expect(MessageQuarantine.getInstance().getEntries()).toEqual([
+      expect.objectContaining({ reason: 'malformed', stream: CONTEXT.stream, path: 'k.c', payload: malformed }),
+    ]);
+  });
+
+  it.each([
+    ['non-objects', 'pong'],
+    ['unknown event types', { e: 'aggTrade', E: 1 }],
+    ['missing event types', { E: 1 }],
+    ['malformed error frames', { error: 'oops' }],
+  ])('quarantines %s', (_, message) => {
+    expect(parseBinanceMessage(message, CONTEXT)).toBeNull();
+    expect(MessageQuarantine.getInstance().getCounts()).toEqual({ 'test:malformed': 1 });
+  });
+});
+
+describe('parseBinanceText', () => {
+  afterEach(() => {
+    MessageQuarantine.getInstance().clear();
+  });
+
+  it('quarantines text that is not JSON', () => {
+    expect(parseBinanceText('{"e":', CONTEXT)).toBeNull();
+    expect(MessageQuarantine.getInstance().getEntries()).toEqual([
+      expect.objectContaining({ reason: 'invalid-json', payload: '{"e":' }),
+    ]);
+  });
+
+  it('parses valid text', () => {
+    expect(parseBinanceText(JSON.stringify(KLINE_EVENT), CONTEXT)).toMatchObject({ type: 'kline' });
+  });
+});
+
+describe('restKlinesSchema', () => {
+  const row = [1704067200000, '1', '2', '0.5', '1.5', '10', 1704067259999, '15', 7, '5', '7.5', '0'];
+
+  it('accepts kline rows with extra trailing fields', () => {
+    expect(check(restKlinesSchema, [row, row]).ok).toBe(true);
+  });
+
+  it('rejects short or mistyped rows', () => {
+    expect(check(restKlinesSchema, [row.slice(0, 6)])).toMatchObject({ ok: false, issue: { path: '[0]' } });
+    expect(check(restKlinesSchema, [row, [...row.slice(0, 8), '7', ...row.slice(9)]])).toMatchObject({
+      ok: false,
+      issue: { path: '[1][8]' },
+    });
+  });
+});
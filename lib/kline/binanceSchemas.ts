@@ -0,0 +1,238 @@
+import * as s from './schema';
+import { MessageQuarantine } from './quarantine';
+import type {
+  ApiErrorResponse,
+  CombinedStreamMessage,
+  KlineData,
+  KlineEvent,
+  OrderBookUpdate,
+  RestKline,
+  StreamErrorFrame,
+  SubscriptionAck,
+  TradeData,
+} from '@/types/binance';
+
+// ============= REST =============
+
+/** /klines 单行 */
+export const restKlineSchema = s.tuple<RestKline>([
+  s.number,
+  s.decimal,
+  s.decimal,
+  s.decimal,
+  s.decimal,
+  s.decimal,
+  s.number,
+  s.decimal,
+  s.number,
+  s.decimal,
+  s.decimal,
+]);
+
+/** /klines 响应 */
+export const restKlinesSchema = s.arrayOf(restKlineSchema);
+
+/** REST 错误响应体 */
+export const apiErrorSchema = s.object<ApiErrorResponse>({
+  code: s.number,
+  msg: s.string,
+});
+
+// ============= WebSocket =============
+
+const levelSchema = s.tuple<[string, string]>([s.decimal, s.decimal]);
+
+/** K 线推送中的 `k` 字段 */
+export const klineDataSchema = s.object<KlineData>({
+  t: s.number,
+  T: s.number,
+  s: s.string,
+  i: s.string,
+  f: s.number,
+  L: s.number,
+  o: s.decimal,
+  c: s.decimal,
+  h: s.decimal,
+  l: s.decimal,
+  v: s.decimal,
+  n: s.number,
+  x: s.boolean,
+  q: s.decimal,
+  V: s.decimal,
+  Q: s.decimal,
+  B: s.optional(s.string),
+});
+
+/** `<symbol>@kline_<interval>` */
+export const klineEventSchema = s.object<KlineEvent>({
+  e: s.literal('kline'),
+  E: s.number,
+  s: s.string,
+  k: klineDataSchema,
+});
+
+/** `<symbol>@depth` / `<symbol>@depth@100ms` */
+export const depthUpdateSchema = s.object<OrderBookUpdate>({
+  e: s.literal('depthUpdate'),
+  E: s.number,
+  s: s.string,
+  U: s.number,
+  u: s.number,
+  b: s.arrayOf(levelSchema),
+  a: s.arrayOf(levelSchema),
+});
+
+/** `<symbol>@trade` */
+export const tradeSchema = s.object<TradeData>({
+  e: s.literal('trade'),
+  E: s.number,
+  s: s.string,
+  t: s.number,
+  p: s.decimal,
+  q: s.decimal,
+  b: s.optional(s.number),
+  a: s.optional(s.number),
+  T: s.number,
+  m: s.boolean,
+  M: s.optional(s.boolean),
+});
+
+/** SUBSCRIBE / UNSUBSCRIBE 响应 */
+export const subscriptionAckSchema = s.object<SubscriptionAck>({
+  result: s.anyValue,
+  id: s.oneOf<number | string>(s.number, s.string),
+});
+
+/** 错误帧 */
+export const errorFrameSchema = s.object<StreamErrorFrame>({
+  error: s.object<StreamErrorFrame['error']>({ code: s.number, msg: s.string }),
+  id: s.optional(s.oneOf<number | string | null>(s.number, s.string, s.literal(null))),
+});
+
+/** 组合流外层 */
+const combinedStreamSchema = s.object<CombinedStreamMessage>({
+  stream: s.string,
+  data: s.anyValue,
+});
+
+/**
+ * 按事件类型（`e` 字段）索引的推送校验器
+ */
+const EVENT_SCHEMAS = {
+  kline: klineEventSchema,
+  depthUpdate: depthUpdateSchema,
+  trade: tradeSchema,
+};
+
+/**
+ * 校验后的 Binance WebSocket 消息
+ */
+export type BinanceStreamMessage =
+  | { type: 'kline'; data: KlineEvent }
+  | { type: 'depthUpdate'; data: OrderBookUpdate }
+  | { type: 'trade'; data: TradeData }
+  | { type: 'ack'; data: SubscriptionAck }
+  | { type: 'error'; data: StreamErrorFrame };
+
+/**
+ * 消息来源，写入隔离记录便于定位
+ */
+export interface MessageContext {
+  /** 来源（数据源或 Hook 名称） */
+  source: string;
+  /** 数据流名称 */
+  stream?: string;
+}
+
+/**
+ * 校验 Binance WebSocket 消息（已 JSON 解析）
+ *
+ * - 组合流（`{ stream, data }`）自动拆包
+ * - 错误帧和订阅响应单独归类，错误帧同时上报
+ * - 格式不符或未知事件类型的消息进入隔离区，返回 null
+ */
+export function parseBinanceMessage(
+  message: unknown,
+  context: MessageContext
+): BinanceStreamMessage | null {
+  let payload = message;
+  let stream = context.stream;
+
+  const combined = s.check(combinedStreamSchema, message);
+  if (combined.ok) {
+    payload = combined.value.data;
+    stream = combined.value.stream;
+  }
+
+  const quarantine = (reason: 'malformed' | 'error-frame', text: string, path?: string) =>
+    MessageQuarantine.getInstance().report({
+      reason,
+      source: context.source,
+      stream,
+      path,
+      message: text,
+      payload: message,
+    });
+
+  if (typeof payload !== 'object' || payload === null) {
+    quarantine('malformed', 'expected object');
+    return null;
+  }
+
+  if ('error' in payload) {
+    const result = s.check(errorFrameSchema, payload);
+    if (!result.ok) {
+      quarantine('malformed', result.issue.message, result.issue.path);
+      return null;
+    }
+    const { code, msg } = result.value.error;
+    quarantine('error-frame', `Binance error ${code}: ${msg}`);
+    return { type: 'error', data: result.value };
+  }
+
+  if ('result' in payload) {
+    const result = s.check(subscriptionAckSchema, payload);
+    if (!result.ok) {
+      quarantine('malformed', result.issue.message, result.issue.path);
+      return null;
+    }
+    return { type: 'ack', data: result.value };
+  }
+
+  const type = (payload as { e?: unknown }).e;
+  if (typeof type !== 'string' || !(type in EVENT_SCHEMAS)) {
+    quarantine('malformed', `unknown event type ${JSON.stringify(type)}`, 'e');
+    return null;
+  }
+
+  const eventType = type as keyof typeof EVENT_SCHEMAS;
+  const result = s.check<unknown>(EVENT_SCHEMAS[eventType], payload);
+  if (!result.ok) {
+    quarantine('malformed', result.issue.message, result.issue.path);
+    return null;
+  }
+  return { type: eventType, data: result.value } as BinanceStreamMessage;
+}
+
+/**
+ * 解析并校验原始 WebSocket 文本消息，无法解析的文本进入隔离区
+ */
+export function parseBinanceText(
+  text: string,
+  context: MessageContext
+): BinanceStreamMessage | null {
+  let message: unknown;
+  try {
+    message = JSON.parse(text);
+  } catch (error) {
+    MessageQuarantine.getInstance().report({
+      reason: 'invalid-json',
+      source: context.source,
+      stream: context.stream,
+      message: error instanceof Error ? error.message : 'Invalid JSON',
+      payload: text,
+    });
+    return null;
+  }
+  return parseBinanceMessage(message, context);
+}
@@ -0,0 +1,32 @@
+import { IKlineDataSource } from './types';
+import { ExchangeId } from './symbols';
+import { ExchangeDataSourceOptions } from './BaseExchangeDataSource';
+import { BinanceDataSource } from './BinanceDataSource';
+import { OKXDataSource } from './OKXDataSource';
+import { BybitDataSource } from './BybitDataSource';
+import { CoinbaseDataSource } from './CoinbaseDataSource';
+
+/**
+ * 根据交易所标识创建数据源
+ *
+ * @example
+ * ```ts
+ * const dataSource = createDataSource('okx', { enableCache: false });
+ * const candles = await dataSource.fetchHistorical('BTC-USDT', '1m');
+ * ```
+ */
+export function createDataSource(
+  exchange: ExchangeId,
+  options: ExchangeDataSourceOptions = {}
+): IKlineDataSource {
+  switch (exchange) {
+    case 'binance':
+      return new BinanceDataSource(options);
+    case 'okx':
+      return new OKXDataSource(options);
+    case 'bybit':
+      return new BybitDataSource(options);
+    case 'coinbase':
+      return new CoinbaseDataSource(options);
+  }
+}
@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createDelivery, LatestValue } from './delivery';
+
+describe('createDelivery', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('delivers every value synchronously in every mode', () => {
+    const callback = vi.fn();
+    const delivery = createDelivery({ mode: 'every' }, callback);
+
+    delivery.push(1);
+    delivery.push(2);
+
+    expect(callback.mock.calls).toEqual([[1], [2]]);
+  });
+
+  it('writes to the target without calling back in latest mode', () => {
+    const callback = vi.fn();
+    const target = new LatestValue<number>();
+    const delivery = createDelivery({ mode: 'latest', target }, callback);
+
+    delivery.push(1);
+    delivery.push(2);
+
+    expect(callback).not.toHaveBeenCalled();
+    expect(target.take()).toBe(2);
+    expect(target.take()).toBeNull();
+    expect(target.get()).toBe(2);
+  });
+
+  it('coalesces raf pushes into one frame, falling back to a timer without requestAnimationFrame', () => {
+    const callback = vi.fn();
+    const delivery = createDelivery<number>(undefined, callback);
+
+    delivery.push(1);
+    delivery.push(2);
+    delivery.push(3);
+    expect(callback).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(16);
+    expect(callback.mock.calls).toEqual([[3]]);
+  });
+
+  it('uses requestAnimationFrame when available and cancels the frame', () => {
+    const frames: FrameRequestCallback[] = [];
+    const cancelAnimationFrame = vi.fn();
+    vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => frames.push(callback));
+    vi.stubGlobal('cancelAnimationFrame', cancelAnimationFrame);
+    const callback = vi.fn();
+    const delivery = createDelivery<number>({ mode: 'raf' }, callback);
+
+    delivery.push(1);
+    delivery.push(2);
+    expect(frames).toHaveLength(1);
+    frames[0](0);
+    expect(callback.mock.calls).toEqual([[2]]);
+
+    delivery.push(3);
+    delivery.cancel();
+    expect(cancelAnimationFrame).toHaveBeenCalledWith(2);
+  });
+
+  it('flushes the pending value first when it cannot be merged', () => {
+    const callback = vi.fn();
+    const delivery = createDelivery<{ time: number; close: number }>(
+      { mode: 'raf' },
+      callback,
+      (pending, next) => pending.time === next.time
+    );
+
+    delivery.push({ time: 1, close: 10 });
+    delivery.push({ time: 1, close: 11 });
+    delivery.push({ time: 2, close: 12 });
+    expect(callback.mock.calls).toEqual([[{ time: 1, close: 11 }]]);
+
+    vi.advanceTimersByTime(16);
+    expect(callback.mock.calls).toEqual([[{ time: 1, close: 11 }], [{ time: 2, close: 12 }]]);
+  });
+
+  it('sends the leading value and the latest value at the end of each throttle window', () => {
+    const callback = vi.fn();
+    const delivery = createDelivery<number>({ mode: 'throttle', interval: 100 }, callback);
+
+    delivery.push(1);
+    delivery.push(2);
+    delivery.push(3);
+    expect(callback.mock.calls).toEqual([[1]]);
+
+    vi.advanceTimersByTime(100);
+    expect(callback.mock.calls).toEqual([[1], [3]]);
+
+    // 窗口结束时发送过数据，下一个窗口内的推送仍需等待
+    delivery.push(4);
+    expect(callback).toHaveBeenCalledTimes(2);
+    vi.advanceTimersByTime(100);
+    expect(callback.mock.calls).toEqual([[1], [3], [4]]);
+
+    // 空窗口结束后恢复立即发送
+    vi.advanceTimersByTime(100);
+    delivery.push(5);
+    expect(callback.mock.calls).toEqual([[1], [3], [4], [5]]);
+  });
+
+  it('drops pending values on cancel', () => {
+    const callback = vi.fn();
+    const raf = createDelivery<number>({ mode: 'raf' }, callback);
+    const throttle = createDelivery<number>({ mode: 'throttle', interval: 100 }, callback);
+
+    raf.push(1);
+    throttle.push(2);
+    throttle.push(3);
+    raf.cancel();
+    throttle.cancel();
+    vi.advanceTimersByTime(1000);
+
+    expect(callback.mock.calls).toEqual([[2]]);
+  });
+});
@@ -0,0 +1,164 @@
+import type { DeliveryPolicy, KlineCandle } from './types';
+
+// 没有 requestAnimationFrame 时（例如 Worker、Node）的帧间隔
+const FRAME_INTERVAL = 16;
+
+/** 默认投递策略：每帧最多一次 */
+export const RAF_DELIVERY = { mode: 'raf' } as const satisfies DeliveryPolicy<unknown>;
+/** 逐条投递 */
+export const EVERY_DELIVERY = { mode: 'every' } as const satisfies DeliveryPolicy<unknown>;
+
+/**
+ * 同一根 K 线的推送可以合并；周期切换时上一根的收盘数据必须送达
+ */
+export function isSameCandle(pending: KlineCandle, next: KlineCandle): boolean {
+  return pending.time === next.time;
+}
+
+/**
+ * 在下一帧执行回调，没有 requestAnimationFrame 时回退到定时器
+ *
+ * @returns 取消函数
+ */
+export function scheduleFrame(callback: () => void): () => void {
+  if (typeof requestAnimationFrame === 'function') {
+    const id = requestAnimationFrame(callback);
+    return () => cancelAnimationFrame(id);
+  }
+  const timer = setTimeout(callback, FRAME_INTERVAL);
+  return () => clearTimeout(timer);
+}
+
+/**
+ * 按需读取的最新值（latest 投递策略的接收端）
+ *
+ * @example
+ * ```ts
+ * const latest = new LatestValue<KlineCandle>();
+ * dataSource.subscribe('btcusdt', '1m', () => {}, { delivery: { mode: 'latest', target: latest } });
+ * setInterval(() => {
+ *   const candle = latest.take();
+ *   if (candle) checkAlerts(candle);
+ * }, 5000);
+ * ```
+ */
+export class LatestValue<T> {
+  private value: T | null = null;
+  private fresh = false;
+
+  /**
+   * 写入最新值（由订阅方调用）
+   */
+  set(value: T): void {
+    this.value = value;
+    this.fresh = true;
+  }
+
+  /**
+   * 最近收到的值（尚未收到时为 null）
+   */
+  get(): T | null {
+    return this.value;
+  }
+
+  /**
+   * 自上次 take 以来收到过新值时返回最新值，否则返回 null
+   */
+  take(): T | null {
+    if (!this.fresh) return null;
+    this.fresh = false;
+    return this.value;
+  }
+}
+
+/**
+ * 投递器：按策略把推送转交给回调
+ */
+export interface Delivery<T> {
+  /** 收到一条新数据 */
+  push(value: T): void;
+  /** 取消尚未发送的数据和定时器（取消订阅时调用） */
+  cancel(): void;
+}
+
+/**
+ * 按投递策略创建投递器
+ *
+ * raf 和 throttle 只保留最新值，中间值会被丢弃；需要完整数据的调用方使用 every。
+ * 后台标签页中 requestAnimationFrame 不触发，raf 会暂停到回到前台，后台仍需数据时使用 throttle。
+ *
+ * @param policy 投递策略（默认 raf）
+ * @param callback 接收数据的回调（latest 策略下不会调用）
+ * @param canMerge 待发送的数据能否被新数据替换，不能替换时先立即发送（默认总是替换）
+ */
+export function createDelivery<T>(
+  policy: DeliveryPolicy<T> = RAF_DELIVERY,
+  callback: (value: T) => void,
+  canMerge: (pending: T, next: T) => boolean = () => true
+): Delivery<T> {
+  switch (policy.mode) {
+    case 'every':
+      return { push: callback, cancel: () => {} };
+
+    case 'latest':
+      return { push: (value) => policy.target.set(value), cancel: () => {} };
+
+    case 'raf': {
+      let latest: { value: T } | null = null;
+      let cancelFrame: (() => void) | null = null;
+
+      const emitLatest = () => {
+        cancelFrame = null;
+        if (!latest) return;
+        const { value } = latest;
+        latest = null;
+        callback(value);
+      };
+
+      return {
+        push(value) {
+          if (latest && !canMerge(latest.value, value)) callback(latest.value);
+          latest = { value };
+          cancelFrame ??= scheduleFrame(emitLatest);
+        },
+        cancel() {
+          cancelFrame?.();
+          cancelFrame = null;
+          latest = null;
+        },
+      };
+    }
+
+    case 'throttle': {
+      // 首条立即发送，窗口内的后续数据只保留最新值，窗口结束时发送
+      let latest: { value: T } | null = null;
+      let timer: ReturnType<typeof setTimeout> | null = null;
+
+      const closeWindow = () => {
+        timer = null;
+        if (!latest) return;
+        const { value } = latest;
+        latest = null;
+        timer = setTimeout(closeWindow, policy.interval);
+        callback(value);
+      };
+
+      return {
+        push(value) {
+          if (timer) {
+            if (latest && !canMerge(latest.value, value)) callback(latest.value);
+            latest = { value };
+            return;
+          }
+          timer = setTimeout(closeWindow, policy.interval);
+          callback(value);
+        },
+        cancel() {
+          if (timer) clearTimeout(timer);
+          timer = null;
+          latest = null;
+        },
+      };
+    }
+  }
+}
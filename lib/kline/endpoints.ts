@@ -0,0 +1,153 @@
+/**
+ * Binance 接口地址配置
+ *
+ * 所有 REST 请求和 WebSocket 流都从这里读取地址，支持：
+ * - 预设环境：spot（默认）、testnet、binance.us、data-api.binance.vision
+ * - 自定义地址：本地代理或企业网关
+ *
+ * 初始值来自环境变量，运行时可通过 setBinanceEndpoints 切换：
+ * - NEXT_PUBLIC_BINANCE_ENDPOINT：预设名称（spot | testnet | us | vision | custom）
+ * - NEXT_PUBLIC_BINANCE_REST_URL：REST 地址（含 /api/v3），覆盖预设
+ * - NEXT_PUBLIC_BINANCE_WS_URL：WebSocket 地址（不含 /ws），覆盖预设
+ */
+
+/**
+ * 预设环境名称
+ */
+export type BinanceEndpointPreset = 'spot' | 'testnet' | 'us' | 'vision' | 'custom';
+
+/**
+ * Binance 接口地址
+ */
+export interface BinanceEndpoints {
+  /** 预设名称 */
+  name: BinanceEndpointPreset;
+  /** REST 地址，例如 https://api.binance.com/api/v3 */
+  restBase: string;
+  /** WebSocket 地址，例如 wss://stream.binance.com:9443（原始流为 `${wsBase}/ws/<stream>`） */
+  wsBase: string;
+}
+
+/**
+ * 预设环境地址
+ */
+export const BINANCE_ENDPOINT_PRESETS: Record<BinanceEndpointPreset, BinanceEndpoints> = {
+  spot: {
+    name: 'spot',
+    restBase: 'https://api.binance.com/api/v3',
+    wsBase: 'wss://stream.binance.com:9443',
+  },
+  testnet: {
+    name: 'testnet',
+    restBase: 'https://testnet.binance.vision/api/v3',
+    wsBase: 'wss://stream.testnet.binance.vision',
+  },
+  us: {
+    name: 'us',
+    restBase: 'https://api.binance.us/api/v3',
+    wsBase: 'wss://stream.binance.us:9443',
+  },
+  vision: {
+    name: 'vision',
+    restBase: 'https://data-api.binance.vision/api/v3',
+    wsBase: 'wss://data-stream.binance.vision',
+  },
+  custom: {
+    name: 'custom',
+    restBase: 'http://localhost:8080/api/v3',
+    wsBase: 'ws://localhost:8080',
+  },
+};
+
+/**
+ * 去掉末尾斜杠，避免拼接出 `//ws`
+ */
+function trimTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+/**
+ * 从环境变量读取初始配置
+ *
+ * 注意：Next.js 只会内联以字面量形式访问的 NEXT_PUBLIC_* 变量
+ */
+function resolveInitialEndpoints(): BinanceEndpoints {
+  const presetName = process.env.NEXT_PUBLIC_BINANCE_ENDPOINT as BinanceEndpointPreset | undefined;
+  const preset = (presetName && BINANCE_ENDPOINT_PRESETS[presetName]) || BINANCE_ENDPOINT_PRESETS.spot;
+  const restBase = process.env.NEXT_PUBLIC_BINANCE_REST_URL;
+  const wsBase = process.env.NEXT_PUBLIC_BINANCE_WS_URL;
+
+  if (!restBase && !wsBase) return preset;
+
+  return {
+    name: 'custom',
+    restBase: trimTrailingSlash(restBase || preset.restBase),
+    wsBase: trimTrailingSlash(wsBase || preset.wsBase),
+  };
+}
+
+let currentEndpoints = resolveInitialEndpoints();
+const listeners = new Set<() => void>();
+
+/**
+ * 获取当前生效的接口地址
+ */
+export function getBinanceEndpoints(): BinanceEndpoints {
+  return currentEndpoints;
+}
+
+/**
+ * 运行时切换接口地址
+ *
+ * 已建立的实时订阅会自动按新地址重连；已缓存的历史数据不会自动失效，
+ * 需要时由调用方执行 queryClient.invalidateQueries({ queryKey: ['kline'] })。
+ *
+ * @example
+ * ```ts
+ * setBinanceEndpoints('testnet');
+ * setBinanceEndpoints({ restBase: 'http://proxy.local/api/v3', wsBase: 'ws://proxy.local' });
+ * ```
+ */
+export function setBinanceEndpoints(
+  endpoints: BinanceEndpointPreset | Pick<BinanceEndpoints, 'restBase' | 'wsBase'>
+): void {
+  currentEndpoints =
+    typeof endpoints === 'string'
+      ? BINANCE_ENDPOINT_PRESETS[endpoints]
+      : {
+          name: 'custom',
+          restBase: trimTrailingSlash(endpoints.restBase),
+          wsBase: trimTrailingSlash(endpoints.wsBase),
+        };
+
+  console.log(`[BinanceEndpoints] Switched to ${currentEndpoints.name}`);
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * 监听接口地址变化（兼容 useSyncExternalStore）
+ *
+ * @returns 取消监听函数
+ */
+export function subscribeBinanceEndpoints(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * 拼接原始流地址，例如 `wss://stream.binance.com:9443/ws/btcusdt@trade`
+ */
+export function binanceStreamUrl(stream: string, endpoints = currentEndpoints): string {
+  return `${endpoints.wsBase}/ws/${stream}`;
+}
+
+/**
+ * 组合流地址（不含 streams 参数），例如 `wss://stream.binance.com:9443/stream`
+ *
+ * 配合 WebSocketManager.subscribeStream 使用，多个数据流共用一个连接
+ */
+export function binanceCombinedStreamUrl(endpoints = currentEndpoints): string {
+  return `${endpoints.wsBase}/stream`;
+}
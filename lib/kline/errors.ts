@@ -0,0 +1,42 @@
+import { DataSourceError, DataSourceErrorCode } from './types';
+
+/**
+ * 各错误码对应的界面提示
+ */
+const ERROR_MESSAGES: Record<DataSourceErrorCode, string> = {
+  INVALID_PARAMETER: 'Invalid request',
+  INVALID_SYMBOL: 'Unknown symbol',
+  UNSUPPORTED_INTERVAL: 'Interval not supported',
+  NETWORK_ERROR: 'Network unavailable',
+  TIMEOUT: 'Request timed out',
+  SERVER_ERROR: 'Exchange unavailable',
+  CONNECTION_CLOSED: 'Connection lost',
+  HTTP_ERROR: 'Request rejected',
+  API_ERROR: 'Exchange error',
+  INVALID_FORMAT: 'Unexpected response',
+  PARSE_ERROR: 'Unexpected response',
+  RATE_LIMITED: 'Rate limited',
+  IP_BANNED: 'Temporarily banned',
+  ABORTED: 'Cancelled',
+  FETCH_FAILED: 'Failed to load data',
+};
+
+/**
+ * 获取适合在界面上展示的简短错误提示
+ *
+ * 限频类错误附带剩余等待时间，例如 "Rate limited (retry in 30s)"
+ */
+export function getErrorMessage(error: unknown): string {
+  if (!(error instanceof DataSourceError)) return 'Error';
+
+  // 重试耗尽时展示最后一次失败的原因
+  if (error.code === 'FETCH_FAILED' && error.originalError instanceof DataSourceError) {
+    return getErrorMessage(error.originalError);
+  }
+
+  const message = ERROR_MESSAGES[error.code] ?? 'Error';
+  if (error.retryAfter !== undefined && error.retryAfter > 0) {
+    return `${message} (retry in ${Math.ceil(error.retryAfter / 1000)}s)`;
+  }
+  return message;
+}
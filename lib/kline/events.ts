@@ -0,0 +1,93 @@
+import { KlineInterval, ConnectionStatus, WebSocketState } from './types';
+import type { QuarantinedMessage } from './quarantine';
+
+/**
+ * 缺口修复事件数据
+ */
+export interface DataRepairEvent {
+  /** 数据源标识 */
+  dataSourceId: string;
+  /** 交易对标识 */
+  symbol: string;
+  /** K 线时间周期 */
+  interval: KlineInterval;
+  /** 缺口起始时间（毫秒，含） */
+  from: number;
+  /** 缺口结束时间（毫秒，含） */
+  to: number;
+}
+
+/**
+ * K 线系统事件表（事件名 -> 事件数据）
+ */
+export interface KlineEventMap {
+  /** 推送中断后通过 REST 补齐了缺失的 K 线 */
+  dataRepaired: DataRepairEvent & {
+    /** 补齐的 K 线数量 */
+    candles: number;
+    /** 修复耗时（毫秒） */
+    duration: number;
+  };
+  /** 缺口补齐失败 */
+  dataRepairFailed: DataRepairEvent & {
+    error: unknown;
+  };
+  /** 收到格式错误的消息或交易所错误帧（所有数据流共用这一个上报通道） */
+  invalidMessage: QuarantinedMessage;
+  /** WebSocket 连接状态变化（连接中、已连接、断开、重连中、失败） */
+  connectionStateChange: ConnectionStatus & {
+    /** 变化前的状态，新建连接时为 undefined */
+    previousState?: WebSocketState;
+  };
+}
+
+type KlineEventListener<K extends keyof KlineEventMap> = (event: KlineEventMap[K]) => void;
+
+/**
+ * K 线系统事件总线，用于监控等外部系统接入
+ *
+ * @example
+ * ```ts
+ * const off = klineEvents.on('dataRepaired', (event) => {
+ *   metrics.increment('kline.repaired', event.candles);
+ * });
+ * ```
+ */
+class KlineEventEmitter {
+  private listeners = new Map<keyof KlineEventMap, Set<(event: never) => void>>();
+
+  /**
+   * 监听事件
+   *
+   * @returns 取消监听函数
+   */
+  on<K extends keyof KlineEventMap>(event: K, listener: KlineEventListener<K>): () => void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener);
+    return () => {
+      set.delete(listener);
+    };
+  }
+
+  /**
+   * 触发事件（监听器抛出的异常不会影响其他监听器和调用方）
+   */
+  emit<K extends keyof KlineEventMap>(event: K, data: KlineEventMap[K]): void {
+    this.listeners.get(event)?.forEach((listener) => {
+      try {
+        (listener as KlineEventListener<K>)(data);
+      } catch (error) {
+        console.error(`[KlineEvents] Listener error for ${event}:`, error);
+      }
+    });
+  }
+}
+
+/**
+ * 全局事件总线实例
+ */
+export const klineEvents = new KlineEventEmitter();
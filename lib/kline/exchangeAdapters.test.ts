@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { parseOKXCandle, parseOKXCandles } from './OKXDataSource';
+import { parseBybitKlines, parseBybitStreamKline } from './BybitDataSource';
+import { parseCoinbaseCandles } from './CoinbaseDataSource';
+import { DataSourceError } from './types';
+import {
+  BYBIT_KLINE_MESSAGE,
+  BYBIT_KLINE_RESPONSE,
+  COINBASE_CANDLES_RESPONSE,
+  EXPECTED_CANDLES,
+  FIXTURE_INTERVAL_MS,
+  OKX_CANDLES_RESPONSE,
+} from './__fixtures__/exchangeKlines';
+
+describe('exchange kline adapters', () => {
+  it('maps OKX candles (newest first, string values) onto ascending candles', () => {
+    const candles = parseOKXCandles(OKX_CANDLES_RESPONSE);
+    expect(candles).toEqual(
+      EXPECTED_CANDLES.map((candle, i) => ({
+        ...candle,
+        // volCcyQuote
+        quoteVolume: [528546.41, 348922.17][i],
+      }))
+    );
+  });
+
+  it('reads the OKX confirm flag as isClosed', () => {
+    const row = [...OKX_CANDLES_RESPONSE.data[0]];
+    row[8] = '0';
+    expect(parseOKXCandle(row)?.isClosed).toBe(false);
+  });
+
+  it('maps Bybit klines (newest first, string values) onto ascending candles', () => {
+    const candles = parseBybitKlines(BYBIT_KLINE_RESPONSE, FIXTURE_INTERVAL_MS);
+    expect(candles).toEqual(
+      EXPECTED_CANDLES.map((candle, i) => ({
+        ...candle,
+        // turnover
+        quoteVolume: [528546.41, 348922.17][i],
+      }))
+    );
+  });
+
+  it('maps the Bybit kline push onto the same candle', () => {
+    const candle = parseBybitStreamKline(BYBIT_KLINE_MESSAGE.data![0]);
+    expect(candle).toEqual({ ...EXPECTED_CANDLES[1], quoteVolume: 348922.17 });
+  });
+
+  it('maps Coinbase candles ([time, low, high, open, close, volume]) onto ascending candles', () => {
+    const candles = parseCoinbaseCandles(COINBASE_CANDLES_RESPONSE, FIXTURE_INTERVAL_MS);
+    expect(candles).toEqual(
+      EXPECTED_CANDLES.map((candle) => ({
+        ...candle,
+        // Coinbase 不提供成交额，按收盘价估算
+        quoteVolume: candle.volume * candle.close,
+      }))
+    );
+  });
+
+  it('rejects error responses with typed codes', () => {
+    expect(() => parseOKXCandles({ code: '51001', msg: 'Instrument ID does not exist', data: [] })).toThrow(
+      expect.objectContaining({ code: 'INVALID_SYMBOL' })
+    );
+    expect(() =>
+      parseBybitKlines({ retCode: 10001, retMsg: 'params error', result: { list: [] } }, FIXTURE_INTERVAL_MS)
+    ).toThrow(expect.objectContaining({ code: 'INVALID_PARAMETER' }));
+    expect(() => parseCoinbaseCandles({ message: 'NotFound' }, FIXTURE_INTERVAL_MS)).toThrow(DataSourceError);
+  });
+});
@@ -0,0 +1,262 @@
+import * as s from './schema';
+import { DataSourceError } from './types';
+import { RequestScheduler } from './RequestScheduler';
+import { DEFAULT_RETRY_POLICY } from './RetryPolicy';
+import { abortableDelay } from './abort';
+import { MessageQuarantine } from './quarantine';
+import { getBinanceEndpoints, subscribeBinanceEndpoints } from './endpoints';
+import { toExchangeSymbol } from './symbols';
+import { BINANCE_RATE_LIMIT } from './BinanceDataSource';
+import type { ExchangeInfoResponse, ExchangeSymbol, SymbolFilter } from '@/types/binance';
+
+/**
+ * 交易对的交易规则和精度
+ *
+ * 价格、数量相关字段保留交易所返回的十进制字符串，避免浮点误差
+ */
+export interface SymbolInfo {
+  /** Binance 交易对，例如 BTCUSDT */
+  symbol: string;
+  /** 交易状态，例如 TRADING */
+  status: string;
+  baseAsset: string;
+  quoteAsset: string;
+  /** 基础资产精度（小数位数） */
+  baseAssetPrecision: number;
+  /** 计价资产精度（小数位数） */
+  quoteAssetPrecision: number;
+  /** PRICE_FILTER：价格最小变动单位 */
+  tickSize: string;
+  minPrice: string;
+  maxPrice: string;
+  /** LOT_SIZE：数量最小变动单位 */
+  stepSize: string;
+  minQty: string;
+  maxQty: string;
+  /** NOTIONAL / MIN_NOTIONAL：最小下单金额（计价资产） */
+  minNotional?: string;
+}
+
+/** /exchangeInfo 全量请求权重 */
+const EXCHANGE_INFO_WEIGHT = 20;
+/** 交易规则缓存时间：1 小时 */
+const CACHE_EXPIRY = 60 * 60 * 1000;
+
+const exchangeInfoSchema = s.object<ExchangeInfoResponse>({
+  serverTime: s.number,
+  symbols: s.arrayOf(
+    s.object<ExchangeSymbol>({
+      symbol: s.string,
+      status: s.string,
+      baseAsset: s.string,
+      baseAssetPrecision: s.number,
+      quoteAsset: s.string,
+      quoteAssetPrecision: s.number,
+      filters: s.arrayOf(s.object<SymbolFilter>({ filterType: s.string })),
+    })
+  ),
+});
+
+const priceFilterSchema = s.object<{ tickSize: string; minPrice: string; maxPrice: string }>({
+  tickSize: s.decimal,
+  minPrice: s.decimal,
+  maxPrice: s.decimal,
+});
+
+const lotSizeSchema = s.object<{ stepSize: string; minQty: string; maxQty: string }>({
+  stepSize: s.decimal,
+  minQty: s.decimal,
+  maxQty: s.decimal,
+});
+
+const notionalSchema = s.object<{ minNotional: string }>({ minNotional: s.decimal });
+
+/**
+ * 提取交易对的过滤器；缺少 PRICE_FILTER 或 LOT_SIZE 时返回 null
+ */
+function toSymbolInfo(raw: ExchangeSymbol): SymbolInfo | null {
+  const find = (type: string) => raw.filters.find((filter) => filter.filterType === type);
+
+  const price = s.check(priceFilterSchema, find('PRICE_FILTER'));
+  const lot = s.check(lotSizeSchema, find('LOT_SIZE'));
+  if (!price.ok || !lot.ok) return null;
+
+  // 现货已用 NOTIONAL 取代 MIN_NOTIONAL，两者都兼容
+  const notional = s.check(notionalSchema, find('NOTIONAL') ?? find('MIN_NOTIONAL'));
+
+  return {
+    symbol: raw.symbol,
+    status: raw.status,
+    baseAsset: raw.baseAsset,
+    quoteAsset: raw.quoteAsset,
+    baseAssetPrecision: raw.baseAssetPrecision,
+    quoteAssetPrecision: raw.quoteAssetPrecision,
+    ...price.value,
+    ...lot.value,
+    minNotional: notional.ok ? notional.value.minNotional : undefined,
+  };
+}
+
+/**
+ * 转换为 Binance 交易对写法，无法识别计价资产时按原样大写
+ */
+function toBinanceSymbol(symbol: string): string {
+  try {
+    return toExchangeSymbol(symbol, 'binance');
+  } catch {
+    return symbol.trim().toUpperCase();
+  }
+}
+
+/**
+ * 交易规则服务（单例模式）
+ *
+ * 功能特性：
+ * - 一次性加载 /exchangeInfo 并缓存 1 小时，并发请求共用同一次加载
+ * - 解析 PRICE_FILTER、LOT_SIZE、NOTIONAL（MIN_NOTIONAL）过滤器和资产精度
+ * - 请求经过 RequestScheduler 限频，网络错误按 RetryPolicy 重试
+ * - 切换 Binance 接口地址后自动失效
+ *
+ * @example
+ * ```ts
+ * const info = await ExchangeInfoService.getInstance().getSymbolInfo('btcusdt');
+ * info.tickSize; // '0.01000000'
+ * ```
+ */
+export class ExchangeInfoService {
+  private static instance: ExchangeInfoService;
+  private symbols: Map<string, SymbolInfo> | null = null;
+  private loadedAt = 0;
+  // 进行中的加载（并发调用共用）
+  private pending: Promise<Map<string, SymbolInfo>> | null = null;
+
+  private constructor() {
+    subscribeBinanceEndpoints(() => this.clear());
+  }
+
+  static getInstance(): ExchangeInfoService {
+    if (!ExchangeInfoService.instance) {
+      ExchangeInfoService.instance = new ExchangeInfoService();
+    }
+    return ExchangeInfoService.instance;
+  }
+
+  /**
+   * 加载全部交易对的交易规则（命中缓存时直接返回）
+   */
+  load(): Promise<ReadonlyMap<string, SymbolInfo>> {
+    if (this.symbols && Date.now() - this.loadedAt < CACHE_EXPIRY) {
+      return Promise.resolve(this.symbols);
+    }
+
+    if (!this.pending) {
+      this.pending = this.fetchWithRetry()
+        .then((symbols) => {
+          this.symbols = symbols;
+          this.loadedAt = Date.now();
+          return symbols;
+        })
+        .finally(() => {
+          this.pending = null;
+        });
+    }
+    return this.pending;
+  }
+
+  /**
+   * 获取交易对的交易规则
+   *
+   * @throws {DataSourceError} INVALID_SYMBOL 交易对不存在时
+   */
+  async getSymbolInfo(symbol: string): Promise<SymbolInfo> {
+    const symbols = await this.load();
+    const info = symbols.get(toBinanceSymbol(symbol));
+    if (!info) {
+      throw new DataSourceError(`Unknown symbol: ${symbol}`, 'INVALID_SYMBOL');
+    }
+    return info;
+  }
+
+  /**
+   * 同步读取已缓存的交易规则（未加载时返回 undefined）
+   */
+  peek(symbol: string): SymbolInfo | undefined {
+    return this.symbols?.get(toBinanceSymbol(symbol));
+  }
+
+  /**
+   * 清空缓存，下次访问时重新加载
+   */
+  clear(): void {
+    this.symbols = null;
+    this.loadedAt = 0;
+  }
+
+  private async fetchWithRetry(): Promise<Map<string, SymbolInfo>> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.fetchExchangeInfo();
+      } catch (error) {
+        if (!DEFAULT_RETRY_POLICY.shouldRetry(error, attempt)) throw error;
+        const delay = DEFAULT_RETRY_POLICY.getDelay(attempt, error);
+        console.log(`[ExchangeInfoService] Retrying in ${delay}ms (attempt ${attempt})`);
+        await abortableDelay(delay);
+      }
+    }
+  }
+
+  private async fetchExchangeInfo(): Promise<Map<string, SymbolInfo>> {
+    const url = `${getBinanceEndpoints().restBase}/exchangeInfo`;
+
+    let response: Response;
+    try {
+      response = await RequestScheduler.getInstance().fetch(url, {
+        weight: EXCHANGE_INFO_WEIGHT,
+        policy: BINANCE_RATE_LIMIT,
+      });
+    } catch (error) {
+      if (error instanceof DataSourceError) throw error;
+      throw new DataSourceError('Network request failed', 'NETWORK_ERROR', {
+        originalError: error,
+      });
+    }
+
+    if (!response.ok) {
+      throw new DataSourceError(
+        `HTTP ${response.status}: ${response.statusText}`,
+        response.status >= 500 ? 'SERVER_ERROR' : 'HTTP_ERROR',
+        { status: response.status }
+      );
+    }
+
+    let data: unknown;
+    try {
+      data = await response.json();
+    } catch (error) {
+      throw new DataSourceError('Invalid JSON response', 'INVALID_FORMAT', { originalError: error });
+    }
+
+    const result = s.check(exchangeInfoSchema, data);
+    if (!result.ok) {
+      const { path, message } = result.issue;
+      MessageQuarantine.getInstance().report({
+        reason: 'malformed',
+        source: 'ExchangeInfoService',
+        stream: '/exchangeInfo',
+        path,
+        message,
+        payload: data,
+      });
+      throw new DataSourceError(`Invalid exchange info at ${path}: ${message}`, 'PARSE_ERROR');
+    }
+
+    const symbols = new Map<string, SymbolInfo>();
+    for (const raw of result.value.symbols) {
+      const info = toSymbolInfo(raw);
+      if (info) symbols.set(info.symbol, info);
+    }
+
+    console.log(`[ExchangeInfoService] Loaded ${symbols.size} symbols`);
+    return symbols;
+  }
+}
@@ -0,0 +1,137 @@
+import { describe, expect, it, vi } from 'vitest';
+import { UTCTimestamp } from 'lightweight-charts';
+import { fetchPaginatedRange, KlinePageRange, splitTimeRange } from './fetchRange';
+import { DataSourceError, KlineCandle } from './types';
+
+const MINUTE = 60 * 1000;
+const T0 = Date.parse('2024-01-01T00:00:00Z');
+
+function candleAt(ms: number): KlineCandle {
+  return {
+    time: (ms / 1000) as UTCTimestamp,
+    open: 1,
+    high: 1,
+    low: 1,
+    close: 1,
+    volume: 1,
+    quoteVolume: 1,
+    isClosed: true,
+  };
+}
+
+/** 模拟交易所单页接口：返回范围内每分钟一根 K 线，并额外重复上一页的最后一根 */
+function minutePages({ startTime, endTime }: KlinePageRange): KlineCandle[] {
+  const candles: KlineCandle[] = [];
+  for (let time = Math.max(T0, startTime - MINUTE); time <= endTime; time += MINUTE) {
+    candles.push(candleAt(time));
+  }
+  return candles;
+}
+
+describe('splitTimeRange', () => {
+  it('starts at the first open time inside the range and splits by page size', () => {
+    const pages = splitTimeRange(T0 + 30 * 1000, T0 + 25 * MINUTE, '1m', 10);
+
+    expect(pages).toEqual([
+      { startTime: T0 + MINUTE, endTime: T0 + 11 * MINUTE - 1 },
+      { startTime: T0 + 11 * MINUTE, endTime: T0 + 21 * MINUTE - 1 },
+      { startTime: T0 + 21 * MINUTE, endTime: T0 + 25 * MINUTE },
+    ]);
+  });
+
+  it('walks calendar months for variable length intervals', () => {
+    const pages = splitTimeRange(
+      Date.parse('2024-01-15T00:00:00Z'),
+      Date.parse('2024-06-30T00:00:00Z'),
+      '1M',
+      2
+    );
+
+    expect(pages).toEqual([
+      { startTime: Date.parse('2024-02-01T00:00:00Z'), endTime: Date.parse('2024-04-01T00:00:00Z') - 1 },
+      { startTime: Date.parse('2024-04-01T00:00:00Z'), endTime: Date.parse('2024-06-01T00:00:00Z') - 1 },
+      { startTime: Date.parse('2024-06-01T00:00:00Z'), endTime: Date.parse('2024-06-30T00:00:00Z') },
+    ]);
+  });
+});
+
+describe('fetchPaginatedRange', () => {
+  it('merges pages in order without duplicates and reports progress', async () => {
+    const onProgress = vi.fn();
+    const fetchPage = vi.fn(async (range: KlinePageRange) => minutePages(range));
+
+    const candles = await fetchPaginatedRange(
+      fetchPage,
+      '1m',
+      { startTime: T0, endTime: T0 + 49 * MINUTE, onProgress },
+      10
+    );
+
+    expect(fetchPage).toHaveBeenCalledTimes(5);
+    expect(fetchPage).toHaveBeenCalledWith(expect.objectContaining({ limit: 10 }));
+    expect(candles.map((candle) => candle.time)).toEqual(
+      Array.from({ length: 50 }, (_, i) => (T0 + i * MINUTE) / 1000)
+    );
+    expect(onProgress).toHaveBeenCalledTimes(5);
+    expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ completedPages: 5, totalPages: 5 }));
+  });
+
+  it('keeps at most `concurrency` requests in flight', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const fetchPage = async (range: KlinePageRange) => {
+      inFlight += 1;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      inFlight -= 1;
+      return minutePages(range);
+    };
+
+    await fetchPaginatedRange(fetchPage, '1m', { startTime: T0, endTime: T0 + 99 * MINUTE, concurrency: 2 }, 10);
+
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('stops issuing requests after a page fails', async () => {
+    const failure = new DataSourceError('boom', 'HTTP_ERROR');
+    const fetchPage = vi.fn(async (range: KlinePageRange) => {
+      if (range.startTime === T0) throw failure;
+      return minutePages(range);
+    });
+
+    await expect(
+      fetchPaginatedRange(fetchPage, '1m', { startTime: T0, endTime: T0 + 99 * MINUTE, concurrency: 1 }, 10)
+    ).rejects.toBe(failure);
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+  });
+
+  it('throws ABORTED and stops paging once the signal is aborted', async () => {
+    const controller = new AbortController();
+    const fetchPage = vi.fn(async (range: KlinePageRange) => {
+      controller.abort();
+      return minutePages(range);
+    });
+
+    await expect(
+      fetchPaginatedRange(
+        fetchPage,
+        '1m',
+        { startTime: T0, endTime: T0 + 99 * MINUTE, concurrency: 1, signal: controller.signal },
+        10
+      )
+    ).rejects.toMatchObject({ code: 'ABORTED' });
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects empty ranges and invalid concurrency', async () => {
+    const fetchPage = vi.fn(async () => []);
+
+    await expect(fetchPaginatedRange(fetchPage, '1m', { startTime: T0, endTime: T0 }, 10)).rejects.toMatchObject({
+      code: 'INVALID_PARAMETER',
+    });
+    await expect(
+      fetchPaginatedRange(fetchPage, '1m', { startTime: T0, endTime: T0 + MINUTE, concurrency: 0 }, 10)
+    ).rejects.toMatchObject({ code: 'INVALID_PARAMETER' });
+    expect(fetchPage).not.toHaveBeenCalled();
+  });
+});
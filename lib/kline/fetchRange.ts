@@ -0,0 +1,122 @@
+import { KlineCandle, KlineInterval, KlineRangeOptions, DataSourceError } from './types';
+import { throwIfAborted } from './abort';
+import {
+  alignToInterval,
+  intervalToMs,
+  isFixedLengthInterval,
+  nextIntervalTime,
+} from './intervals';
+
+/**
+ * 单页请求的时间范围（闭区间，毫秒）
+ */
+export interface KlinePageRange {
+  startTime: number;
+  endTime: number;
+}
+
+const DEFAULT_CONCURRENCY = 3;
+
+/**
+ * 将 [startTime, endTime] 拆分为每页最多 pageSize 根 K 线的时间段
+ *
+ * 页边界落在 K 线开盘时间上，保证相邻页不重叠、不遗漏。
+ */
+export function splitTimeRange(
+  startTime: number,
+  endTime: number,
+  interval: KlineInterval,
+  pageSize: number
+): KlinePageRange[] {
+  let cursor = alignToInterval(startTime, interval);
+  if (cursor < startTime) cursor = nextIntervalTime(cursor, interval);
+
+  const pages: KlinePageRange[] = [];
+
+  // 固定时长周期直接按跨度计算，避免逐根推进
+  if (isFixedLengthInterval(interval)) {
+    const span = intervalToMs(interval) * pageSize;
+    for (; cursor <= endTime; cursor += span) {
+      pages.push({ startTime: cursor, endTime: Math.min(cursor + span - 1, endTime) });
+    }
+    return pages;
+  }
+
+  while (cursor <= endTime) {
+    let next = cursor;
+    for (let i = 0; i < pageSize && next <= endTime; i++) {
+      next = nextIntervalTime(next, interval);
+    }
+    pages.push({ startTime: cursor, endTime: Math.min(next - 1, endTime) });
+    cursor = next;
+  }
+  return pages;
+}
+
+/**
+ * 分页拉取任意长度时间范围的 K 线
+ *
+ * - 并发控制：最多 concurrency 个请求同时进行（限频由 RequestScheduler 兜底）
+ * - 合并去重：按开盘时间去重，返回按时间升序排列的结果
+ * - 进度回调：每完成一页回调一次
+ * - 失败处理：任一页失败后不再发起新请求，并抛出该错误
+ * - 取消：options.signal 取消后不再发起新请求，抛出 ABORTED
+ *
+ * @param fetchPage 获取单页数据（limit 为 pageSize）
+ */
+export async function fetchPaginatedRange(
+  fetchPage: (range: KlinePageRange & { limit: number }) => Promise<KlineCandle[]>,
+  interval: KlineInterval,
+  options: KlineRangeOptions,
+  pageSize: number
+): Promise<KlineCandle[]> {
+  const {
+    startTime,
+    endTime = Date.now(),
+    concurrency = DEFAULT_CONCURRENCY,
+    onProgress,
+    signal,
+  } = options;
+
+  if (startTime >= endTime) {
+    throw new DataSourceError('startTime must be less than endTime', 'INVALID_PARAMETER');
+  }
+  if (concurrency < 1) {
+    throw new DataSourceError('concurrency must be at least 1', 'INVALID_PARAMETER');
+  }
+
+  const pages = splitTimeRange(startTime, endTime, interval, pageSize);
+  const results: KlineCandle[][] = new Array(pages.length);
+  let nextPage = 0;
+  let completedPages = 0;
+  let loadedCandles = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && nextPage < pages.length) {
+      const index = nextPage++;
+      try {
+        throwIfAborted(signal);
+        results[index] = await fetchPage({ ...pages[index], limit: pageSize });
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+
+      completedPages += 1;
+      loadedCandles += results[index].length;
+      onProgress?.({ completedPages, totalPages: pages.length, loadedCandles });
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, pages.length) }, () => worker())
+  );
+  throwIfAborted(signal);
+
+  // 合并去重（相邻页的边界 K 线可能重复返回）
+  const byTime = new Map<number, KlineCandle>();
+  results.forEach((page) => page.forEach((candle) => byTime.set(candle.time, candle)));
+
+  return [...byTime.values()].sort((a, b) => a.time - b.time);
+}
@@ -0,0 +1,116 @@
+import Decimal from 'decimal.js';
+import { PriceFormatBuiltIn } from 'lightweight-charts';
+import type { SymbolInfo } from './exchangeInfo';
+
+/**
+ * 交易规则未加载时使用的默认步长（与 BTCUSDT 一致）
+ */
+const DEFAULT_TICK_SIZE = '0.01';
+const DEFAULT_STEP_SIZE = '0.00001';
+const DEFAULT_BASE_PRECISION = 8;
+const DEFAULT_QUOTE_PRECISION = 8;
+
+/**
+ * 步长对应的小数位数，例如 '0.01000000' -> 2、'1.00000000' -> 0
+ */
+export function decimalsFromStep(step: string): number {
+  const value = new Decimal(step);
+  return value.isZero() ? 0 : value.decimalPlaces();
+}
+
+/**
+ * 按交易对精度格式化价格、数量和金额
+ */
+export interface SymbolFormatter {
+  /** 价格小数位数（由 tickSize 决定） */
+  pricePrecision: number;
+  /** 数量小数位数（由 stepSize 决定） */
+  quantityPrecision: number;
+  /** 金额显示小数位数（计价资产，与价格精度一致，只用于显示） */
+  quotePrecision: number;
+  /** 计价资产余额和成交额的记账小数位数（由 quoteAssetPrecision 决定） */
+  quoteBalancePrecision: number;
+  /** 基础资产余额小数位数（由 baseAssetPrecision 决定） */
+  basePrecision: number;
+  /** 格式化价格 */
+  formatPrice(value: Decimal.Value): string;
+  /** 格式化数量 */
+  formatQuantity(value: Decimal.Value): string;
+  /** 格式化计价资产金额（显示用） */
+  formatQuote(value: Decimal.Value): string;
+  /** 按记账精度格式化计价资产余额和成交额 */
+  formatQuoteBalance(value: Decimal.Value): string;
+  /** 格式化基础资产余额 */
+  formatBase(value: Decimal.Value): string;
+  /** 按 tickSize 取整（四舍五入） */
+  roundPrice(value: Decimal.Value): string;
+  /** 按 stepSize 向下取整（保证不超过可用余额） */
+  roundQuantity(value: Decimal.Value): string;
+  /** lightweight-charts 价格轴格式 */
+  priceFormat: PriceFormatBuiltIn;
+}
+
+/**
+ * 格式化数值，无法解析时返回 '---'
+ */
+function formatFixed(value: Decimal.Value, precision: number): string {
+  try {
+    return new Decimal(value).toFixed(precision);
+  } catch {
+    return '---';
+  }
+}
+
+/**
+ * 根据交易规则创建格式化器（未传入时使用默认精度）
+ *
+ * @example
+ * ```ts
+ * const formatter = createSymbolFormatter(info);
+ * formatter.formatPrice('64123.45000000'); // '64123.45'
+ * formatter.roundQuantity('0.123456789'); // '0.12345'
+ * ```
+ */
+export function createSymbolFormatter(info?: SymbolInfo | null): SymbolFormatter {
+  const tickSize = new Decimal(info?.tickSize ?? DEFAULT_TICK_SIZE);
+  const stepSize = new Decimal(info?.stepSize ?? DEFAULT_STEP_SIZE);
+  const pricePrecision = decimalsFromStep(tickSize.toString());
+  const quantityPrecision = decimalsFromStep(stepSize.toString());
+  const quotePrecision = info
+    ? Math.min(pricePrecision, info.quoteAssetPrecision)
+    : pricePrecision;
+  // tickSize 是价格步长，不是余额精度：记账按计价资产自身精度，避免每笔成交产生舍入误差
+  const quoteBalancePrecision = info?.quoteAssetPrecision ?? DEFAULT_QUOTE_PRECISION;
+  const basePrecision = info?.baseAssetPrecision ?? DEFAULT_BASE_PRECISION;
+
+  return {
+    pricePrecision,
+    quantityPrecision,
+    quotePrecision,
+    quoteBalancePrecision,
+    basePrecision,
+    formatPrice: (value) => formatFixed(value, pricePrecision),
+    formatQuantity: (value) => formatFixed(value, quantityPrecision),
+    formatQuote: (value) => formatFixed(value, quotePrecision),
+    formatQuoteBalance: (value) => formatFixed(value, quoteBalancePrecision),
+    formatBase: (value) => formatFixed(value, basePrecision),
+    roundPrice: (value) =>
+      new Decimal(value)
+        .toNearest(tickSize, Decimal.ROUND_HALF_UP)
+        .toFixed(pricePrecision),
+    roundQuantity: (value) =>
+      new Decimal(value)
+        .toNearest(stepSize, Decimal.ROUND_DOWN)
+        .toFixed(quantityPrecision),
+    priceFormat: {
+      type: 'price',
+      precision: pricePrecision,
+      minMove: tickSize.toNumber(),
+    },
+  };
+}
+
+/**
+ * 默认格式化器（交易规则加载前使用）
+ */
+export const DEFAULT_SYMBOL_FORMATTER = createSymbolFormatter();
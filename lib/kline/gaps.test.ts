@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { UTCTimestamp } from 'lightweight-charts';
+import { findGap, mergeCandles } from './gaps';
+import { KlineCandle } from './types';
+
+const T0 = Date.parse('2024-01-01T00:00:00Z') / 1000;
+const MIN = 60;
+
+function candle(time: number, close: number): KlineCandle {
+  return {
+    time: time as UTCTimestamp,
+    open: close,
+    high: close,
+    low: close,
+    close,
+    volume: 1,
+    quoteVolume: close,
+    isClosed: true,
+  };
+}
+
+describe('findGap', () => {
+  it('returns null for the same or the adjacent candle', () => {
+    expect(findGap(T0, T0, '1m')).toBeNull();
+    expect(findGap(T0, T0 + MIN, '1m')).toBeNull();
+  });
+
+  it('covers the last known candle up to the first pushed one', () => {
+    expect(findGap(T0, T0 + 5 * MIN, '1m')).toEqual({
+      startTime: T0 * 1000,
+      endTime: (T0 + 5 * MIN) * 1000 - 1,
+    });
+  });
+
+  it('uses calendar months for monthly candles', () => {
+    // 1 月有 31 天，按 30 天估算会误判为缺口
+    const jan = Date.parse('2024-01-01T00:00:00Z') / 1000;
+    const feb = Date.parse('2024-02-01T00:00:00Z') / 1000;
+    const mar = Date.parse('2024-03-01T00:00:00Z') / 1000;
+
+    expect(findGap(jan, feb, '1M')).toBeNull();
+    expect(findGap(jan, mar, '1M')).toEqual({ startTime: jan * 1000, endTime: mar * 1000 - 1 });
+  });
+});
+
+describe('mergeCandles', () => {
+  it('sorts by time and lets incoming candles replace existing ones', () => {
+    const base = [candle(T0, 1), candle(T0 + MIN, 2), candle(T0 + 4 * MIN, 5)];
+    const incoming = [candle(T0 + 3 * MIN, 4), candle(T0 + MIN, 20), candle(T0 + 2 * MIN, 3)];
+
+    const merged = mergeCandles(base, incoming);
+
+    expect(merged.map((c) => [c.time - T0, c.close])).toEqual([
+      [0, 1],
+      [MIN, 20],
+      [2 * MIN, 3],
+      [3 * MIN, 4],
+      [4 * MIN, 5],
+    ]);
+    expect(base).toHaveLength(3);
+  });
+});
@@ -0,0 +1,40 @@
+import { KlineCandle, KlineInterval } from './types';
+import { nextIntervalTime } from './intervals';
+
+/**
+ * 推送中断造成的 K 线缺口（闭区间，毫秒）
+ */
+export interface KlineGap {
+  /** 最后一根已知 K 线的开盘时间（断线时可能尚未收盘，需要一起刷新） */
+  startTime: number;
+  /** 恢复后第一根 K 线开盘时间的前一毫秒 */
+  endTime: number;
+}
+
+/**
+ * 检测最后一根已知 K 线与新推送 K 线之间是否缺失了 K 线
+ *
+ * @param lastTime 最后一根已知 K 线的开盘时间（秒）
+ * @param nextTime 新推送 K 线的开盘时间（秒）
+ * @returns 需要补齐的时间范围；相邻或同一根 K 线时返回 null
+ */
+export function findGap(
+  lastTime: number,
+  nextTime: number,
+  interval: KlineInterval
+): KlineGap | null {
+  const lastOpen = lastTime * 1000;
+  const nextOpen = nextTime * 1000;
+
+  if (nextOpen <= nextIntervalTime(lastOpen, interval)) return null;
+  return { startTime: lastOpen, endTime: nextOpen - 1 };
+}
+
+/**
+ * 将补齐的 K 线合并进已有数据（同一时间以补齐数据为准），返回按时间升序的新数组
+ */
+export function mergeCandles(base: KlineCandle[], incoming: KlineCandle[]): KlineCandle[] {
+  const merged = new Map(base.map((candle) => [candle.time, candle]));
+  incoming.forEach((candle) => merged.set(candle.time, candle));
+  return Array.from(merged.values()).sort((a, b) => a.time - b.time);
+}
@@ -38,6 +38,19 @@
  * }
  * ```
  *
+ * ### 注入数据源
+ * ```tsx
+ * import { KlineChartProvider, OptimizedKlineChart, OKXDataSource } from '@/lib/kline';
+ *
+ * function App() {
+ *   return (
+ *     <KlineChartProvider dataSource={new OKXDataSource({ enableCache: false })}>
+ *       <OptimizedKlineChart symbol="BTC-USDT" interval="1m" />
+ *     </KlineChartProvider>
+ *   );
+ * }
+ * ```
+ *
  * ### 作为独立库使用
  * ```tsx
  * import { createKlineChartSystem } from '@/lib/kline';
@@ -58,7 +71,12 @@
 export { OptimizedKlineChart } from '@/components/OptimizedKlineChart';
 
 // ============= Provider 和系统工厂 =============
-export { KlineChartProvider, createKlineChartSystem } from './KlineChartProvider';
+export {
+  KlineChartProvider,
+  createKlineChartSystem,
+  useKlineChartConfig,
+} from './KlineChartProvider';
+export type { KlineChartContextValue } from './KlineChartProvider';
 
 // ============= Hooks =============
 export {
@@ -66,20 +84,158 @@ export {
   useKlineSubscription,
   useKlineWithSubscription,
 } from '@/hooks/useKlineData';
+export { useSimulatedMarket } from '@/hooks/useSimulatedMarket';
+export { useSymbolInfo, useSymbolFormatter, useSymbolCatalog } from '@/hooks/useSymbolInfo';
+export { useConnectionStatus, useStreamStatus } from '@/hooks/useConnectionStatus';
 
 // ============= 类型定义 =============
 export type {
   CandlestickData,
+  KlineCandle,
   KlineInterval,
+  NativeKlineInterval,
+  CustomKlineInterval,
+  IntervalUnit,
+  KlineTimeRange,
+  KlineRangeOptions,
+  KlineRangeProgress,
   IKlineDataSource,
   KlineChartConfig,
   HeartbeatOptions,
+  CombinedStreamOptions,
+  ConnectionStatus,
+  BackgroundPolicy,
+  WebSocketLike,
+  WebSocketFactory,
+  DeliveryPolicy,
+  SubscribeOptions,
 } from './types';
 
 // ============= 数据源实现 =============
-export { BinanceDataSource } from './BinanceDataSource';
+export { BaseExchangeDataSource } from './BaseExchangeDataSource';
+export type { KlineStream, ExchangeDataSourceOptions } from './BaseExchangeDataSource';
+export {
+  BinanceDataSource,
+  BINANCE_RATE_LIMIT,
+  parseRestKline,
+  parseStreamKline,
+} from './BinanceDataSource';
+export type { BinanceDataSourceOptions } from './BinanceDataSource';
+export { ProxyDataSource } from './ProxyDataSource';
+export type { ProxyDataSourceOptions } from './ProxyDataSource';
+export { OKXDataSource, parseOKXCandle, parseOKXCandles } from './OKXDataSource';
+export { BybitDataSource, parseBybitKline, parseBybitKlines, parseBybitStreamKline } from './BybitDataSource';
+export {
+  CoinbaseDataSource,
+  parseCoinbaseCandle,
+  parseCoinbaseCandles,
+  createMatchAggregator,
+} from './CoinbaseDataSource';
+export { createDataSource } from './createDataSource';
+export { SimulatedDataSource } from './SimulatedDataSource';
+export type { SimulatedDataSourceOptions } from './SimulatedDataSource';
+export { MarketSimulator } from './MarketSimulator';
+export type { MarketSimulatorOptions } from './MarketSimulator';
 export { WebSocketManager } from './WebSocketManager';
+export type { WebSocketManagerOptions } from './WebSocketManager';
+export { WorkerTransport } from './WorkerTransport';
+export { InlineMarketDataFeed, getMarketDataFeed } from './MarketDataFeed';
+export type {
+  MarketDataFeed,
+  StreamFeedRequest,
+  OrderBookFeedRequest,
+  TradeFeedRequest,
+  KlineFeedRequest,
+} from './MarketDataFeed';
+export { createOrderBookBuilder, createTradeTape } from './marketSnapshots';
+export type {
+  OrderBookDepthLevel,
+  OrderBookSnapshot,
+  TradeTick,
+  TradeSnapshot,
+} from './marketSnapshots';
+export {
+  createDelivery,
+  scheduleFrame,
+  isSameCandle,
+  LatestValue,
+  RAF_DELIVERY,
+  EVERY_DELIVERY,
+} from './delivery';
+export type { Delivery } from './delivery';
+export { getWebSocketTransport, configureWebSocketTransport } from './transport';
+export { createSseWebSocketFactory } from './sseTransport';
+export type { SseRelayOptions } from './sseTransport';
+export type { WebSocketTransport, WebSocketTransportMode } from './transport';
 export { DataCache } from './DataCache';
+export { RequestScheduler, isRateLimitError } from './RequestScheduler';
+export type { RateLimitPolicy, RateLimitStatus, ScheduledRequestOptions } from './RequestScheduler';
+
+// ============= 交易对与周期 =============
+export { parseSymbol, formatSymbol, toExchangeSymbol, toDisplaySymbol } from './symbols';
+export type { ExchangeId, MarketSymbol } from './symbols';
+export {
+  NATIVE_INTERVALS,
+  parseInterval,
+  isNativeInterval,
+  isFixedLengthInterval,
+  intervalToMs,
+  alignToInterval,
+  nextIntervalTime,
+  previousIntervalTime,
+  pickSourceInterval,
+} from './intervals';
+export { resampleCandles, createCandleResampler } from './resample';
+export { splitTimeRange, fetchPaginatedRange } from './fetchRange';
+export { isAbortError, throwIfAborted, abortableDelay } from './abort';
+export {
+  RetryPolicy,
+  DEFAULT_RETRY_POLICY,
+  WEBSOCKET_RETRY_POLICY,
+  shouldRetryQuery,
+} from './RetryPolicy';
+export type { RetryPolicyOptions, RetryRule } from './RetryPolicy';
+export { getErrorMessage } from './errors';
+export type { KlinePageRange } from './fetchRange';
+export {
+  createCandleTransform,
+  averageTrueRange,
+  isTimeBasedChartType,
+} from './transforms';
+export type {
+  ChartType,
+  CandleTransform,
+  CandleTransformOptions,
+  TransformUpdate,
+} from './transforms';
+export { ExchangeInfoService } from './exchangeInfo';
+export type { SymbolInfo } from './exchangeInfo';
+export { createSymbolFormatter, decimalsFromStep, DEFAULT_SYMBOL_FORMATTER } from './format';
+export type { SymbolFormatter } from './format';
+export { searchSymbols } from './symbolSearch';
+export type { SymbolSearchOptions } from './symbolSearch';
+export { parseBinanceMessage, parseBinanceText } from './binanceSchemas';
+export type { BinanceStreamMessage, MessageContext } from './binanceSchemas';
+export { check } from './schema';
+export type { Validator, SchemaIssue } from './schema';
+export { StreamMetricsRecorder } from './streamMetrics';
+export type { StreamMetrics, ConnectionMetrics, ConnectionHistoryEntry } from './streamMetrics';
+export { MessageQuarantine } from './quarantine';
+export type { QuarantinedMessage, QuarantineReason } from './quarantine';
+export { findGap, mergeCandles } from './gaps';
+export type { KlineGap } from './gaps';
+export { klineEvents } from './events';
+export type { KlineEventMap, DataRepairEvent } from './events';
+export {
+  BINANCE_ENDPOINT_PRESETS,
+  getBinanceEndpoints,
+  setBinanceEndpoints,
+  subscribeBinanceEndpoints,
+  binanceStreamUrl,
+  binanceCombinedStreamUrl,
+} from './endpoints';
+export type { BinanceEndpoints, BinanceEndpointPreset } from './endpoints';
 
 // ============= 错误类型 =============
 export { DataSourceError } from './types';
+export type { DataSourceErrorCode, DataSourceErrorDetails } from './types';
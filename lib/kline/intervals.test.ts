@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import {
+  alignToInterval,
+  isFixedLengthInterval,
+  nextIntervalTime,
+  parseInterval,
+  pickSourceInterval,
+  previousIntervalTime,
+} from './intervals';
+import { DataSourceError, KlineInterval } from './types';
+
+const at = (iso: string) => Date.parse(iso);
+
+describe('parseInterval', () => {
+  it('parses the value and unit', () => {
+    expect(parseInterval('45m')).toEqual({ value: 45, unit: 'm' });
+    expect(parseInterval('1M')).toEqual({ value: 1, unit: 'M' });
+  });
+
+  it.each(['', '0m', '01h', '15', 'm', '1y', '1.5h'])('rejects %j', (interval) => {
+    expect(() => parseInterval(interval as KlineInterval)).toThrow(DataSourceError);
+  });
+});
+
+describe('alignToInterval', () => {
+  it('aligns weeks to Monday 00:00 UTC', () => {
+    // 2024-01-03 是周三
+    expect(alignToInterval(at('2024-01-03T12:00:00Z'), '1w')).toBe(at('2024-01-01T00:00:00Z'));
+    expect(alignToInterval(at('2024-01-07T23:59:59Z'), '1w')).toBe(at('2024-01-01T00:00:00Z'));
+    expect(alignToInterval(at('2024-01-08T00:00:00Z'), '1w')).toBe(at('2024-01-08T00:00:00Z'));
+  });
+
+  it('aligns months to calendar months counted from 1970-01', () => {
+    expect(alignToInterval(at('2024-02-29T23:00:00Z'), '1M')).toBe(at('2024-02-01T00:00:00Z'));
+    expect(alignToInterval(at('2024-05-15T00:00:00Z'), '3M')).toBe(at('2024-04-01T00:00:00Z'));
+    expect(alignToInterval(at('2024-12-31T00:00:00Z'), '6M')).toBe(at('2024-07-01T00:00:00Z'));
+  });
+
+  it('restarts intraday intervals that do not divide a day at each UTC day', () => {
+    expect(alignToInterval(at('2024-01-01T23:50:00Z'), '50m')).toBe(at('2024-01-01T23:20:00Z'));
+    expect(alignToInterval(at('2024-01-02T00:10:00Z'), '50m')).toBe(at('2024-01-02T00:00:00Z'));
+    expect(alignToInterval(at('2024-01-02T22:00:00Z'), '7h')).toBe(at('2024-01-02T21:00:00Z'));
+  });
+
+  it('aligns intervals that divide a day to the epoch', () => {
+    expect(alignToInterval(at('2024-01-01T05:59:59Z'), '4h')).toBe(at('2024-01-01T04:00:00Z'));
+    expect(alignToInterval(at('2024-01-01T00:14:00Z'), '15m')).toBe(at('2024-01-01T00:00:00Z'));
+  });
+});
+
+describe('nextIntervalTime', () => {
+  it('advances months by calendar month', () => {
+    expect(nextIntervalTime(at('2024-01-01T00:00:00Z'), '1M')).toBe(at('2024-02-01T00:00:00Z'));
+    expect(nextIntervalTime(at('2024-10-01T00:00:00Z'), '3M')).toBe(at('2025-01-01T00:00:00Z'));
+  });
+
+  it('caps the last intraday candle of the day at midnight', () => {
+    expect(nextIntervalTime(at('2024-01-01T23:20:00Z'), '50m')).toBe(at('2024-01-02T00:00:00Z'));
+    expect(nextIntervalTime(at('2024-01-02T21:00:00Z'), '7h')).toBe(at('2024-01-03T00:00:00Z'));
+    expect(nextIntervalTime(at('2024-01-01T00:00:00Z'), '50m')).toBe(at('2024-01-01T00:50:00Z'));
+  });
+});
+
+describe('previousIntervalTime', () => {
+  it('steps back across month and day boundaries', () => {
+    expect(previousIntervalTime(at('2024-03-01T00:00:00Z'), '1M')).toBe(at('2024-02-01T00:00:00Z'));
+    expect(previousIntervalTime(at('2024-01-02T00:00:00Z'), '50m')).toBe(at('2024-01-01T23:20:00Z'));
+    expect(previousIntervalTime(at('2024-01-08T00:00:00Z'), '1w')).toBe(at('2024-01-01T00:00:00Z'));
+  });
+});
+
+describe('isFixedLengthInterval', () => {
+  it('excludes months and intraday intervals that do not divide a day', () => {
+    expect(isFixedLengthInterval('15m')).toBe(true);
+    expect(isFixedLengthInterval('2d')).toBe(true);
+    expect(isFixedLengthInterval('45m')).toBe(true);
+    expect(isFixedLengthInterval('50m')).toBe(false);
+    expect(isFixedLengthInterval('1M')).toBe(false);
+  });
+});
+
+describe('pickSourceInterval', () => {
+  it('picks the largest aligned native interval', () => {
+    expect(pickSourceInterval('45m', ['1m', '5m', '15m', '30m', '1h'])).toBe('15m');
+    expect(pickSourceInterval('2w', ['1d', '3d', '1w'])).toBe('1w');
+    expect(pickSourceInterval('3M', ['1d', '1w', '1M'])).toBe('1M');
+  });
+
+  it('throws UNSUPPORTED_INTERVAL when nothing aligns', () => {
+    expect(() => pickSourceInterval('45m', ['1h'])).toThrow(
+      expect.objectContaining({ code: 'UNSUPPORTED_INTERVAL' })
+    );
+  });
+});
@@ -0,0 +1,204 @@
+import {
+  KlineInterval,
+  NativeKlineInterval,
+  IntervalUnit,
+  DataSourceError,
+} from './types';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+const WEEK = 7 * DAY;
+
+/**
+ * 各单位对应的毫秒数（月为 30 天的名义时长，仅用于估算）
+ */
+const UNIT_MS: Record<IntervalUnit, number> = {
+  s: SECOND,
+  m: MINUTE,
+  h: HOUR,
+  d: DAY,
+  w: WEEK,
+  M: 30 * DAY,
+};
+
+// 1970-01-01 是周四，周线按周一 00:00 UTC 对齐（与 Binance 一致）
+const WEEK_OFFSET = 4 * DAY;
+
+/**
+ * Binance 原生支持的全部周期（按时长升序）
+ */
+export const NATIVE_INTERVALS: readonly NativeKlineInterval[] = [
+  '1s',
+  '1m',
+  '3m',
+  '5m',
+  '15m',
+  '30m',
+  '1h',
+  '2h',
+  '4h',
+  '6h',
+  '8h',
+  '12h',
+  '1d',
+  '3d',
+  '1w',
+  '1M',
+];
+
+/**
+ * 解析周期字符串，例如 '45m' -> { value: 45, unit: 'm' }
+ *
+ * @throws {DataSourceError} 格式无效时
+ */
+export function parseInterval(interval: KlineInterval): { value: number; unit: IntervalUnit } {
+  const match = /^([1-9]\d*)([smhdwM])$/.exec(interval);
+  if (!match) {
+    throw new DataSourceError(`Invalid interval: ${interval}`, 'INVALID_PARAMETER');
+  }
+  return { value: Number(match[1]), unit: match[2] as IntervalUnit };
+}
+
+/**
+ * 是否为交易所原生周期（否则需要在客户端重采样）
+ */
+export function isNativeInterval(interval: KlineInterval): interval is NativeKlineInterval {
+  return (NATIVE_INTERVALS as readonly string[]).includes(interval);
+}
+
+/**
+ * 获取 K 线周期的毫秒数
+ *
+ * 月线返回 30 天的名义时长，仅适合估算条数；计算 K 线边界请使用 alignToInterval / nextIntervalTime。
+ */
+export function intervalToMs(interval: KlineInterval): number {
+  const { value, unit } = parseInterval(interval);
+  return value * UNIT_MS[unit];
+}
+
+/**
+ * 是否为固定时长周期（月线和不能整除一天的日内周期时长不固定）
+ */
+export function isFixedLengthInterval(interval: KlineInterval): boolean {
+  const { unit } = parseInterval(interval);
+  const ms = intervalToMs(interval);
+  return unit !== 'M' && (ms >= DAY || DAY % ms === 0);
+}
+
+/**
+ * 计算时间点所在 K 线的开盘时间（毫秒）
+ *
+ * 对齐规则：
+ * - 月线：按自然月对齐（多月周期从 1970-01 起计）
+ * - 周线：按周一 00:00 UTC 对齐
+ * - 能整除一天的周期（如 15m、4h）：按 Unix 纪元对齐
+ * - 不能整除一天的日内周期（如 50m、7h）：每个 UTC 日内重新计数，当天最后一根可能较短
+ * - 多日周期（如 2d、3d）：按 Unix 纪元对齐
+ */
+export function alignToInterval(time: number, interval: KlineInterval): number {
+  const { value, unit } = parseInterval(interval);
+
+  if (unit === 'M') {
+    const date = new Date(time);
+    const monthIndex = (date.getUTCFullYear() - 1970) * 12 + date.getUTCMonth();
+    const aligned = Math.floor(monthIndex / value) * value;
+    return Date.UTC(1970 + Math.floor(aligned / 12), aligned % 12, 1);
+  }
+
+  const ms = value * UNIT_MS[unit];
+
+  if (unit === 'w') {
+    return Math.floor((time - WEEK_OFFSET) / ms) * ms + WEEK_OFFSET;
+  }
+
+  if (ms < DAY && DAY % ms !== 0) {
+    const dayStart = Math.floor(time / DAY) * DAY;
+    return dayStart + Math.floor((time - dayStart) / ms) * ms;
+  }
+
+  return Math.floor(time / ms) * ms;
+}
+
+/**
+ * 计算 K 线的收盘边界（即下一根 K 线的开盘时间，毫秒）
+ *
+ * @param openTime 已对齐的开盘时间（毫秒）
+ */
+export function nextIntervalTime(openTime: number, interval: KlineInterval): number {
+  const { value, unit } = parseInterval(interval);
+
+  if (unit === 'M') {
+    const date = new Date(openTime);
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + value, 1);
+  }
+
+  const ms = value * UNIT_MS[unit];
+
+  if (ms < DAY && DAY % ms !== 0) {
+    const dayEnd = Math.floor(openTime / DAY) * DAY + DAY;
+    return Math.min(openTime + ms, dayEnd);
+  }
+
+  return openTime + ms;
+}
+
+/**
+ * 计算上一根 K 线的开盘时间（毫秒）
+ *
+ * @param openTime 已对齐的开盘时间（毫秒）
+ */
+export function previousIntervalTime(openTime: number, interval: KlineInterval): number {
+  return alignToInterval(openTime - 1, interval);
+}
+
+/**
+ * 源周期的每个边界是否都落在目标周期的边界上（即可以无损合成目标周期）
+ */
+function canResampleFrom(source: NativeKlineInterval, target: KlineInterval): boolean {
+  const { unit: targetUnit } = parseInterval(target);
+  const sourceMs = intervalToMs(source);
+  const targetMs = intervalToMs(target);
+
+  switch (source) {
+    case '1M':
+      return targetUnit === 'M';
+    case '1w':
+      return targetUnit === 'w' && targetMs % sourceMs === 0;
+    case '3d':
+      return targetUnit === 'd' && targetMs % sourceMs === 0;
+    default:
+      // 日内及 1d 源周期都能整除一天：日线及以上目标天然对齐，日内目标要求整除
+      if (targetUnit === 'M' || targetUnit === 'w' || targetUnit === 'd') return true;
+      return targetMs % sourceMs === 0;
+  }
+}
+
+/**
+ * 为自定义周期选择用于重采样的原生周期（可用周期中最大的、边界对齐的那个）
+ *
+ * @param supported 数据源支持的原生周期
+ * @throws {DataSourceError} 没有可用的源周期时
+ */
+export function pickSourceInterval(
+  interval: KlineInterval,
+  supported: readonly NativeKlineInterval[]
+): NativeKlineInterval {
+  const targetMs = intervalToMs(interval);
+  let best: NativeKlineInterval | null = null;
+
+  for (const source of supported) {
+    const sourceMs = intervalToMs(source);
+    if (sourceMs > targetMs || !canResampleFrom(source, interval)) continue;
+    if (!best || sourceMs > intervalToMs(best)) best = source;
+  }
+
+  if (!best) {
+    throw new DataSourceError(
+      `Interval ${interval} cannot be built from available intervals`,
+      'UNSUPPORTED_INTERVAL'
+    );
+  }
+  return best;
+}
@@ -0,0 +1,172 @@
+import Decimal from 'decimal.js';
+import type { OrderBookLevel, OrderBookUpdate, TradeData } from '@/types/binance';
+
+/** 盘口默认保留档位数 */
+const DEFAULT_ORDER_BOOK_DEPTH = 100;
+/** 成交记录默认保留条数 */
+const DEFAULT_TRADE_LIMIT = 50;
+
+/**
+ * 可直接渲染的盘口档位
+ */
+export interface OrderBookDepthLevel extends OrderBookLevel {
+  /** 累计成交额（计价资产） */
+  total: string;
+  /** 累计成交额占该侧总额的百分比（0 ~ 100） */
+  percentage: number;
+}
+
+/**
+ * 盘口快照
+ */
+export interface OrderBookSnapshot {
+  /** 买盘，价格降序 */
+  bids: OrderBookDepthLevel[];
+  /** 卖盘，价格升序；累计值按展示顺序（价格降序）计算 */
+  asks: OrderBookDepthLevel[];
+}
+
+/**
+ * 单笔成交
+ */
+export interface TradeTick {
+  id: number;
+  price: string;
+  quantity: string;
+  time: number;
+  isBuyerMaker: boolean;
+}
+
+/**
+ * 成交记录快照
+ */
+export interface TradeSnapshot {
+  /** 最近的成交（最新在前） */
+  trades: TradeTick[];
+  lastPrice: string;
+  /** 相对上一笔成交的价格方向：1 上涨，-1 下跌，0 不变 */
+  priceChange: number;
+}
+
+/**
+ * 应用增量并裁剪到 depth 档
+ *
+ * 价格按数值排序：交易所价格为有限位小数，不同价格解析后的浮点数大小关系不变
+ */
+function applyLevels(
+  levels: Map<string, string>,
+  updates: [string, string][],
+  isBid: boolean,
+  depth: number
+): OrderBookLevel[] {
+  updates.forEach(([price, quantity]) => {
+    if (Number(quantity) === 0) {
+      levels.delete(price);
+    } else {
+      levels.set(price, quantity);
+    }
+  });
+
+  const sorted = [...levels.keys()]
+    .map((price) => ({ price, value: Number(price) }))
+    .sort((a, b) => (isBid ? b.value - a.value : a.value - b.value));
+
+  // 超出 depth 的档位不再展示，直接丢弃
+  sorted.slice(depth).forEach(({ price }) => levels.delete(price));
+
+  return sorted
+    .slice(0, depth)
+    .map(({ price }) => ({ price, quantity: levels.get(price) as string }));
+}
+
+/**
+ * 计算累计成交额和百分比（按传入顺序累计）
+ */
+function withTotals(levels: OrderBookLevel[]): OrderBookDepthLevel[] {
+  let cumulative = new Decimal(0);
+  const totals = levels.map((level) => {
+    cumulative = cumulative.plus(new Decimal(level.quantity).mul(level.price));
+    return cumulative.toString();
+  });
+
+  const maxTotal = cumulative.toNumber();
+  return levels.map((level, index) => ({
+    ...level,
+    total: totals[index],
+    percentage: maxTotal > 0 ? (Number(totals[index]) / maxTotal) * 100 : 0,
+  }));
+}
+
+/**
+ * 盘口构建器：维护增量盘口并输出可渲染快照
+ *
+ * 在 Worker 中运行时，主线程只接收快照；不支持 Worker 的环境（例如测试）直接同步调用
+ *
+ * @example
+ * ```ts
+ * const book = createOrderBookBuilder(50);
+ * const snapshot = book.apply(depthUpdate);
+ * ```
+ */
+export function createOrderBookBuilder(depth = DEFAULT_ORDER_BOOK_DEPTH) {
+  const bids = new Map<string, string>();
+  const asks = new Map<string, string>();
+
+  return {
+    /**
+     * 应用一条深度增量，返回最新快照
+     */
+    apply(update: Pick<OrderBookUpdate, 'b' | 'a'>): OrderBookSnapshot {
+      const nextBids = applyLevels(bids, update.b, true, depth);
+      const nextAsks = applyLevels(asks, update.a, false, depth);
+      return {
+        bids: withTotals(nextBids),
+        asks: withTotals([...nextAsks].reverse()).reverse(),
+      };
+    },
+    reset(): void {
+      bids.clear();
+      asks.clear();
+    },
+  };
+}
+
+/**
+ * 成交记录构建器：保留最近 limit 笔成交并计算价格方向
+ */
+export function createTradeTape(limit = DEFAULT_TRADE_LIMIT) {
+  let snapshot: TradeSnapshot = { trades: [], lastPrice: '0', priceChange: 0 };
+
+  return {
+    /**
+     * 追加一笔成交，返回最新快照
+     */
+    add(data: TradeData): TradeSnapshot {
+      const trade: TradeTick = {
+        id: data.t,
+        price: data.p,
+        quantity: data.q,
+        time: data.T,
+        isBuyerMaker: data.m,
+      };
+
+      let priceChange = 0;
+      if (snapshot.lastPrice !== '0') {
+        const lastPrice = parseFloat(snapshot.lastPrice);
+        const currentPrice = parseFloat(data.p);
+        if (currentPrice > lastPrice) priceChange = 1;
+        else if (currentPrice < lastPrice) priceChange = -1;
+      }
+
+      snapshot = {
+        trades: [trade, ...snapshot.trades].slice(0, limit),
+        lastPrice: data.p,
+        priceChange,
+      };
+      return snapshot;
+    },
+    reset(): void {
+      snapshot = { trades: [], lastPrice: '0', priceChange: 0 };
+    },
+  };
+}
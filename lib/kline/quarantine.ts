@@ -0,0 +1,99 @@
+import { klineEvents } from './events';
+
+/**
+ * 被隔离的消息类型
+ *
+ * - invalid-json：无法解析的文本
+ * - malformed：结构或字段不符合预期
+ * - error-frame：交易所返回的错误帧 / 错误响应
+ */
+export type QuarantineReason = 'invalid-json' | 'malformed' | 'error-frame';
+
+/**
+ * 被隔离的消息及上下文
+ */
+export interface QuarantinedMessage {
+  reason: QuarantineReason;
+  /** 来源（数据源或 Hook 名称），例如 `BinanceDataSource` */
+  source: string;
+  /** 数据流或接口，例如 `btcusdt@trade`、`/klines` */
+  stream?: string;
+  /** 出错字段路径 */
+  path?: string;
+  /** 问题描述 */
+  message: string;
+  /** 原始消息 */
+  payload: unknown;
+  /** 收到时间（毫秒） */
+  receivedAt: number;
+}
+
+/** 最多保留的隔离消息数量 */
+const MAX_ENTRIES = 100;
+
+/**
+ * 异常消息隔离区（单例模式）
+ *
+ * 格式错误的消息不进入业务数据，统一在这里计数、保留最近的样本，
+ * 并通过 klineEvents 的 invalidMessage 事件上报。
+ *
+ * @example
+ * ```ts
+ * klineEvents.on('invalidMessage', (entry) => reportToMonitoring(entry));
+ * MessageQuarantine.getInstance().getCounts(); // { 'BinanceDataSource:malformed': 2 }
+ * ```
+ */
+export class MessageQuarantine {
+  private static instance: MessageQuarantine;
+  private entries: QuarantinedMessage[] = [];
+  // 按 `${source}:${reason}` 计数
+  private counts = new Map<string, number>();
+
+  private constructor() {}
+
+  static getInstance(): MessageQuarantine {
+    if (!MessageQuarantine.instance) {
+      MessageQuarantine.instance = new MessageQuarantine();
+    }
+    return MessageQuarantine.instance;
+  }
+
+  /**
+   * 隔离一条消息并上报
+   */
+  report(entry: Omit<QuarantinedMessage, 'receivedAt'>): void {
+    const quarantined: QuarantinedMessage = { ...entry, receivedAt: Date.now() };
+
+    this.entries.push(quarantined);
+    if (this.entries.length > MAX_ENTRIES) {
+      this.entries.shift();
+    }
+
+    const key = `${entry.source}:${entry.reason}`;
+    this.counts.set(key, (this.counts.get(key) ?? 0) + 1);
+
+    klineEvents.emit('invalidMessage', quarantined);
+  }
+
+  /**
+   * 最近隔离的消息（从旧到新）
+   */
+  getEntries(): readonly QuarantinedMessage[] {
+    return this.entries;
+  }
+
+  /**
+   * 各来源、各类型的累计数量
+   */
+  getCounts(): Record<string, number> {
+    return Object.fromEntries(this.counts);
+  }
+
+  /**
+   * 清空隔离区和计数
+   */
+  clear(): void {
+    this.entries = [];
+    this.counts.clear();
+  }
+}
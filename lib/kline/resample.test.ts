@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { UTCTimestamp } from 'lightweight-charts';
+import { createCandleResampler, resampleCandles } from './resample';
+import { KlineCandle } from './types';
+
+const T0 = Date.parse('2024-01-01T00:00:00Z') / 1000;
+const MIN = 60;
+
+function candle(time: number, open: number, high: number, low: number, close: number, isClosed = true): KlineCandle {
+  return {
+    time: time as UTCTimestamp,
+    open,
+    high,
+    low,
+    close,
+    volume: 1,
+    quoteVolume: close,
+    trades: 2,
+    isClosed,
+  };
+}
+
+describe('resampleCandles', () => {
+  it('merges source candles into target buckets', () => {
+    const source = [
+      candle(T0, 10, 12, 9, 11),
+      candle(T0 + 15 * MIN, 11, 15, 10, 14),
+      candle(T0 + 30 * MIN, 14, 14, 8, 9),
+      candle(T0 + 45 * MIN, 9, 10, 9, 10),
+    ];
+
+    const result = resampleCandles(source, '45m', '15m');
+
+    expect(result).toHaveLength(2);
+    expect(result[0]).toMatchObject({
+      time: T0,
+      open: 10,
+      high: 15,
+      low: 8,
+      close: 9,
+      volume: 3,
+      quoteVolume: 34,
+      trades: 6,
+      isClosed: true,
+    });
+    // 第二根只覆盖了 15 分钟，尚未收盘
+    expect(result[1]).toMatchObject({ time: T0 + 45 * MIN, open: 9, close: 10, isClosed: false });
+  });
+
+  it('drops optional totals when any source candle lacks them', () => {
+    const partial = { ...candle(T0 + 15 * MIN, 1, 1, 1, 1), trades: undefined };
+    const [merged] = resampleCandles([candle(T0, 1, 1, 1, 1), partial], '30m', '15m');
+
+    expect(merged.trades).toBeUndefined();
+  });
+});
+
+describe('createCandleResampler', () => {
+  it('replaces updates of the same source candle and starts a new bucket on the boundary', () => {
+    const resampler = createCandleResampler('30m', '15m');
+
+    resampler.add(candle(T0, 10, 11, 9, 10, false));
+    resampler.add(candle(T0, 10, 13, 9, 12, true));
+    const merged = resampler.add(candle(T0 + 15 * MIN, 12, 12, 7, 8, false));
+    expect(merged).toMatchObject({ time: T0, open: 10, high: 13, low: 7, close: 8, volume: 2, isClosed: false });
+
+    const next = resampler.add(candle(T0 + 30 * MIN, 8, 9, 8, 9, false));
+    expect(next).toMatchObject({ time: T0 + 30 * MIN, open: 8, volume: 1 });
+  });
+
+  it('returns null for source candles older than the current bucket', () => {
+    const resampler = createCandleResampler('30m', '15m');
+    resampler.add(candle(T0 + 30 * MIN, 1, 1, 1, 1, false));
+
+    expect(resampler.add(candle(T0 + 15 * MIN, 1, 1, 1, 1))).toBeNull();
+  });
+
+  it('never lets seeded candles overwrite live ones', () => {
+    const resampler = createCandleResampler('30m', '15m');
+    resampler.add(candle(T0 + 15 * MIN, 5, 6, 4, 5, false));
+
+    resampler.seed(candle(T0, 1, 2, 1, 2));
+    resampler.seed(candle(T0 + 15 * MIN, 100, 100, 100, 100));
+    const merged = resampler.add(candle(T0 + 15 * MIN, 5, 7, 4, 6, true));
+
+    expect(merged).toMatchObject({ time: T0, open: 1, high: 7, low: 1, close: 6, isClosed: true });
+  });
+});
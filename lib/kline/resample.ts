@@ -0,0 +1,152 @@
+import { UTCTimestamp } from 'lightweight-charts';
+import { KlineCandle, KlineInterval, NativeKlineInterval } from './types';
+import { alignToInterval, nextIntervalTime } from './intervals';
+
+/**
+ * 可选数值字段求和（任一源 K 线缺失该字段时结果为 undefined）
+ */
+function sumOptional(
+  parts: KlineCandle[],
+  field: 'trades' | 'takerBuyVolume' | 'takerBuyQuoteVolume'
+): number | undefined {
+  let total = 0;
+  for (const part of parts) {
+    const value = part[field];
+    if (value === undefined) return undefined;
+    total += value;
+  }
+  return total;
+}
+
+/**
+ * 将同一目标周期内的源 K 线合并为一根
+ *
+ * @param parts 按时间升序排列的源 K 线（至少一根）
+ * @param openTime 目标 K 线开盘时间（毫秒）
+ * @param closeTime 目标 K 线收盘边界（毫秒）
+ * @param sourceInterval 源周期，用于判断最后一根源 K 线是否覆盖到收盘边界
+ */
+function mergeCandles(
+  parts: KlineCandle[],
+  openTime: number,
+  closeTime: number,
+  sourceInterval: NativeKlineInterval
+): KlineCandle {
+  const first = parts[0];
+  const last = parts[parts.length - 1];
+
+  let high = first.high;
+  let low = first.low;
+  let volume = 0;
+  let quoteVolume = 0;
+  for (const part of parts) {
+    high = Math.max(high, part.high);
+    low = Math.min(low, part.low);
+    volume += part.volume;
+    quoteVolume += part.quoteVolume;
+  }
+
+  const lastCloseTime = nextIntervalTime(last.time * 1000, sourceInterval);
+
+  return {
+    time: (openTime / 1000) as UTCTimestamp,
+    open: first.open,
+    high,
+    low,
+    close: last.close,
+    volume,
+    quoteVolume,
+    trades: sumOptional(parts, 'trades'),
+    takerBuyVolume: sumOptional(parts, 'takerBuyVolume'),
+    takerBuyQuoteVolume: sumOptional(parts, 'takerBuyQuoteVolume'),
+    isClosed: last.isClosed && lastCloseTime >= closeTime,
+  };
+}
+
+/**
+ * 将源周期 K 线重采样为目标周期（历史数据）
+ *
+ * @param candles 按时间升序排列的源周期 K 线
+ * @param interval 目标周期
+ * @param sourceInterval 源周期
+ */
+export function resampleCandles(
+  candles: KlineCandle[],
+  interval: KlineInterval,
+  sourceInterval: NativeKlineInterval
+): KlineCandle[] {
+  const result: KlineCandle[] = [];
+  let bucket: KlineCandle[] = [];
+  let bucketStart = -1;
+
+  const flush = () => {
+    if (bucket.length > 0) {
+      result.push(
+        mergeCandles(bucket, bucketStart, nextIntervalTime(bucketStart, interval), sourceInterval)
+      );
+    }
+  };
+
+  for (const candle of candles) {
+    const start = alignToInterval(candle.time * 1000, interval);
+    if (start !== bucketStart) {
+      flush();
+      bucket = [];
+      bucketStart = start;
+    }
+    bucket.push(candle);
+  }
+  flush();
+
+  return result;
+}
+
+/**
+ * 创建实时重采样器
+ *
+ * 只保留当前目标 K 线内的源 K 线（按开盘时间去重，后到的更新覆盖先到的），
+ * 每次更新返回合并后的目标 K 线；早于当前周期的乱序数据返回 null。
+ *
+ * @example
+ * ```ts
+ * const resampler = createCandleResampler('45m', '15m');
+ * const candle = resampler.add(sourceCandle);
+ * ```
+ */
+export function createCandleResampler(interval: KlineInterval, sourceInterval: NativeKlineInterval) {
+  const parts = new Map<number, KlineCandle>();
+  let bucketStart = -1;
+
+  const enterBucket = (candle: KlineCandle): boolean => {
+    const start = alignToInterval(candle.time * 1000, interval);
+    if (start < bucketStart) return false;
+    if (start > bucketStart) {
+      bucketStart = start;
+      parts.clear();
+    }
+    return true;
+  };
+
+  return {
+    /** 补充订阅前已发生的源 K 线（不会覆盖实时推送的数据） */
+    seed(candle: KlineCandle) {
+      if (enterBucket(candle) && !parts.has(candle.time)) {
+        parts.set(candle.time, candle);
+      }
+    },
+
+    /** 合并一根实时源 K 线，返回更新后的目标 K 线 */
+    add(candle: KlineCandle): KlineCandle | null {
+      if (!enterBucket(candle)) return null;
+      parts.set(candle.time, candle);
+
+      const sorted = [...parts.values()].sort((a, b) => a.time - b.time);
+      return mergeCandles(
+        sorted,
+        bucketStart,
+        nextIntervalTime(bucketStart, interval),
+        sourceInterval
+      );
+    },
+  };
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import * as s from './schema';
+
+describe('schema', () => {
+  it('accepts decimal strings and rejects numbers, blanks and NaN', () => {
+    expect(s.decimal('42.5', 'p')).toBeNull();
+    expect(s.decimal(42.5, 'p')).toMatchObject({ path: 'p' });
+    expect(s.decimal(' ', 'p')).not.toBeNull();
+    expect(s.decimal('abc', 'p')).not.toBeNull();
+    expect(s.number(Number.NaN, 'n')).toMatchObject({ message: 'expected number, got number' });
+  });
+
+  it('reports the path of the first nested issue', () => {
+    const level = s.tuple<[string, string]>([s.decimal, s.decimal]);
+    const book = s.object<{ u: number; b: [string, string][] }>({ u: s.number, b: s.arrayOf(level) });
+
+    const result = s.check(book, { u: 1, b: [['1', '2'], ['3', null]] });
+
+    expect(result).toEqual({
+      ok: false,
+      issue: { path: 'b[1][1]', message: 'expected decimal string, got null' },
+    });
+  });
+
+  it('allows extra tuple items and object fields but not missing ones', () => {
+    const pair = s.tuple<[number, number]>([s.number, s.number]);
+    const point = s.object<{ x: number; label?: string }>({ x: s.number, label: s.optional(s.string) });
+
+    expect(s.check(pair, [1, 2, 3]).ok).toBe(true);
+    expect(s.check(pair, [1])).toMatchObject({ ok: false, issue: { path: '(root)' } });
+    expect(s.check(point, { x: 1, extra: true }).ok).toBe(true);
+    expect(s.check(point, { x: 1, label: 2 })).toMatchObject({ ok: false, issue: { path: 'label' } });
+    expect(s.check(point, [])).toMatchObject({ ok: false, issue: { message: 'expected object, got array' } });
+  });
+
+  it('passes oneOf when any validator passes and reports the first issue otherwise', () => {
+    const id = s.oneOf<number | string | null>(s.number, s.string, s.literal(null));
+
+    expect(id(null, 'id')).toBeNull();
+    expect(id('7', 'id')).toBeNull();
+    expect(id(true, 'id')).toEqual({ path: 'id', message: 'expected number, got boolean' });
+  });
+});
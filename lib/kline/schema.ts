@@ -0,0 +1,140 @@
+/**
+ * 校验失败的位置和原因
+ */
+export interface SchemaIssue {
+  /** 出错字段的路径，例如 `k.o`、`b[3][0]` */
+  path: string;
+  message: string;
+}
+
+/**
+ * 校验器：通过时返回 null，否则返回第一个问题
+ *
+ * T 只用于类型推导，不参与运行时校验
+ */
+export type Validator<T> = ((value: unknown, path: string) => SchemaIssue | null) & {
+  readonly __type?: T;
+};
+
+function issue(path: string, message: string): SchemaIssue {
+  return { path: path || '(root)', message };
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+/** 字符串 */
+export const string: Validator<string> = (value, path) =>
+  typeof value === 'string' ? null : issue(path, `expected string, got ${describe(value)}`);
+
+/** 有限数值（排除 NaN / Infinity） */
+export const number: Validator<number> = (value, path) =>
+  typeof value === 'number' && Number.isFinite(value)
+    ? null
+    : issue(path, `expected number, got ${describe(value)}`);
+
+/** 布尔值 */
+export const boolean: Validator<boolean> = (value, path) =>
+  typeof value === 'boolean' ? null : issue(path, `expected boolean, got ${describe(value)}`);
+
+/** 任意值 */
+export const anyValue: Validator<unknown> = () => null;
+
+/** 可解析为有限数值的字符串（Binance 价格、数量均以字符串传输） */
+export const decimal: Validator<string> = (value, path) =>
+  typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))
+    ? null
+    : issue(path, `expected decimal string, got ${JSON.stringify(value)}`);
+
+/** 固定值 */
+export function literal<T extends string | number | boolean | null>(expected: T): Validator<T> {
+  return (value, path) =>
+    value === expected
+      ? null
+      : issue(path, `expected ${JSON.stringify(expected)}, got ${JSON.stringify(value)}`);
+}
+
+/** 可缺省（undefined） */
+export function optional<T>(validator: Validator<T>): Validator<T | undefined> {
+  return (value, path) => (value === undefined ? null : validator(value, path));
+}
+
+/** 满足任意一个 */
+export function oneOf<T>(...validators: Validator<T>[]): Validator<T> {
+  return (value, path) => {
+    let first: SchemaIssue | null = null;
+    for (const validator of validators) {
+      const result = validator(value, path);
+      if (!result) return null;
+      first ??= result;
+    }
+    return first;
+  };
+}
+
+/** 数组，逐项校验 */
+export function arrayOf<T>(item: Validator<T>): Validator<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) return issue(path, `expected array, got ${describe(value)}`);
+    for (let i = 0; i < value.length; i++) {
+      const result = item(value[i], joinPath(path, i));
+      if (result) return result;
+    }
+    return null;
+  };
+}
+
+/**
+ * 定长前缀的元组（允许多出的元素，便于兼容交易所追加字段）
+ */
+export function tuple<T extends unknown[]>(items: { [K in keyof T]: Validator<T[K]> }): Validator<T> {
+  const validators = items as Validator<unknown>[];
+  return (value, path) => {
+    if (!Array.isArray(value)) return issue(path, `expected array, got ${describe(value)}`);
+    if (value.length < validators.length) {
+      return issue(path, `expected at least ${validators.length} items, got ${value.length}`);
+    }
+    for (let i = 0; i < validators.length; i++) {
+      const result = validators[i](value[i], joinPath(path, i));
+      if (result) return result;
+    }
+    return null;
+  };
+}
+
+/**
+ * 对象，按字段校验（允许多出的字段）
+ */
+export function object<T>(shape: { [K in keyof T]-?: Validator<T[K]> }): Validator<T> {
+  const entries = Object.entries(shape) as [string, Validator<unknown>][];
+  return (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return issue(path, `expected object, got ${describe(value)}`);
+    }
+    const record = value as Record<string, unknown>;
+    for (const [key, validator] of entries) {
+      const result = validator(record[key], joinPath(path, key));
+      if (result) return result;
+    }
+    return null;
+  };
+}
+
+/**
+ * 校验并收窄类型
+ */
+export function check<T>(
+  validator: Validator<T>,
+  value: unknown
+): { ok: true; value: T } | { ok: false; issue: SchemaIssue } {
+  const result = validator(value, '');
+  return result ? { ok: false, issue: result } : { ok: true, value: value as T };
+}
@@ -0,0 +1,241 @@
+import type { WebSocketFactory, WebSocketLike } from './types';
+import { getBinanceEndpoints } from './endpoints';
+
+/** 默认中继地址（对应 app/api/stream 路由） */
+const DEFAULT_RELAY_URL = '/api/stream';
+// 增减数据流后重新打开 EventSource 前的等待时间，合并连续的订阅变化
+const REOPEN_DELAY = 50;
+
+// 中继拒绝请求时的关闭码为 4000 + HTTP 状态码（WebSocketManager 按 HTTP 错误处理，不再重连）
+const CLOSE_CODE_HTTP_BASE = 4000;
+
+const SOCKET_CONNECTING = 0;
+const SOCKET_OPEN = 1;
+const SOCKET_CLOSED = 3;
+
+/**
+ * SSE 中继配置
+ */
+export interface SseRelayOptions {
+  /** 中继地址，默认 NEXT_PUBLIC_SSE_RELAY_URL 或 `/api/stream` */
+  relayUrl?: string;
+}
+
+/**
+ * 各数据流最后收到的事件序号（跨连接共享，用于续传和去重）
+ */
+class EventCursor {
+  private bootId: string | null = null;
+  private lastSeq = new Map<string, number>();
+
+  /**
+   * 记录事件；已收到过的事件（续传时重复补发）返回 false
+   */
+  accept(stream: string, id: string): boolean {
+    const [bootId, seqText] = id.split(':');
+    const seq = Number(seqText);
+    if (!Number.isFinite(seq)) return true;
+    // 中继服务重启后序号重新计数
+    if (bootId !== this.bootId) {
+      this.bootId = bootId;
+      this.lastSeq.clear();
+    }
+    if (seq <= (this.lastSeq.get(stream) ?? 0)) return false;
+    this.lastSeq.set(stream, seq);
+    return true;
+  }
+
+  /**
+   * 续传起点：数据流中最早的已收事件（新数据流不参与）
+   */
+  resumeFrom(streams: Iterable<string>): string | null {
+    let min = Infinity;
+    for (const stream of streams) {
+      const seq = this.lastSeq.get(stream);
+      if (seq !== undefined && seq < min) min = seq;
+    }
+    return this.bootId && Number.isFinite(min) ? `${this.bootId}:${min}` : null;
+  }
+}
+
+/**
+ * 读取中继的 HTTP 状态码（EventSource 不暴露失败响应）
+ *
+ * 使用 HEAD：中继只校验数据流，不建立上游订阅
+ */
+async function probeStatus(url: string): Promise<number | null> {
+  try {
+    const response = await fetch(url, { method: 'HEAD', cache: 'no-store' });
+    return response.status;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 请求本身有问题（4xx，限频除外）或服务端不支持（501）时重连无意义
+ */
+function isPermanentFailure(status: number | null): status is number {
+  return status !== null && ((status >= 400 && status < 500 && status !== 429) || status === 501);
+}
+
+/**
+ * 以 EventSource 模拟的 WebSocket 连接（供 WebSocketManager 使用）
+ *
+ * - 组合流：SUBSCRIBE / UNSUBSCRIBE 在本地修改数据流列表，随后按新列表重新打开 EventSource
+ *   并立即回复订阅响应；重新打开时通过 lastEventId 续传，重复事件由 EventCursor 丢弃
+ * - 原始流（`/ws/<stream>`）：拆掉组合流外层后再分发
+ * - EventSource 自行重连的短暂断开不上报；请求失败（连接被关闭）时按 WebSocket 的 error + close 上报，
+ *   中继拒绝请求（4xx、501）时关闭码为 4000 + 状态码
+ * - 服务端保活事件转成订阅响应，只刷新 WebSocketManager 的心跳时间
+ */
+class SseSocket implements WebSocketLike {
+  readyState = SOCKET_CONNECTING;
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+
+  private source: EventSource | null = null;
+  private reopenTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private relayUrl: string,
+    private streams: Set<string>,
+    private combined: boolean,
+    private cursor: EventCursor
+  ) {
+    this.openSource();
+  }
+
+  send(data: string): void {
+    if (!this.combined) return;
+
+    let request: { method?: unknown; params?: unknown; id?: unknown };
+    try {
+      request = JSON.parse(data);
+    } catch {
+      return;
+    }
+    const params = Array.isArray(request.params) ? request.params.map(String) : [];
+    if (request.method === 'SUBSCRIBE') params.forEach((stream) => this.streams.add(stream));
+    else if (request.method === 'UNSUBSCRIBE') params.forEach((stream) => this.streams.delete(stream));
+    else return;
+
+    this.scheduleReopen();
+    // 订阅响应异步回复（WebSocketManager 在 send 之后才登记等待中的请求）
+    const ack = JSON.stringify({ result: null, id: request.id ?? null });
+    queueMicrotask(() => this.emitMessage(ack));
+  }
+
+  close(code = 1000, reason = ''): void {
+    if (this.readyState === SOCKET_CLOSED) return;
+    this.shutdown();
+    // 与浏览器 WebSocket 一致，close 事件异步触发
+    setTimeout(() => this.onclose?.(new CloseEvent('close', { code, reason, wasClean: true })), 0);
+  }
+
+  private openSource(): void {
+    if (this.streams.size === 0) return;
+
+    const params = new URLSearchParams({ streams: [...this.streams].join('/') });
+    const resumeFrom = this.cursor.resumeFrom(this.streams);
+    if (resumeFrom) params.set('lastEventId', resumeFrom);
+
+    const url = `${this.relayUrl}?${params.toString()}`;
+    const source = new EventSource(url);
+    this.source = source;
+
+    source.onopen = () => {
+      if (this.readyState !== SOCKET_CONNECTING) return;
+      this.readyState = SOCKET_OPEN;
+      this.onopen?.(new Event('open'));
+    };
+    source.onmessage = (event) => this.handleEvent(event);
+    source.addEventListener('ping', () => {
+      if (this.combined) this.emitMessage('{"result":null,"id":"sse-ping"}');
+    });
+    source.onerror = (event) => {
+      // CONNECTING 表示 EventSource 正在自行重连（会带上 Last-Event-ID）
+      if (source.readyState !== EventSource.CLOSED || this.source !== source) return;
+      this.shutdown();
+      this.onerror?.(event);
+      void probeStatus(url).then((status) => {
+        const close = isPermanentFailure(status)
+          ? { code: CLOSE_CODE_HTTP_BASE + status, reason: `SSE relay rejected the request (HTTP ${status})` }
+          : { code: 1006, reason: 'SSE relay unavailable' };
+        this.onclose?.(new CloseEvent('close', close));
+      });
+    };
+  }
+
+  private handleEvent(event: MessageEvent<string>): void {
+    let envelope: { stream?: unknown; data?: unknown };
+    try {
+      envelope = JSON.parse(event.data);
+    } catch {
+      // 交给 WebSocketManager 统一隔离
+      this.emitMessage(event.data);
+      return;
+    }
+    const stream = typeof envelope.stream === 'string' ? envelope.stream : null;
+    if (stream && event.lastEventId && !this.cursor.accept(stream, event.lastEventId)) return;
+
+    this.emitMessage(this.combined ? event.data : JSON.stringify(envelope.data));
+  }
+
+  private emitMessage(data: string): void {
+    if (this.readyState !== SOCKET_OPEN) return;
+    this.onmessage?.(new MessageEvent('message', { data }));
+  }
+
+  private scheduleReopen(): void {
+    if (this.reopenTimer) return;
+    this.reopenTimer = setTimeout(() => {
+      this.reopenTimer = null;
+      if (this.readyState !== SOCKET_OPEN) return;
+      this.source?.close();
+      this.source = null;
+      this.openSource();
+    }, REOPEN_DELAY);
+  }
+
+  private shutdown(): void {
+    this.readyState = SOCKET_CLOSED;
+    if (this.reopenTimer) clearTimeout(this.reopenTimer);
+    this.reopenTimer = null;
+    this.source?.close();
+    this.source = null;
+  }
+}
+
+/**
+ * 创建经由 SSE 中继的连接工厂
+ *
+ * Binance 组合流和原始流通过中继（app/api/stream）以 Server-Sent Events 接收，
+ * 其他地址（例如 OKX、Bybit）仍直接建立 WebSocket 连接。
+ * 中继的上游地址由服务端配置决定，页面切换 Binance 环境不影响中继。
+ *
+ * @example
+ * ```ts
+ * const dataSource = new BinanceDataSource({ webSocketFactory: createSseWebSocketFactory() });
+ * ```
+ */
+export function createSseWebSocketFactory(options: SseRelayOptions = {}): WebSocketFactory {
+  const relayUrl = options.relayUrl ?? (process.env.NEXT_PUBLIC_SSE_RELAY_URL || DEFAULT_RELAY_URL);
+  const cursor = new EventCursor();
+
+  return (url) => {
+    const { wsBase } = getBinanceEndpoints();
+
+    if (url.startsWith(`${wsBase}/stream`)) {
+      const streams = new URL(url).searchParams.get('streams') ?? '';
+      return new SseSocket(relayUrl, new Set(streams.split('/').filter(Boolean)), true, cursor);
+    }
+    if (url.startsWith(`${wsBase}/ws/`)) {
+      const stream = url.slice(`${wsBase}/ws/`.length);
+      return new SseSocket(relayUrl, new Set([stream]), false, cursor);
+    }
+    return new WebSocket(url);
+  };
+}
@@ -0,0 +1,323 @@
+import { WebSocketState } from './types';
+import { klineEvents } from './events';
+
+/** 消息速率统计窗口（秒） */
+const RATE_WINDOW_SECONDS = 10;
+/** 延迟滑动平均系数 */
+const LATENCY_SMOOTHING = 0.1;
+/** 每个连接保留的状态变化记录条数 */
+const MAX_HISTORY = 20;
+
+/**
+ * 单个数据流的指标
+ */
+export interface StreamMetrics {
+  /** 数据流名称（普通订阅为订阅键） */
+  stream: string;
+  /** 累计消息数 */
+  messages: number;
+  /** 最近 10 秒的平均消息速率（条/秒） */
+  messagesPerSecond: number;
+  /** 累计接收字节数（按消息文本长度计，Binance 推送为 ASCII） */
+  bytes: number;
+  /** 事件时间（`E` 字段）到接收的延迟（毫秒），包含网络延迟和本地时钟偏差 */
+  latency: {
+    last: number | null;
+    /** 指数滑动平均 */
+    avg: number | null;
+    max: number | null;
+  };
+  /** 格式错误的消息数（JSON 解析失败、校验失败、错误帧） */
+  parseErrors: number;
+  /** 订阅回调抛出异常的次数 */
+  callbackErrors: number;
+  /** 最后一条消息的接收时间（毫秒时间戳） */
+  lastMessageAt: number | null;
+}
+
+/**
+ * 连接状态变化记录
+ */
+export interface ConnectionHistoryEntry {
+  at: number;
+  state: WebSocketState;
+  reason?: string;
+}
+
+/**
+ * 单个连接的指标（组合流连接包含多个数据流）
+ */
+export interface ConnectionMetrics {
+  /** 连接键 */
+  key: string;
+  state: WebSocketState;
+  /** 重连次数（首次连接之后的每次连接尝试） */
+  reconnects: number;
+  /** 累计在线时长（毫秒，含当前会话） */
+  uptime: number;
+  /** 本次连接建立时间，未连接时为 null */
+  connectedSince: number | null;
+  /** 无法归属到数据流的格式错误（例如组合流外层解析失败） */
+  parseErrors: number;
+  /** 最近的状态变化（最新在前） */
+  history: ConnectionHistoryEntry[];
+  streams: StreamMetrics[];
+}
+
+interface StreamRecord {
+  stream: string;
+  messages: number;
+  bytes: number;
+  // 按秒分桶的消息数：rateSeconds[i] 记录桶 i 对应的秒
+  rateCounts: number[];
+  rateSeconds: number[];
+  latencyLast: number | null;
+  latencyAvg: number | null;
+  latencyMax: number | null;
+  parseErrors: number;
+  callbackErrors: number;
+  lastMessageAt: number | null;
+}
+
+interface ConnectionRecord {
+  key: string;
+  state: WebSocketState;
+  reconnects: number;
+  uptime: number;
+  connectedSince: number | null;
+  parseErrors: number;
+  history: ConnectionHistoryEntry[];
+  streams: Map<string, StreamRecord>;
+}
+
+function createStreamRecord(stream: string): StreamRecord {
+  return {
+    stream,
+    messages: 0,
+    bytes: 0,
+    rateCounts: new Array(RATE_WINDOW_SECONDS).fill(0),
+    rateSeconds: new Array(RATE_WINDOW_SECONDS).fill(-1),
+    latencyLast: null,
+    latencyAvg: null,
+    latencyMax: null,
+    parseErrors: 0,
+    callbackErrors: 0,
+    lastMessageAt: null,
+  };
+}
+
+/**
+ * 读取推送中的事件时间（Binance 的 `E` 字段）
+ */
+function getEventTime(payload: unknown): number | null {
+  if (typeof payload !== 'object' || payload === null) return null;
+  const time = (payload as { E?: unknown }).E;
+  return typeof time === 'number' && Number.isFinite(time) ? time : null;
+}
+
+/**
+ * WebSocket 数据流指标记录器（由 WebSocketManager 持有）
+ *
+ * 记录每个数据流的消息速率、字节数、事件延迟、解析错误和回调错误，
+ * 以及每个连接的重连次数、在线时长和状态变化记录。
+ * 解析错误来自 MessageQuarantine 的 invalidMessage 事件，按隔离记录的 stream 归属。
+ */
+export class StreamMetricsRecorder {
+  private connections = new Map<string, ConnectionRecord>();
+  private offInvalidMessage: () => void;
+
+  constructor() {
+    this.offInvalidMessage = klineEvents.on('invalidMessage', ({ stream }) => {
+      if (stream) this.recordParseError(stream);
+    });
+  }
+
+  /**
+   * 记录连接状态变化
+   */
+  recordTransition(key: string, state: WebSocketState, reason?: string): void {
+    const now = Date.now();
+    let record = this.connections.get(key);
+    if (!record) {
+      record = {
+        key,
+        state,
+        reconnects: 0,
+        uptime: 0,
+        connectedSince: null,
+        parseErrors: 0,
+        history: [],
+        streams: new Map(),
+      };
+      this.connections.set(key, record);
+    } else if (state === WebSocketState.CONNECTING) {
+      record.reconnects++;
+    }
+
+    if (record.connectedSince !== null && state !== WebSocketState.CONNECTED) {
+      record.uptime += now - record.connectedSince;
+      record.connectedSince = null;
+    }
+    if (state === WebSocketState.CONNECTED && record.connectedSince === null) {
+      record.connectedSince = now;
+    }
+
+    record.state = state;
+    record.history.unshift({ at: now, state, reason });
+    record.history.length = Math.min(record.history.length, MAX_HISTORY);
+  }
+
+  /**
+   * 记录一条推送消息
+   *
+   * @param payload 解析后的消息体（组合流为拆包后的 data），用于读取事件时间
+   */
+  recordMessage(key: string, stream: string, bytes: number, payload: unknown): void {
+    const record = this.getStreamRecord(key, stream);
+    if (!record) return;
+
+    const now = Date.now();
+    record.messages++;
+    record.bytes += bytes;
+    record.lastMessageAt = now;
+
+    const second = Math.floor(now / 1000);
+    const bucket = second % RATE_WINDOW_SECONDS;
+    if (record.rateSeconds[bucket] !== second) {
+      record.rateSeconds[bucket] = second;
+      record.rateCounts[bucket] = 0;
+    }
+    record.rateCounts[bucket]++;
+
+    const eventTime = getEventTime(payload);
+    if (eventTime !== null) {
+      const latency = now - eventTime;
+      record.latencyLast = latency;
+      record.latencyAvg =
+        record.latencyAvg === null
+          ? latency
+          : record.latencyAvg + (latency - record.latencyAvg) * LATENCY_SMOOTHING;
+      record.latencyMax = Math.max(record.latencyMax ?? latency, latency);
+    }
+  }
+
+  /**
+   * 记录订阅回调异常
+   */
+  recordCallbackError(key: string, stream: string): void {
+    const record = this.getStreamRecord(key, stream);
+    if (record) record.callbackErrors++;
+  }
+
+  /**
+   * 登记连接承载的数据流（收到消息前也能归属解析错误）
+   */
+  addStreams(key: string, streams: readonly string[]): void {
+    const connection = this.connections.get(key);
+    if (!connection) return;
+    streams.forEach((stream) => {
+      if (!connection.streams.has(stream)) connection.streams.set(stream, createStreamRecord(stream));
+    });
+  }
+
+  /**
+   * 移除数据流（组合流退订时调用）
+   */
+  removeStream(key: string, stream: string): void {
+    this.connections.get(key)?.streams.delete(stream);
+  }
+
+  /**
+   * 移除连接（连接关闭并清理后调用）
+   */
+  removeConnection(key: string): void {
+    this.connections.delete(key);
+  }
+
+  /**
+   * 移除所有连接并取消 invalidMessage 监听（WebSocketManager 销毁时调用）
+   */
+  destroy(): void {
+    this.offInvalidMessage();
+    this.connections.clear();
+  }
+
+  /**
+   * 清空所有计数（保留连接和数据流，在线时长从现在开始重新累计）
+   */
+  reset(): void {
+    const now = Date.now();
+    this.connections.forEach((record) => {
+      record.reconnects = 0;
+      record.uptime = 0;
+      if (record.connectedSince !== null) record.connectedSince = now;
+      record.parseErrors = 0;
+      record.history = [];
+      record.streams.forEach((stream, name) => record.streams.set(name, createStreamRecord(name)));
+    });
+  }
+
+  /**
+   * 生成指标快照
+   */
+  getSnapshot(): ConnectionMetrics[] {
+    const now = Date.now();
+    const currentSecond = Math.floor(now / 1000);
+
+    return [...this.connections.values()].map((record) => ({
+      key: record.key,
+      state: record.state,
+      reconnects: record.reconnects,
+      uptime: record.uptime + (record.connectedSince !== null ? now - record.connectedSince : 0),
+      connectedSince: record.connectedSince,
+      parseErrors: record.parseErrors,
+      history: [...record.history],
+      streams: [...record.streams.values()].map((stream) => {
+        let recent = 0;
+        stream.rateSeconds.forEach((second, index) => {
+          if (second > currentSecond - RATE_WINDOW_SECONDS) recent += stream.rateCounts[index];
+        });
+        return {
+          stream: stream.stream,
+          messages: stream.messages,
+          messagesPerSecond: recent / RATE_WINDOW_SECONDS,
+          bytes: stream.bytes,
+          latency: {
+            last: stream.latencyLast,
+            avg: stream.latencyAvg === null ? null : Math.round(stream.latencyAvg),
+            max: stream.latencyMax,
+          },
+          parseErrors: stream.parseErrors,
+          callbackErrors: stream.callbackErrors,
+          lastMessageAt: stream.lastMessageAt,
+        };
+      }),
+    }));
+  }
+
+  private getStreamRecord(key: string, stream: string): StreamRecord | undefined {
+    const connection = this.connections.get(key);
+    if (!connection) return undefined;
+    let record = connection.streams.get(stream);
+    if (!record) {
+      record = createStreamRecord(stream);
+      connection.streams.set(stream, record);
+    }
+    return record;
+  }
+
+  /**
+   * 解析错误归属：优先匹配数据流名称，其次匹配连接键
+   */
+  private recordParseError(stream: string): void {
+    for (const connection of this.connections.values()) {
+      const record = connection.streams.get(stream);
+      if (record) {
+        record.parseErrors++;
+        return;
+      }
+    }
+    const connection = this.connections.get(stream);
+    if (connection) connection.parseErrors++;
+  }
+}
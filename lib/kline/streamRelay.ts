@@ -0,0 +1,254 @@
+import { WebSocket as NodeWebSocket } from 'ws';
+import { WebSocketManager } from './WebSocketManager';
+import { getBinanceEndpoints } from './endpoints';
+import { NATIVE_INTERVALS } from './intervals';
+import type { WebSocketFactory, WebSocketLike } from './types';
+
+// 每个数据流保留的最近事件（用于断线重连后按 Last-Event-ID 补发）
+const RELAY_BUFFER_SIZE = 500;
+const RELAY_BUFFER_AGE = 60 * 1000;
+// 最后一个客户端断开后保留上游订阅的时间，期间重连的客户端可以补发漏掉的事件
+const STREAM_LINGER = 30 * 1000;
+// 保活事件间隔（同时防止反向代理因空闲断开）
+const KEEPALIVE_INTERVAL = 15 * 1000;
+// 客户端断线后 EventSource 的重连等待时间
+const CLIENT_RETRY = 3000;
+// 单个 SSE 连接最多订阅的数据流数量
+const MAX_STREAMS_PER_CLIENT = 50;
+
+// 允许转发的数据流：K 线、逐笔/归集成交、增量和有限档深度
+const STREAM_PATTERN = new RegExp(
+  `^[a-z0-9]{1,20}@(kline_(${NATIVE_INTERVALS.join('|')})|trade|aggTrade|depth(@100ms|@1000ms)?|depth(5|10|20)(@100ms|@1000ms)?)$`
+);
+
+const encoder = new TextEncoder();
+
+// Node.js 20 没有全局 WebSocket，上游连接统一使用 ws（事件接口与浏览器一致，文本消息为字符串）
+const createServerWebSocket: WebSocketFactory = (url) =>
+  new NodeWebSocket(url) as unknown as WebSocketLike;
+
+/**
+ * 已发送的事件（frame 为编码好的 SSE 文本）
+ */
+interface RelayEvent {
+  seq: number;
+  time: number;
+  frame: string;
+}
+
+/**
+ * 单个上游数据流：所有客户端共享一个订阅
+ */
+interface RelayChannel {
+  stream: string;
+  unsubscribe: () => void;
+  buffer: RelayEvent[];
+  listeners: Set<(frame: string) => void>;
+  lingerTimer: NodeJS.Timeout | null;
+}
+
+function jsonError(status: number, code: number, msg: string): Response {
+  return new Response(JSON.stringify({ code, msg }), {
+    status,
+    headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+  });
+}
+
+/**
+ * 行情 SSE 中继（服务端单例，由 app/api/stream 路由使用）
+ *
+ * 功能特性：
+ * - 连接复用：每个数据流在服务端只订阅一次，所有浏览器共享（经组合流连接）
+ * - 断线续传：事件 id 为 `<启动标识>:<序号>`，客户端带 Last-Event-ID 重连时补发缓冲区中漏掉的事件
+ * - 上游可靠性：沿用 WebSocketManager 的心跳和重连；保活定时器顺带重试已失败的上游连接
+ * - 数据格式与 Binance 组合流一致（`{ stream, data }`），客户端解析逻辑不变
+ *
+ * 上游地址取 BINANCE_PROXY_WS_URL，未配置时使用 endpoints.ts 的当前配置
+ */
+export class StreamRelay {
+  // 单例实例
+  private static instance: StreamRelay;
+  // 服务端独立的连接管理器
+  private manager = new WebSocketManager({ webSocketFactory: createServerWebSocket });
+  // 进程启动标识：服务重启后旧的事件 id 不再有效
+  private readonly bootId = Date.now().toString(36);
+  private seq = 0;
+  private channels = new Map<string, RelayChannel>();
+
+  private constructor() {}
+
+  /**
+   * 获取单例实例
+   */
+  static getInstance(): StreamRelay {
+    if (!StreamRelay.instance) {
+      StreamRelay.instance = new StreamRelay();
+    }
+    return StreamRelay.instance;
+  }
+
+  /**
+   * 上游组合流地址
+   */
+  get upstreamUrl(): string {
+    const wsBase = process.env.BINANCE_PROXY_WS_URL || getBinanceEndpoints().wsBase;
+    return `${wsBase.replace(/\/+$/, '')}/stream`;
+  }
+
+  /**
+   * 校验数据流列表（不建立上游订阅），不合法时返回 400 响应
+   */
+  validate(streams: string[]): Response | null {
+    const requested = [...new Set(streams)];
+    if (requested.length === 0) {
+      return jsonError(400, -1102, "Mandatory parameter 'streams' was not sent.");
+    }
+    if (requested.length > MAX_STREAMS_PER_CLIENT) {
+      return jsonError(400, -1100, `At most ${MAX_STREAMS_PER_CLIENT} streams per connection.`);
+    }
+    const invalid = requested.find((stream) => !STREAM_PATTERN.test(stream));
+    if (invalid) {
+      return jsonError(400, -1100, `Invalid stream: ${invalid}`);
+    }
+    return null;
+  }
+
+  /**
+   * 为一个客户端打开 SSE 响应
+   *
+   * @param streams 数据流名称，例如 ['btcusdt@kline_1m', 'btcusdt@trade']
+   * @param lastEventId 客户端最后收到的事件 id（Last-Event-ID）
+   * @param signal 客户端断开时取消
+   */
+  open(streams: string[], lastEventId: string | null, signal: AbortSignal): Response {
+    const rejected = this.validate(streams);
+    if (rejected) return rejected;
+    const requested = [...new Set(streams)];
+
+    let cleanup: (() => void) | null = null;
+
+    const body = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        const write = (frame: string) => {
+          try {
+            controller.enqueue(encoder.encode(frame));
+          } catch {
+            // 客户端已断开，等待 abort 清理
+          }
+        };
+
+        write(`retry: ${CLIENT_RETRY}\n\n`);
+        this.replay(requested, lastEventId).forEach((event) => write(event.frame));
+
+        const channels = requested.map((stream) => this.attach(stream, write));
+        const keepalive = setInterval(() => {
+          write(`event: ping\ndata: ${Date.now()}\n\n`);
+          // 服务端没有 online / visibilitychange 事件，借保活定时器重试已失败的上游连接
+          this.manager.reconnectAll({ onlyFailed: true });
+        }, KEEPALIVE_INTERVAL);
+
+        cleanup = () => {
+          cleanup = null;
+          clearInterval(keepalive);
+          channels.forEach((channel) => this.detach(channel, write));
+          try {
+            controller.close();
+          } catch {
+            // 已关闭
+          }
+        };
+        if (signal.aborted) cleanup();
+        else signal.addEventListener('abort', () => cleanup?.(), { once: true });
+      },
+      cancel: () => cleanup?.(),
+    });
+
+    return new Response(body, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        // 关闭 nginx 等反向代理的响应缓冲
+        'X-Accel-Buffering': 'no',
+      },
+    });
+  }
+
+  /**
+   * 客户端断开期间漏掉的事件（按序号升序）
+   *
+   * 启动标识不一致（服务已重启）时不补发；事件已超出缓冲区时补发缓冲区中的全部事件
+   */
+  private replay(streams: string[], lastEventId: string | null): RelayEvent[] {
+    if (!lastEventId) return [];
+    const [bootId, seqText] = lastEventId.split(':');
+    const lastSeq = Number(seqText);
+    if (bootId !== this.bootId || !Number.isFinite(lastSeq)) return [];
+
+    return streams
+      .flatMap((stream) => this.channels.get(stream)?.buffer ?? [])
+      .filter((event) => event.seq > lastSeq)
+      .sort((a, b) => a.seq - b.seq);
+  }
+
+  /**
+   * 登记客户端监听，数据流首次被订阅时建立上游订阅
+   */
+  private attach(stream: string, listener: (frame: string) => void): RelayChannel {
+    let channel = this.channels.get(stream);
+    if (!channel) {
+      const created: RelayChannel = {
+        stream,
+        unsubscribe: () => {},
+        buffer: [],
+        listeners: new Set(),
+        lingerTimer: null,
+      };
+      created.unsubscribe = this.manager.subscribeStream(this.upstreamUrl, stream, (data) =>
+        this.publish(created, data)
+      );
+      this.channels.set(stream, created);
+      channel = created;
+      console.log(`[StreamRelay] Subscribed upstream: ${stream}`);
+    }
+
+    if (channel.lingerTimer) {
+      clearTimeout(channel.lingerTimer);
+      channel.lingerTimer = null;
+    }
+    channel.listeners.add(listener);
+    return channel;
+  }
+
+  /**
+   * 移除客户端监听；没有监听者时延迟退订上游，期间重连的客户端仍可补发
+   */
+  private detach(channel: RelayChannel, listener: (frame: string) => void): void {
+    channel.listeners.delete(listener);
+    if (channel.listeners.size > 0 || channel.lingerTimer) return;
+
+    channel.lingerTimer = setTimeout(() => {
+      if (channel.listeners.size > 0) return;
+      channel.unsubscribe();
+      this.channels.delete(channel.stream);
+      console.log(`[StreamRelay] Unsubscribed upstream: ${channel.stream}`);
+    }, STREAM_LINGER);
+  }
+
+  /**
+   * 编号、缓存并转发一条上游推送
+   */
+  private publish(channel: RelayChannel, data: unknown): void {
+    const seq = ++this.seq;
+    const now = Date.now();
+    const frame = `id: ${this.bootId}:${seq}\ndata: ${JSON.stringify({ stream: channel.stream, data })}\n\n`;
+
+    channel.buffer.push({ seq, time: now, frame });
+    // 按条数和时间裁剪缓冲区
+    const firstFresh = channel.buffer.findIndex((event) => now - event.time <= RELAY_BUFFER_AGE);
+    const start = Math.max(firstFresh, channel.buffer.length - RELAY_BUFFER_SIZE);
+    if (start > 0) channel.buffer.splice(0, start);
+
+    channel.listeners.forEach((listener) => listener(frame));
+  }
+}
@@ -0,0 +1,118 @@
+import type { SymbolInfo } from './exchangeInfo';
+
+/**
+ * 搜索选项
+ */
+export interface SymbolSearchOptions {
+  /** 最多返回条数，默认 50 */
+  limit?: number;
+  /** 收藏的交易对（Binance 写法，大写），同分时排在前面 */
+  favorites?: ReadonlySet<string>;
+}
+
+/**
+ * 常用计价资产（越靠前同分时越优先，例如搜 'eth' 时 ETHUSDT 排在 ETHBTC 前面）
+ */
+const QUOTE_PRIORITY = ['USDT', 'USDC', 'FDUSD', 'BTC', 'ETH', 'BNB', 'EUR', 'TRY'];
+
+const DEFAULT_LIMIT = 50;
+
+/**
+ * 去掉空格和分隔符并转为大写
+ */
+function normalize(query: string): string {
+  return query.toUpperCase().replace(/[\s\-/_]/g, '');
+}
+
+/**
+ * 子序列匹配得分：query 的字符按顺序出现在 text 中；连续命中得分更高，不匹配返回 0
+ */
+function subsequenceScore(text: string, query: string): number {
+  let score = 0;
+  let streak = 0;
+  let index = 0;
+  for (const char of text) {
+    if (index < query.length && char === query[index]) {
+      index++;
+      streak++;
+      score += streak;
+    } else {
+      streak = 0;
+    }
+  }
+  return index === query.length ? score : 0;
+}
+
+/**
+ * 单个交易对的匹配得分，不匹配返回 0
+ *
+ * 优先级：完整交易对 > 基础资产/计价资产分别匹配 > 基础资产 > 前缀 > 计价资产 > 模糊匹配
+ */
+function scoreSymbol(info: SymbolInfo, query: string, parts: string[]): number {
+  const { symbol, baseAsset, quoteAsset } = info;
+
+  if (symbol === query) return 1000;
+
+  // 'eth btc'、'eth/btc'：分别匹配基础资产和计价资产前缀
+  if (parts.length === 2) {
+    const [base, quote] = parts;
+    if (baseAsset.startsWith(base) && quoteAsset.startsWith(quote)) {
+      return 900 - (baseAsset.length - base.length) - (quoteAsset.length - quote.length);
+    }
+  }
+
+  if (baseAsset === query) return 800;
+  if (symbol.startsWith(query)) return 700 - (symbol.length - query.length);
+  if (baseAsset.includes(query)) return 500 - baseAsset.indexOf(query);
+  if (quoteAsset === query) return 300;
+
+  const fuzzy = subsequenceScore(symbol, query);
+  return fuzzy > 0 ? Math.min(fuzzy, 200) : 0;
+}
+
+/**
+ * 计价资产优先级加分
+ */
+function quoteBonus(quoteAsset: string): number {
+  const index = QUOTE_PRIORITY.indexOf(quoteAsset);
+  return index === -1 ? 0 : QUOTE_PRIORITY.length - index;
+}
+
+/**
+ * 按基础资产/计价资产模糊搜索交易对
+ *
+ * 支持 'eth'、'ethbtc'、'eth/btc'、'eth btc'、'usdc' 等写法；
+ * 同分时收藏优先，其次按常用计价资产排序。
+ *
+ * @example
+ * ```ts
+ * searchSymbols(catalog, 'eth btc'); // [ETHBTC, ...]
+ * ```
+ */
+export function searchSymbols(
+  catalog: readonly SymbolInfo[],
+  query: string,
+  options: SymbolSearchOptions = {}
+): SymbolInfo[] {
+  const { limit = DEFAULT_LIMIT, favorites } = options;
+  const normalized = normalize(query);
+  if (!normalized) return [];
+
+  const parts = query
+    .toUpperCase()
+    .split(/[\s\-/_]+/)
+    .filter(Boolean);
+
+  const matches: { info: SymbolInfo; score: number }[] = [];
+  for (const info of catalog) {
+    const score = scoreSymbol(info, normalized, parts);
+    if (score === 0) continue;
+    const bonus = quoteBonus(info.quoteAsset) + (favorites?.has(info.symbol) ? 20 : 0);
+    matches.push({ info, score: score + bonus });
+  }
+
+  return matches
+    .sort((a, b) => b.score - a.score || a.info.symbol.localeCompare(b.info.symbol))
+    .slice(0, limit)
+    .map((match) => match.info);
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { parseSymbol, toDisplaySymbol, toExchangeSymbol } from './symbols';
+
+describe('symbols', () => {
+  it('splits symbols with separators or a known quote suffix', () => {
+    expect(parseSymbol('eth/btc')).toEqual({ base: 'ETH', quote: 'BTC' });
+    expect(parseSymbol('btcusdt')).toEqual({ base: 'BTC', quote: 'USDT' });
+    expect(parseSymbol('BTCFDUSD')).toEqual({ base: 'BTC', quote: 'FDUSD' });
+  });
+
+  it('passes concatenated symbols with unknown quotes through for Binance and Bybit', () => {
+    expect(toExchangeSymbol('btcpln', 'binance')).toBe('BTCPLN');
+    expect(toExchangeSymbol('usdtuah', 'bybit')).toBe('USDTUAH');
+    expect(toExchangeSymbol('btc-usdt', 'binance')).toBe('BTCUSDT');
+  });
+
+  it('throws INVALID_SYMBOL when OKX or Coinbase need a separator that cannot be found', () => {
+    expect(toExchangeSymbol('btcusdt', 'okx')).toBe('BTC-USDT');
+    expect(() => toExchangeSymbol('btcpln', 'coinbase')).toThrow(
+      expect.objectContaining({ code: 'INVALID_SYMBOL' })
+    );
+    expect(toDisplaySymbol('btcpln')).toEqual({ base: 'BTCPLN', quote: '' });
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * 交易对标识归一化
+ *
+ * 不同交易所的交易对写法各不相同：
+ * - Binance：`BTCUSDT`（REST）/ `btcusdt`（WebSocket）
+ * - OKX：`BTC-USDT`
+ * - Bybit：`BTCUSDT`
+ * - Coinbase：`BTC-USD`
+ *
+ * 统一先解析为 { base, quote }，再按目标交易所格式化。
+ */
+import { DataSourceError } from './types';
+
+/**
+ * 支持的交易所标识
+ */
+export type ExchangeId = 'binance' | 'okx' | 'bybit' | 'coinbase';
+
+/**
+ * 归一化后的交易对
+ */
+export interface MarketSymbol {
+  /** 基础资产（大写，例如 'BTC'） */
+  base: string;
+  /** 计价资产（大写，例如 'USDT'） */
+  quote: string;
+}
+
+/**
+ * 常见计价资产（按长度降序匹配，避免 'USDT' 被误判为 'USD'）
+ */
+const KNOWN_QUOTES = [
+  'FDUSD',
+  'USDT',
+  'USDC',
+  'BUSD',
+  'TUSD',
+  'DAI',
+  'USD',
+  'EUR',
+  'GBP',
+  'TRY',
+  'BRL',
+  'JPY',
+  'BTC',
+  'ETH',
+  'BNB',
+].sort((a, b) => b.length - a.length);
+
+/**
+ * 解析任意写法的交易对
+ *
+ * 支持 'btcusdt'、'BTCUSDT'、'BTC-USDT'、'BTC/USDT'、'BTC_USDT'。
+ * 无分隔符时按已知计价资产后缀拆分。
+ *
+ * @throws {DataSourceError} INVALID_SYMBOL，无法识别计价资产时
+ */
+export function parseSymbol(symbol: string): MarketSymbol {
+  const normalized = symbol.trim().toUpperCase();
+
+  const parts = normalized.split(/[-/_]/);
+  if (parts.length === 2 && parts[0] && parts[1]) {
+    return { base: parts[0], quote: parts[1] };
+  }
+
+  const quote = KNOWN_QUOTES.find(
+    (candidate) => normalized.endsWith(candidate) && normalized.length > candidate.length
+  );
+  if (!quote) {
+    throw new DataSourceError(`Unable to determine quote asset for symbol: ${symbol}`, 'INVALID_SYMBOL');
+  }
+
+  return { base: normalized.slice(0, -quote.length), quote };
+}
+
+/**
+ * 按交易所要求格式化交易对
+ */
+export function formatSymbol(market: MarketSymbol, exchange: ExchangeId): string {
+  switch (exchange) {
+    case 'okx':
+    case 'coinbase':
+      return `${market.base}-${market.quote}`;
+    case 'binance':
+    case 'bybit':
+      return `${market.base}${market.quote}`;
+  }
+}
+
+/**
+ * 将任意写法的交易对转换为目标交易所格式
+ *
+ * Binance、Bybit 的交易对是两种资产直接拼接，无分隔符时原样使用（计价资产不在已知列表中也能订阅，
+ * 例如 BTCPLN）；OKX、Coinbase 需要分隔符，无法拆分时抛出 INVALID_SYMBOL
+ *
+ * @throws {DataSourceError} INVALID_SYMBOL，目标交易所需要分隔符但无法识别计价资产时
+ */
+export function toExchangeSymbol(symbol: string, exchange: ExchangeId): string {
+  if (exchange === 'binance' || exchange === 'bybit') {
+    const normalized = symbol.trim().toUpperCase();
+    if (!/[-/_]/.test(normalized)) return normalized;
+  }
+  return formatSymbol(parseSymbol(symbol), exchange);
+}
+
+/**
+ * 交易对的展示写法，例如 'ethbtc' -> { base: 'ETH', quote: 'BTC' }
+ *
+ * 无法识别计价资产时，整个交易对作为基础资产、计价资产为空
+ */
+export function toDisplaySymbol(symbol: string): MarketSymbol {
+  try {
+    return parseSymbol(symbol);
+  } catch {
+    return { base: symbol.trim().toUpperCase(), quote: '' };
+  }
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import type { UTCTimestamp } from 'lightweight-charts';
+import { averageTrueRange, createCandleTransform, type TransformUpdate } from './transforms';
+import type { CandlestickData } from './types';
+
+function candle(time: number, open: number, high: number, low: number, close: number): CandlestickData {
+  return { time: time as UTCTimestamp, open, high, low, close };
+}
+
+/**
+ * 确定性的随机游走 K 线，每根 K 线附带收盘前的中间推送
+ */
+function randomWalk(count: number): { candles: CandlestickData[]; pushes: CandlestickData[] } {
+  let seed = 7;
+  const random = () => {
+    seed = (seed * 16807) % 2147483647;
+    return seed / 2147483647;
+  };
+
+  const candles: CandlestickData[] = [];
+  const pushes: CandlestickData[] = [];
+  let price = 100;
+  for (let i = 0; i < count; i++) {
+    const time = 1_700_000_000 + i * 60;
+    const open = price;
+    let high = open;
+    let low = open;
+    for (let tick = 0; tick < 3; tick++) {
+      price = Math.round((price + (random() - 0.5) * 6) * 100) / 100;
+      high = Math.max(high, price);
+      low = Math.min(low, price);
+      pushes.push(candle(time, open, high, low, price));
+    }
+    candles.push(candle(time, open, high, low, price));
+  }
+  return { candles, pushes };
+}
+
+/**
+ * 按图表的方式应用一次更新
+ */
+function apply(series: CandlestickData[], { remove, bars }: TransformUpdate): void {
+  if (remove > 0) series.splice(-remove);
+  for (const bar of bars) {
+    if (series.length > 0 && series[series.length - 1].time === bar.time) {
+      series[series.length - 1] = bar;
+    } else {
+      series.push(bar);
+    }
+  }
+}
+
+describe('averageTrueRange', () => {
+  it('returns 0 for fewer than two candles and averages true ranges otherwise', () => {
+    expect(averageTrueRange([candle(0, 1, 2, 0, 1)])).toBe(0);
+    // 真实波幅：max(12 - 9, |12 - 10|, |9 - 10|) = 3，max(11 - 10, |11 - 11|, |10 - 11|) = 1
+    const candles = [candle(0, 10, 10, 10, 10), candle(60, 10, 12, 9, 11), candle(120, 11, 11, 10, 10)];
+    expect(averageTrueRange(candles)).toBe(2);
+  });
+});
+
+describe('createCandleTransform', () => {
+  const { candles, pushes } = randomWalk(60);
+  const history = candles.slice(0, 20);
+  const live = pushes.slice(20 * 3);
+
+  it.each([
+    ['heikin-ashi', {}],
+    ['renko', { boxSize: 2 }],
+    ['range', { rangeSize: 3 }],
+    ['line-break', {}],
+  ] as const)('%s: incremental updates match a full reload', (type, options) => {
+    const transform = createCandleTransform(type, options);
+    const series = transform.load(history);
+    live.forEach((push) => apply(series, transform.update(push)));
+
+    expect(series).toEqual(createCandleTransform(type, options).load(candles));
+  });
+
+  it('drops out-of-order pushes', () => {
+    const transform = createCandleTransform('heikin-ashi');
+    transform.load(history);
+    expect(transform.update(history[0])).toEqual({ remove: 0, bars: [] });
+  });
+
+  it('renko bricks have the box size and reverse only after two boxes', () => {
+    const bricks = createCandleTransform('renko', { boxSize: 1 }).load([
+      candle(0, 10, 10, 10, 10),
+      candle(60, 10, 12.5, 10, 12.5),
+      candle(120, 12.5, 12.5, 11, 11),
+      candle(180, 11, 11, 9.9, 9.9),
+    ]);
+    expect(bricks.map((bar) => [bar.open, bar.close])).toEqual([
+      [10, 11],
+      [11, 12],
+      [11, 10],
+    ]);
+    // 同一根源 K 线内产生的砖块时间依次顺延
+    expect(bricks.map((bar) => bar.time)).toEqual([60, 61, 180]);
+  });
+
+  it.each(['renko', 'range'] as const)(
+    '%s: computes the ATR size on later pushes when the first load is too short',
+    (type) => {
+      const transform = createCandleTransform(type);
+      const series = transform.load(candles.slice(0, 1));
+      expect(series).toEqual([]);
+
+      pushes.slice(3).forEach((push) => apply(series, transform.update(push)));
+      expect(series.length).toBeGreaterThan(0);
+    }
+  );
+});
@@ -0,0 +1,401 @@
+import { UTCTimestamp } from 'lightweight-charts';
+import { CandlestickData } from './types';
+
+/**
+ * 图表类型
+ *
+ * - candles：原始 K 线
+ * - heikin-ashi：平均 K 线
+ * - renko：砖形图（固定砖块大小或按 ATR 计算）
+ * - range：区间 K 线（每根 K 线的高低差固定）
+ * - line-break：折线突破图（默认三线突破）
+ */
+export type ChartType = 'candles' | 'heikin-ashi' | 'renko' | 'range' | 'line-break';
+
+/**
+ * K 线变换配置
+ */
+export interface CandleTransformOptions {
+  /** Renko 砖块大小（价格单位），不设置时使用 ATR */
+  boxSize?: number;
+  /** 区间 K 线的高低差（价格单位），不设置时使用 ATR */
+  rangeSize?: number;
+  /** 计算 ATR 的周期，默认 14 */
+  atrPeriod?: number;
+  /** 折线突破的参考线数，默认 3 */
+  lineCount?: number;
+}
+
+/**
+ * 一次实时更新对图表的修改
+ *
+ * 先从序列末尾移除 remove 根，再按顺序 update bars（时间与最后一根相同则原地更新）。
+ */
+export interface TransformUpdate {
+  remove: number;
+  bars: CandlestickData[];
+}
+
+/**
+ * 增量 K 线变换
+ */
+export interface CandleTransform {
+  /** 用历史数据重建，返回完整的变换结果 */
+  load(candles: CandlestickData[]): CandlestickData[];
+  /** 处理一次实时推送 */
+  update(candle: CandlestickData): TransformUpdate;
+}
+
+/**
+ * 单根源 K 线的处理结果
+ */
+interface TransformStep<S> {
+  state: S;
+  /** 本次新增或改动的输出 K 线 */
+  bars: CandlestickData[];
+}
+
+type StepFn<S> = (state: S, candle: CandlestickData) => TransformStep<S>;
+
+const DEFAULT_ATR_PERIOD = 14;
+const DEFAULT_LINE_COUNT = 3;
+
+/**
+ * 平均真实波幅（Wilder 平滑）
+ *
+ * @param candles 按时间升序排列的 K 线
+ * @returns K 线不足两根时返回 0
+ */
+export function averageTrueRange(candles: CandlestickData[], period = DEFAULT_ATR_PERIOD): number {
+  if (candles.length < 2) return 0;
+
+  let atr = 0;
+  for (let i = 1; i < candles.length; i++) {
+    const { high, low } = candles[i];
+    const prevClose = candles[i - 1].close;
+    const trueRange = Math.max(high - low, Math.abs(high - prevClose), Math.abs(low - prevClose));
+    // 前 period 根取简单平均，之后按 Wilder 平滑
+    const n = Math.min(i, period);
+    atr += (trueRange - atr) / n;
+  }
+  return atr;
+}
+
+/**
+ * 非时间驱动的 K 线（砖块、区间 K 线等）可能在同一根源 K 线内产生多根，
+ * 时间依次顺延 1 秒，保证序列时间严格递增
+ */
+function nextBarTime(lastTime: number, candleTime: number): UTCTimestamp {
+  return Math.max(candleTime, lastTime + 1) as UTCTimestamp;
+}
+
+function toBar(time: UTCTimestamp, open: number, close: number): CandlestickData {
+  return { time, open, close, high: Math.max(open, close), low: Math.min(open, close) };
+}
+
+/**
+ * 基于逐根处理函数构建增量变换
+ *
+ * 已被更新时间的 K 线取代的源 K 线视为收盘，其结果写入已提交状态；
+ * 当前未收盘的 K 线每次推送都从已提交状态重新计算，并移除上一次推送产生的输出，
+ * 因此实时结果与用同样数据重新 load 的结果一致。
+ *
+ * @param prepare 根据已有 K 线初始化参数（如 ATR 砖块大小），返回是否已就绪；
+ *   load 时传入历史数据，数据不足时之后每次推送都用累计的 K 线重试
+ */
+function createIncrementalTransform<S>(
+  initialState: () => S,
+  step: StepFn<S>,
+  prepare?: (candles: CandlestickData[]) => boolean
+): CandleTransform {
+  let committed = initialState();
+  let pending: CandlestickData | null = null;
+  let provisional = 0;
+  let ready = !prepare;
+  // 参数就绪前收到的 K 线（就绪后清空）
+  let unprepared: CandlestickData[] = [];
+
+  const update = (candle: CandlestickData): TransformUpdate => {
+    // 早于当前 K 线的乱序数据直接丢弃
+    if (pending && candle.time < pending.time) return { remove: 0, bars: [] };
+
+    if (prepare && !ready) {
+      const last = unprepared[unprepared.length - 1];
+      if (last && last.time === candle.time) unprepared[unprepared.length - 1] = candle;
+      else unprepared.push(candle);
+      ready = prepare(unprepared);
+      if (ready) unprepared = [];
+    }
+
+    let remove = 0;
+    if (pending && candle.time === pending.time) {
+      remove = provisional;
+    } else if (pending) {
+      committed = step(committed, pending).state;
+    }
+
+    pending = candle;
+    const { bars } = step(committed, candle);
+    provisional = bars.length;
+    return { remove, bars };
+  };
+
+  return {
+    load(candles) {
+      committed = initialState();
+      pending = null;
+      provisional = 0;
+      unprepared = [];
+      ready = prepare ? prepare(candles) : true;
+
+      const result: CandlestickData[] = [];
+      for (const candle of candles) {
+        const { remove, bars } = update(candle);
+        if (remove > 0) result.splice(-remove);
+        for (const bar of bars) {
+          if (result.length > 0 && result[result.length - 1].time === bar.time) {
+            result[result.length - 1] = bar;
+          } else {
+            result.push(bar);
+          }
+        }
+      }
+      return result;
+    },
+    update,
+  };
+}
+
+/**
+ * 平均 K 线（Heikin-Ashi）
+ */
+function createHeikinAshiTransform(): CandleTransform {
+  return createIncrementalTransform<{ open: number; close: number } | null>(
+    () => null,
+    (prev, candle) => {
+      const close = (candle.open + candle.high + candle.low + candle.close) / 4;
+      const open = prev ? (prev.open + prev.close) / 2 : (candle.open + candle.close) / 2;
+      const bar: CandlestickData = {
+        time: candle.time,
+        open,
+        high: Math.max(candle.high, open, close),
+        low: Math.min(candle.low, open, close),
+        close,
+      };
+      return { state: { open, close }, bars: [bar] };
+    }
+  );
+}
+
+/**
+ * 用最近的已收盘 K 线计算 ATR（不含最后一根未收盘 K 线，避免砖块大小随推送抖动）
+ */
+function closedAtr(candles: CandlestickData[], period: number): number {
+  return averageTrueRange(candles.slice(-period - 2, -1), period);
+}
+
+interface RenkoState {
+  /** 首根 K 线收盘价，第一块砖从这里开始 */
+  base: number | null;
+  last: { open: number; close: number } | null;
+  lastTime: number;
+}
+
+/**
+ * 砖形图（按收盘价，反转需要两块砖的幅度）
+ */
+function createRenkoTransform(options: CandleTransformOptions): CandleTransform {
+  const period = options.atrPeriod ?? DEFAULT_ATR_PERIOD;
+  let boxSize = options.boxSize ?? 0;
+
+  return createIncrementalTransform<RenkoState>(
+    () => ({ base: null, last: null, lastTime: 0 }),
+    (state, candle) => {
+      const price = candle.close;
+      if (state.base === null) return { state: { ...state, base: price }, bars: [] };
+      if (!(boxSize > 0)) return { state, bars: [] };
+
+      let { open, close } = state.last ?? { open: state.base, close: state.base };
+      let lastTime = state.lastTime;
+      const bars: CandlestickData[] = [];
+
+      for (;;) {
+        const rising = close > open;
+        const falling = close < open;
+        let next: { open: number; close: number };
+
+        if (!falling && price >= close + boxSize) {
+          next = { open: close, close: close + boxSize };
+        } else if (falling && price >= open + boxSize) {
+          next = { open, close: open + boxSize };
+        } else if (!rising && price <= close - boxSize) {
+          next = { open: close, close: close - boxSize };
+        } else if (rising && price <= open - boxSize) {
+          next = { open, close: open - boxSize };
+        } else {
+          break;
+        }
+
+        ({ open, close } = next);
+        const time = nextBarTime(lastTime, candle.time);
+        lastTime = time;
+        bars.push(toBar(time, open, close));
+      }
+
+      if (bars.length === 0) return { state, bars };
+      return { state: { base: state.base, last: { open, close }, lastTime }, bars };
+    },
+    (candles) => {
+      if (options.boxSize === undefined) boxSize = closedAtr(candles, period);
+      return boxSize > 0;
+    }
+  );
+}
+
+interface RangeState {
+  /** 正在形成的区间 K 线 */
+  bar: CandlestickData | null;
+}
+
+/**
+ * 区间 K 线：高低差达到 rangeSize 即收盘，下一根从收盘价开始
+ *
+ * 源 K 线内的价格路径按 开 → 先到的极值 → 后到的极值 → 收 近似（阳线先低后高，阴线先高后低）。
+ */
+function createRangeTransform(options: CandleTransformOptions): CandleTransform {
+  const period = options.atrPeriod ?? DEFAULT_ATR_PERIOD;
+  let rangeSize = options.rangeSize ?? 0;
+
+  return createIncrementalTransform<RangeState>(
+    () => ({ bar: null }),
+    (state, candle) => {
+      if (!(rangeSize > 0)) return { state, bars: [] };
+
+      const path =
+        candle.close >= candle.open
+          ? [candle.open, candle.low, candle.high, candle.close]
+          : [candle.open, candle.high, candle.low, candle.close];
+
+      let bar = state.bar;
+      // 已存在的形成中 K 线也可能被本根源 K 线改动，需要一并输出
+      const bars: CandlestickData[] = [];
+      const open = (price: number): CandlestickData => {
+        const time = nextBarTime(bar?.time ?? 0, candle.time);
+        const next = { time, open: price, high: price, low: price, close: price };
+        bars.push(next);
+        return next;
+      };
+
+      if (bar) {
+        bar = { ...bar };
+        bars.push(bar);
+      }
+
+      for (const price of path) {
+        if (!bar) {
+          bar = open(price);
+          continue;
+        }
+        while (price > bar.low + rangeSize) {
+          bar.high = bar.close = bar.low + rangeSize;
+          bar = open(bar.close);
+        }
+        while (price < bar.high - rangeSize) {
+          bar.low = bar.close = bar.high - rangeSize;
+          bar = open(bar.close);
+        }
+        bar.high = Math.max(bar.high, price);
+        bar.low = Math.min(bar.low, price);
+        bar.close = price;
+      }
+
+      return { state: { bar }, bars };
+    },
+    (candles) => {
+      if (options.rangeSize === undefined) rangeSize = closedAtr(candles, period);
+      return rangeSize > 0;
+    }
+  );
+}
+
+interface LineBreakState {
+  /** 首根 K 线收盘价，第一条线从这里开始 */
+  base: number | null;
+  /** 最近 lineCount 条线 */
+  lines: CandlestickData[];
+}
+
+/**
+ * 折线突破图：按收盘价，顺势创新高/新低即加线，突破最近 lineCount 条线的极值才反转
+ */
+function createLineBreakTransform(options: CandleTransformOptions): CandleTransform {
+  const lineCount = options.lineCount ?? DEFAULT_LINE_COUNT;
+
+  return createIncrementalTransform<LineBreakState>(
+    () => ({ base: null, lines: [] }),
+    (state, candle) => {
+      const price = candle.close;
+      if (state.base === null) return { state: { ...state, base: price }, bars: [] };
+
+      const last = state.lines[state.lines.length - 1];
+      let open: number | null = null;
+
+      if (!last) {
+        if (price !== state.base) open = state.base;
+      } else if (last.close > last.open) {
+        const low = Math.min(...state.lines.map((line) => line.low));
+        if (price > last.close) open = last.close;
+        else if (price < low) open = last.open;
+      } else {
+        const high = Math.max(...state.lines.map((line) => line.high));
+        if (price < last.close) open = last.close;
+        else if (price > high) open = last.open;
+      }
+
+      if (open === null) return { state, bars: [] };
+
+      const line = toBar(nextBarTime(last?.time ?? 0, candle.time), open, price);
+      return {
+        state: { base: state.base, lines: [...state.lines, line].slice(-lineCount) },
+        bars: [line],
+      };
+    }
+  );
+}
+
+/**
+ * 创建 K 线变换
+ *
+ * @example
+ * ```ts
+ * const transform = createCandleTransform('renko', { boxSize: 50 });
+ * series.setData(transform.load(candles));
+ *
+ * // 实时推送
+ * const { remove, bars } = transform.update(candle);
+ * if (remove > 0) series.pop(remove);
+ * bars.forEach((bar) => series.update(bar));
+ * ```
+ */
+export function createCandleTransform(
+  type: Exclude<ChartType, 'candles'>,
+  options: CandleTransformOptions = {}
+): CandleTransform {
+  switch (type) {
+    case 'heikin-ashi':
+      return createHeikinAshiTransform();
+    case 'renko':
+      return createRenkoTransform(options);
+    case 'range':
+      return createRangeTransform(options);
+    case 'line-break':
+      return createLineBreakTransform(options);
+  }
+}
+
+/**
+ * 是否为按时间分布的图表类型（与成交量柱一一对应）
+ */
+export function isTimeBasedChartType(type: ChartType): boolean {
+  return type === 'candles' || type === 'heikin-ashi';
+}
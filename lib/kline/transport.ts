@@ -0,0 +1,128 @@
+import type { CombinedStreamOptions, ConnectionStatus, HeartbeatOptions } from './types';
+import type { ConnectionMetrics } from './streamMetrics';
+import { WebSocketManager } from './WebSocketManager';
+import { WorkerTransport } from './WorkerTransport';
+import { createSseWebSocketFactory } from './sseTransport';
+
+/**
+ * WebSocket 传输层
+ *
+ * WebSocketManager（页面内连接）和 WorkerTransport（Worker 中的连接）都实现这一接口，
+ * 数据源和 Hook 只依赖接口，通过 getWebSocketTransport 获取当前实现
+ */
+export interface WebSocketTransport {
+  /**
+   * 订阅 WebSocket 数据流（参数含义见 WebSocketManager.subscribe）
+   *
+   * @returns unsubscribe 取消订阅函数
+   */
+  subscribe(
+    key: string,
+    url: string,
+    callback: (data: unknown) => void,
+    maxReconnectAttempts?: number,
+    heartbeat?: HeartbeatOptions,
+    subscribeMessage?: unknown
+  ): () => void;
+  /**
+   * 订阅组合流中的单个数据流（参数含义见 WebSocketManager.subscribeStream）
+   *
+   * @returns unsubscribe 取消订阅函数
+   */
+  subscribeStream(
+    baseUrl: string,
+    stream: string,
+    callback: (data: unknown) => void,
+    options?: CombinedStreamOptions
+  ): () => void;
+  /** 全部连接的状态快照（兼容 useSyncExternalStore） */
+  getStatusSnapshot(): readonly ConnectionStatus[];
+  /** 监听连接状态变化 */
+  subscribeStatus(listener: () => void): () => void;
+  /** 连接和数据流指标 */
+  getMetrics(): ConnectionMetrics[];
+  /** 清空指标计数 */
+  resetMetrics(): void;
+  /** 立即重连指定连接 */
+  reconnect(key: string): boolean;
+  /** 重连所有未连通的连接 */
+  reconnectAll(options?: { includeConnected?: boolean; onlyFailed?: boolean }): number;
+}
+
+/**
+ * 传输方式
+ *
+ * - worker：连接、解析、盘口维护和 K 线聚合都在当前标签页专属的 Worker 中完成（默认）
+ * - shared-worker：同源标签页通过 SharedWorker 共用连接和解析
+ * - in-page：全部在主线程完成
+ * - sse：Binance 数据流经服务端中继（app/api/stream）以 Server-Sent Events 接收，适用于无法直连 WebSocket 的网络
+ *
+ * Worker / EventSource 不可用时（例如测试环境）自动回退到 in-page
+ */
+export type WebSocketTransportMode = 'in-page' | 'worker' | 'shared-worker' | 'sse';
+
+/**
+ * 读取环境变量 NEXT_PUBLIC_WS_TRANSPORT（Next.js 只内联字面量访问）
+ */
+function resolveInitialMode(): WebSocketTransportMode {
+  const value = process.env.NEXT_PUBLIC_WS_TRANSPORT;
+  return value === 'in-page' || value === 'shared-worker' || value === 'sse' ? value : 'worker';
+}
+
+let mode: WebSocketTransportMode = resolveInitialMode();
+let transport: WebSocketTransport | null = null;
+
+/**
+ * 设置传输方式（需在建立订阅前调用，已创建的传输层不会切换）
+ *
+ * @example
+ * ```ts
+ * configureWebSocketTransport('shared-worker');
+ * ```
+ */
+export function configureWebSocketTransport(nextMode: WebSocketTransportMode): void {
+  if (transport && nextMode !== mode) {
+    console.warn('[WebSocketTransport] Transport already in use, mode change ignored');
+    return;
+  }
+  mode = nextMode;
+}
+
+/**
+ * 获取当前传输层（首次调用时创建）
+ *
+ * 浏览器不支持 Worker / SharedWorker 或创建失败时，回退到页面内的 WebSocketManager
+ */
+export function getWebSocketTransport(): WebSocketTransport {
+  if (transport) return transport;
+
+  // WorkerTransport 需要监听页面生命周期，只在浏览器主线程中创建
+  const inPage = typeof window !== 'undefined';
+
+  // SSE 中继：订阅接口不变，只替换页面内 WebSocketManager 的连接工厂
+  if (inPage && mode === 'sse' && typeof EventSource !== 'undefined') {
+    transport = new WebSocketManager({ webSocketFactory: createSseWebSocketFactory() });
+    console.log('[WebSocketTransport] Using SSE relay transport');
+    return transport;
+  }
+
+  const kind =
+    inPage && mode === 'shared-worker' && typeof SharedWorker !== 'undefined'
+      ? 'shared'
+      : inPage && mode === 'worker' && typeof Worker !== 'undefined'
+        ? 'dedicated'
+        : null;
+
+  if (kind) {
+    try {
+      transport = new WorkerTransport(kind);
+      console.log(`[WebSocketTransport] Using ${kind} worker transport`);
+      return transport;
+    } catch (error) {
+      console.warn('[WebSocketTransport] Worker unavailable, falling back to in-page:', error);
+    }
+  }
+
+  transport = WebSocketManager.getInstance();
+  return transport;
+}
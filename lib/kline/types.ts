@@ -1,4 +1,5 @@
 import { ChartOptions, DeepPartial, UTCTimestamp } from 'lightweight-charts';
+import type { LatestValue } from './delivery';
 
 /**
  * K 线数据点接口
@@ -11,10 +12,102 @@ export interface CandlestickData {
   close: number;
 }
 
+/**
+ * 扩展 K 线数据（包含成交量等统计字段）
+ *
+ * 在 CandlestickData 基础上补充 Binance K 线中的成交量、成交笔数和收盘状态，
+ * 可直接传给 lightweight-charts 的蜡烛图系列（多余字段会被忽略）。
+ */
+export interface KlineCandle extends CandlestickData {
+  /** 成交量（基础资产，对应 Binance `v`） */
+  volume: number;
+  /** 成交额（计价资产，对应 Binance `q`） */
+  quoteVolume: number;
+  /** 成交笔数（对应 Binance `n`，部分交易所不提供） */
+  trades?: number;
+  /** 主动买入成交量（基础资产，对应 Binance `V`，部分交易所不提供） */
+  takerBuyVolume?: number;
+  /** 主动买入成交额（计价资产，对应 Binance `Q`，部分交易所不提供） */
+  takerBuyQuoteVolume?: number;
+  /** 该 K 线是否已收盘（对应 Binance `x`） */
+  isClosed: boolean;
+}
+
+/**
+ * K 线周期单位：秒、分、时、日、周、月
+ */
+export type IntervalUnit = 's' | 'm' | 'h' | 'd' | 'w' | 'M';
+
+/**
+ * Binance 原生支持的 K 线周期
+ */
+export type NativeKlineInterval =
+  | '1s'
+  | '1m'
+  | '3m'
+  | '5m'
+  | '15m'
+  | '30m'
+  | '1h'
+  | '2h'
+  | '4h'
+  | '6h'
+  | '8h'
+  | '12h'
+  | '1d'
+  | '3d'
+  | '1w'
+  | '1M';
+
+/**
+ * 自定义 K 线周期（例如 10m、45m、2d），由原生周期在客户端重采样得到
+ */
+export type CustomKlineInterval = `${number}${IntervalUnit}`;
+
 /**
  * K 线时间周期类型
  */
-export type KlineInterval = '1m' | '5m' | '15m' | '1h' | '4h' | '1d';
+export type KlineInterval = NativeKlineInterval | CustomKlineInterval;
+
+/**
+ * 按时间范围查询 K 线的参数
+ */
+export interface KlineTimeRange {
+  /** 开始时间（Unix 时间戳，毫秒） */
+  startTime?: number;
+  /** 结束时间（Unix 时间戳，毫秒） */
+  endTime?: number;
+  /** 返回的数据条数 */
+  limit?: number;
+}
+
+/**
+ * 分页拉取进度
+ */
+export interface KlineRangeProgress {
+  /** 已完成的页数 */
+  completedPages: number;
+  /** 总页数 */
+  totalPages: number;
+  /** 已获取的 K 线条数 */
+  loadedCandles: number;
+}
+
+/**
+ * 任意长度时间范围查询参数（自动分页）
+ */
+export interface KlineRangeOptions {
+  /** 开始时间（Unix 时间戳，毫秒） */
+  startTime: number;
+  /** 结束时间（Unix 时间戳，毫秒），默认当前时间 */
+  endTime?: number;
+  /** 同时进行的请求数，默认 3 */
+  concurrency?: number;
+  /** 每完成一页回调一次 */
+  onProgress?: (progress: KlineRangeProgress) => void;
+  /** 取消信号，取消后不再发起新的分页请求 */
+  signal?: AbortSignal;
+}
 
 /**
  * K 线数据源抽象接口
@@ -25,20 +118,27 @@ export type KlineInterval = '1m' | '5m' | '15m' | '1h' | '4h' | '1d';
  * - 统一错误处理和重试机制
  */
 export interface IKlineDataSource {
+  /**
+   * 数据源标识（例如 'binance'），用于区分不同数据源的查询缓存
+   */
+  readonly id: string;
+
   /**
    * 获取历史 K 线数据
    *
    * @param symbol 交易对标识（例如 'btcusdt'）
    * @param interval K 线时间周期
    * @param limit 返回的数据条数（默认 100）
-   * @returns Promise<CandlestickData[]> 历史 K 线数据数组
-   * @throws {DataSourceError} 当数据获取失败时
+   * @param signal 取消信号（取消后停止请求和重试，抛出 ABORTED）
+   * @returns Promise<KlineCandle[]> 历史 K 线数据数组
+   * @throws {DataSourceError} 当数据获取失败或被取消时
    */
   fetchHistorical(
     symbol: string,
     interval: KlineInterval,
-    limit?: number
-  ): Promise<CandlestickData[]>;
+    limit?: number,
+    signal?: AbortSignal
+  ): Promise<KlineCandle[]>;
 
   /**
    * 根据时间范围获取历史 K 线数据
@@ -49,18 +149,33 @@ export interface IKlineDataSource {
    * @param options.startTime 开始时间（Unix 时间戳，毫秒）
    * @param options.endTime 结束时间（Unix 时间戳，毫秒）
    * @param options.limit 返回的数据条数（最大 1000）
-   * @returns Promise<CandlestickData[]> 历史 K 线数据数组
-   * @throws {DataSourceError} 当数据获取失败时
+   * @param signal 取消信号（取消后停止请求和重试，抛出 ABORTED）
+   * @returns Promise<KlineCandle[]> 历史 K 线数据数组
+   * @throws {DataSourceError} 当数据获取失败或被取消时
    */
   fetchHistoricalByTimeRange(
     symbol: string,
     interval: KlineInterval,
-    options: {
-      startTime?: number;
-      endTime?: number;
-      limit?: number;
-    }
-  ): Promise<CandlestickData[]>;
+    options: KlineTimeRange,
+    signal?: AbortSignal
+  ): Promise<KlineCandle[]>;
+
+  /**
+   * 获取任意长度时间范围的 K 线数据（不受单次 limit 限制）
+   *
+   * 按单次请求上限拆分为多页，并发拉取后合并去重。
+   *
+   * @param symbol 交易对标识
+   * @param interval K 线时间周期
+   * @param options 时间范围、并发数和进度回调
+   * @returns Promise<KlineCandle[]> 按时间升序排列的 K 线数组
+   * @throws {DataSourceError} 当任一页获取失败时
+   */
+  fetchHistoricalRange(
+    symbol: string,
+    interval: KlineInterval,
+    options: KlineRangeOptions
+  ): Promise<KlineCandle[]>;
 
   /**
    * 订阅实时 K 线数据推送
@@ -68,31 +183,88 @@ export interface IKlineDataSource {
    * @param symbol 交易对标识
    * @param interval K 线时间周期
    * @param callback 接收实时数据的回调函数
+   * @param options 订阅选项（投递策略默认每帧最多一次）
    * @returns unsubscribe 取消订阅的函数
    */
   subscribe(
     symbol: string,
     interval: KlineInterval,
-    callback: (data: CandlestickData) => void
+    callback: (data: KlineCandle) => void,
+    options?: SubscribeOptions<KlineCandle>
   ): () => void;
 
+  /**
+   * 实时数据流标识（对应 ConnectionStatus.streams），用于查询连接状态
+   *
+   * 不经过 WebSocketManager 的数据源（例如模拟数据源）不需要实现
+   */
+  getStreamId?(symbol: string, interval: KlineInterval): string;
+
   /**
    * 资源清理方法
    */
   destroy(): void;
 }
 
+/**
+ * 数据源错误码
+ *
+ * 是否可重试由 RetryPolicy 按错误码判断（见 RetryPolicy.ts）
+ */
+export type DataSourceErrorCode =
+  // 调用方问题：参数、交易对、周期无效，重试无意义
+  | 'INVALID_PARAMETER'
+  | 'INVALID_SYMBOL'
+  | 'UNSUPPORTED_INTERVAL'
+  // 网络与服务端问题：通常是暂时的，可重试
+  | 'NETWORK_ERROR'
+  | 'TIMEOUT'
+  | 'SERVER_ERROR'
+  | 'CONNECTION_CLOSED'
+  // 交易所拒绝请求（4xx 或业务错误码）
+  | 'HTTP_ERROR'
+  | 'API_ERROR'
+  // 响应内容无法解析
+  | 'INVALID_FORMAT'
+  | 'PARSE_ERROR'
+  // 限频与封禁：需等待 retryAfter 后再请求
+  | 'RATE_LIMITED'
+  | 'IP_BANNED'
+  // 调用方取消
+  | 'ABORTED'
+  // 重试耗尽
+  | 'FETCH_FAILED';
+
+/**
+ * 数据源错误的附加信息
+ */
+export interface DataSourceErrorDetails {
+  /** 原始错误 */
+  originalError?: unknown;
+  /** 服务端建议的重试等待时间（毫秒），限频（RATE_LIMITED / IP_BANNED）时提供 */
+  retryAfter?: number;
+  /** HTTP 状态码 */
+  status?: number;
+}
+
 /**
  * 数据源错误类型
  */
 export class DataSourceError extends Error {
+  public originalError?: unknown;
+  public retryAfter?: number;
+  public status?: number;
+
   constructor(
     message: string,
-    public code: string,
-    public originalError?: unknown
+    public code: DataSourceErrorCode,
+    details: DataSourceErrorDetails = {}
   ) {
     super(message);
     this.name = 'DataSourceError';
+    this.originalError = details.originalError;
+    this.retryAfter = details.retryAfter;
+    this.status = details.status;
   }
 }
 
@@ -115,8 +287,35 @@ export interface HeartbeatOptions {
   interval?: number;
   /** 无消息超时（毫秒），超时则判定连接失效并触发重连，默认 60000 */
   timeout?: number;
+  /** 每次检测时主动发送的应用层 ping（OKX/Bybit 等要求客户端定期 ping） */
+  pingMessage?: string;
+  /** 服务端 pong 响应（非 JSON 文本），收到后仅刷新心跳，不分发给订阅者 */
+  pongMessage?: string;
 }
 
+/**
+ * WebSocketManager 使用的连接接口（浏览器 WebSocket 满足该接口，测试时可注入替身）
+ */
+export interface WebSocketLike {
+  readonly readyState: number;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+  onopen: ((event: Event) => void) | null;
+  onmessage: ((event: MessageEvent) => void) | null;
+  onerror: ((event: Event) => void) | null;
+  onclose: ((event: CloseEvent) => void) | null;
+}
+
+/**
+ * 创建 WebSocket 连接
+ *
+ * @example
+ * ```ts
+ * const factory: WebSocketFactory = (url) => new WebSocket(url.replace('wss://', 'ws://'));
+ * ```
+ */
+export type WebSocketFactory = (url: string) => WebSocketLike;
+
 /**
  * WebSocket 订阅配置
  */
@@ -129,6 +328,87 @@ export interface WebSocketSubscription {
   maxReconnectAttempts: number;
   /** 心跳检测配置（可选，不传则使用默认值） */
   heartbeat?: HeartbeatOptions;
+  /** 连接建立（含重连）后发送的订阅消息，用于需要显式订阅的交易所 */
+  subscribeMessage?: unknown;
+  /** 每次连接（含重连）前计算连接地址，提供时忽略 url（组合流按当前订阅拼接地址） */
+  resolveUrl?: () => string;
+  /** 连接建立（含重连）后的回调，组合流用于补发订阅 */
+  onOpen?: () => void;
+  /** 自定义消息分发（提供时替代逐个调用 callbacks），组合流按 stream 字段路由 */
+  route?: (data: unknown, bytes: number) => void;
+}
+
+/**
+ * 连接状态快照（每次变化生成新对象，可直接用于 useSyncExternalStore）
+ */
+export interface ConnectionStatus {
+  /** 连接键 */
+  key: string;
+  /** 连接地址（组合流不含 streams 参数） */
+  url: string;
+  /** 连接承载的数据流（普通订阅为订阅键） */
+  streams: string[];
+  state: WebSocketState;
+  /** 进入当前状态的原因（断开、重连、失败时提供） */
+  reason?: string;
+  /** 导致断开或失败的错误 */
+  error?: DataSourceError;
+  /** 当前重连次数（连接成功后归零） */
+  attempt: number;
+  /** 最大重连次数 */
+  maxAttempts: number;
+  /** 下次重连时间（毫秒时间戳），仅 RECONNECTING 时有值 */
+  nextRetryAt: number | null;
+  /** 重连已暂停（网络离线或标签页隐藏时挂起），恢复后自动重连 */
+  paused: boolean;
+  /** 状态更新时间（毫秒时间戳） */
+  updatedAt: number;
+}
+
+/**
+ * 后台标签页策略
+ */
+export interface BackgroundPolicy {
+  /** 标签页隐藏时挂起所有连接，回到前台后恢复，默认 false */
+  suspendWhenHidden: boolean;
+  /** 隐藏多久后挂起（毫秒），默认 60000；短暂切换标签页不会断开 */
+  suspendDelay?: number;
+}
+
+/**
+ * 实时推送的投递策略
+ *
+ * - every：每条消息立即回调（告警等非可视化消费者）
+ * - raf：每帧最多回调一次，只保留最新值（图表等可视化消费者）
+ * - throttle：每 interval 毫秒最多回调一次，首条立即发送，窗口内的最新值在窗口结束时发送
+ * - latest：不回调，只把最新值写入 target，由调用方按需读取
+ */
+export type DeliveryPolicy<T> =
+  | { mode: 'every' }
+  | { mode: 'raf' }
+  | { mode: 'throttle'; interval: number }
+  | { mode: 'latest'; target: LatestValue<T> };
+
+/**
+ * 实时订阅选项
+ */
+export interface SubscribeOptions<T> {
+  /** 投递策略 */
+  delivery?: DeliveryPolicy<T>;
+}
+
+/**
+ * 组合流连接配置（Binance `/stream?streams=`）
+ */
+export interface CombinedStreamOptions {
+  /** 单个连接最多承载的数据流数量，超出后新建连接，默认 1024 */
+  maxStreamsPerConnection?: number;
+  /** 单个连接每秒最多发送的控制消息数量（SUBSCRIBE / UNSUBSCRIBE），默认 5 */
+  maxMessagesPerSecond?: number;
+  /** 连接地址中最多携带的数据流数量，其余在连接建立后通过 SUBSCRIBE 订阅，默认 100 */
+  maxUrlStreams?: number;
+  /** 心跳检测配置（可选） */
+  heartbeat?: HeartbeatOptions;
 }
 
 /**
@@ -0,0 +1,208 @@
+/**
+ * Worker 入口：持有物理 WebSocket 连接，在 Worker 内完成解析、盘口维护和 K 线聚合，
+ * 再把可渲染的快照通过 MessagePort 分发给各标签页
+ *
+ * 同一个入口既可作为 SharedWorker（多标签页共享）也可作为专属 Worker 运行，
+ * 由 WorkerTransport 创建，不直接导入
+ */
+import { WebSocketManager } from './WebSocketManager';
+import { configureWebSocketTransport } from './transport';
+import { InlineMarketDataFeed } from './MarketDataFeed';
+import { EVERY_DELIVERY } from './delivery';
+import { getBinanceEndpoints, setBinanceEndpoints, BinanceEndpoints } from './endpoints';
+import { TAB_TIMEOUT, type TabMessage, type WorkerMessage } from './workerProtocol';
+import type { ConnectionStatus } from './types';
+
+/** 标签页端口（SharedWorker 为 MessagePort，专属 Worker 为全局作用域） */
+interface TabPort {
+  postMessage(message: unknown): void;
+  close(): void;
+}
+
+/**
+ * 已连接的标签页
+ */
+interface TabConnection {
+  port: TabPort;
+  /** 订阅 id（标签页内唯一）-> 取消订阅函数 */
+  subscriptions: Map<number, () => void>;
+  /** 最近一次收到该标签页消息的时间 */
+  lastSeen: number;
+}
+
+/** worker 全局作用域（tsconfig 未包含 webworker lib，这里只声明用到的部分） */
+const scope = self as unknown as {
+  onconnect?: ((event: MessageEvent) => void) | null;
+  onmessage: ((event: MessageEvent<TabMessage>) => void) | null;
+  postMessage(message: unknown): void;
+  addEventListener(type: 'online', listener: () => void): void;
+};
+
+// Worker 内的数据源直接使用本线程的 WebSocketManager
+configureWebSocketTransport('in-page');
+
+const manager = WebSocketManager.getInstance();
+const feed = new InlineMarketDataFeed(manager);
+const tabs = new Set<TabConnection>();
+
+/**
+ * 状态中的错误对象无法完整跨线程传递（会丢失 code），只保留 reason 文本
+ */
+function serializeStatuses(): ConnectionStatus[] {
+  return manager.getStatusSnapshot().map((status) => ({ ...status, error: undefined }));
+}
+
+function send(tab: TabConnection, message: WorkerMessage): void {
+  tab.port.postMessage(message);
+}
+
+/**
+ * 地址相同时不切换，避免已有订阅无谓重连
+ */
+function applyBinanceEndpoints(endpoints: BinanceEndpoints): void {
+  const current = getBinanceEndpoints();
+  if (current.restBase === endpoints.restBase && current.wsBase === endpoints.wsBase) return;
+  setBinanceEndpoints(endpoints.name === 'custom' ? endpoints : endpoints.name);
+}
+
+/**
+ * 退订标签页的全部数据流并断开
+ */
+function closeTab(tab: TabConnection): void {
+  tab.subscriptions.forEach((unsubscribe) => unsubscribe());
+  tab.subscriptions.clear();
+  tab.port.close();
+  tabs.delete(tab);
+  console.log(`[WebSocketWorker] Tab closed, ${tabs.size} tab(s) remaining`);
+}
+
+/**
+ * 登记订阅（相同 id 重复订阅时先退订旧的，例如页面从 bfcache 恢复）
+ */
+function addSubscription(
+  tab: TabConnection,
+  id: number,
+  subscribe: (callback: (data: unknown) => void) => () => void
+): void {
+  tab.subscriptions.get(id)?.();
+  tab.subscriptions.set(
+    id,
+    subscribe((data) => send(tab, { type: 'message', id, data }))
+  );
+}
+
+function handleTabMessage(tab: TabConnection, message: TabMessage): void {
+  tab.lastSeen = Date.now();
+
+  switch (message.type) {
+    case 'subscribe':
+      addSubscription(tab, message.id, (callback) =>
+        manager.subscribe(
+          message.key,
+          message.url,
+          callback,
+          message.maxReconnectAttempts,
+          message.heartbeat,
+          message.subscribeMessage
+        )
+      );
+      break;
+    case 'subscribeStream':
+      addSubscription(tab, message.id, (callback) =>
+        manager.subscribeStream(message.baseUrl, message.stream, callback, message.options)
+      );
+      break;
+    case 'subscribeOrderBook':
+      addSubscription(tab, message.id, (callback) =>
+        feed.subscribeOrderBook(message.request, callback)
+      );
+      break;
+    case 'subscribeTrades':
+      addSubscription(tab, message.id, (callback) => feed.subscribeTrades(message.request, callback));
+      break;
+    case 'subscribeKlines':
+      // 逐条转发，按帧节流等投递策略由标签页执行（Worker 中没有可靠的动画帧）
+      addSubscription(tab, message.id, (callback) =>
+        feed.subscribeKlines(message.request, callback, { delivery: EVERY_DELIVERY })
+      );
+      break;
+    case 'unsubscribe':
+      tab.subscriptions.get(message.id)?.();
+      tab.subscriptions.delete(message.id);
+      break;
+    case 'setBinanceEndpoints':
+      applyBinanceEndpoints(message.endpoints);
+      break;
+    case 'reconnect':
+      manager.reconnect(message.key);
+      break;
+    case 'reconnectAll':
+      manager.reconnectAll({
+        includeConnected: message.includeConnected,
+        onlyFailed: message.onlyFailed,
+      });
+      break;
+    case 'getMetrics':
+      send(tab, { type: 'metrics', metrics: manager.getMetrics() });
+      break;
+    case 'resetMetrics':
+      manager.resetMetrics();
+      break;
+    case 'close':
+      closeTab(tab);
+      break;
+    case 'ping':
+      break;
+  }
+}
+
+/**
+ * 登记新标签页并推送当前连接状态
+ */
+function connectTab(port: TabPort): TabConnection {
+  const tab: TabConnection = { port, subscriptions: new Map(), lastSeen: Date.now() };
+  tabs.add(tab);
+  send(tab, { type: 'status', statuses: serializeStatuses() });
+  console.log(`[WebSocketWorker] Tab connected, ${tabs.size} tab(s)`);
+  return tab;
+}
+
+if ('onconnect' in scope) {
+  // SharedWorker：每个标签页一个 MessagePort
+  scope.onconnect = (event) => {
+    const port = event.ports[0];
+    const tab = connectTab(port);
+    port.onmessage = (message: MessageEvent<TabMessage>) => handleTabMessage(tab, message.data);
+    port.start();
+  };
+} else {
+  // 专属 Worker：只有创建它的标签页；标签页发送 close 后仍可能从 bfcache 恢复，不关闭 Worker
+  let tab: TabConnection | null = null;
+  const port: TabPort = {
+    postMessage: (message) => scope.postMessage(message),
+    close: () => {
+      tab = null;
+    },
+  };
+  scope.onmessage = (event) => {
+    tab ??= connectTab(port);
+    handleTabMessage(tab, event.data);
+  };
+}
+
+// 连接状态变化时广播给所有标签页
+manager.subscribeStatus(() => {
+  const statuses = serializeStatuses();
+  tabs.forEach((tab) => send(tab, { type: 'status', statuses }));
+});
+
+// 清理长时间没有心跳的标签页（崩溃或未触发 pagehide）
+setInterval(() => {
+  const now = Date.now();
+  tabs.forEach((tab) => {
+    if (now - tab.lastSeen > TAB_TIMEOUT) closeTab(tab);
+  });
+}, TAB_TIMEOUT / 3);
+
+// worker 中没有 window，恢复联网时由这里触发重连
+scope.addEventListener('online', () => manager.reconnectAll());
@@ -0,0 +1,53 @@
+import type { CombinedStreamOptions, ConnectionStatus, HeartbeatOptions } from './types';
+import type { ConnectionMetrics } from './streamMetrics';
+import type { BinanceEndpoints } from './endpoints';
+import type { KlineFeedRequest, OrderBookFeedRequest, TradeFeedRequest } from './MarketDataFeed';
+
+/**
+ * WorkerTransport 与 websocket.worker 之间的消息协议
+ */
+
+/** 标签页心跳间隔：worker 据此清理已关闭标签页的订阅 */
+export const TAB_PING_INTERVAL = 20_000;
+/** 标签页超时：后台标签页的定时器可能被节流到每分钟一次，留足余量 */
+export const TAB_TIMEOUT = 180_000;
+
+/**
+ * 标签页 -> worker 消息
+ */
+export type TabMessage =
+  | {
+      type: 'subscribe';
+      id: number;
+      key: string;
+      url: string;
+      maxReconnectAttempts?: number;
+      heartbeat?: HeartbeatOptions;
+      subscribeMessage?: unknown;
+    }
+  | {
+      type: 'subscribeStream';
+      id: number;
+      baseUrl: string;
+      stream: string;
+      options?: CombinedStreamOptions;
+    }
+  | { type: 'subscribeOrderBook'; id: number; request: OrderBookFeedRequest }
+  | { type: 'subscribeTrades'; id: number; request: TradeFeedRequest }
+  | { type: 'subscribeKlines'; id: number; request: KlineFeedRequest }
+  | { type: 'unsubscribe'; id: number }
+  | { type: 'setBinanceEndpoints'; endpoints: BinanceEndpoints }
+  | { type: 'reconnect'; key: string }
+  | { type: 'reconnectAll'; includeConnected?: boolean; onlyFailed?: boolean }
+  | { type: 'getMetrics' }
+  | { type: 'resetMetrics' }
+  | { type: 'ping' }
+  | { type: 'close' };
+
+/**
+ * worker -> 标签页消息
+ */
+export type WorkerMessage =
+  | { type: 'message'; id: number; data: unknown }
+  | { type: 'status'; statuses: ConnectionStatus[] }
+  | { type: 'metrics'; metrics: ConnectionMetrics[] };
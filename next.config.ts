@@ -2,6 +2,8 @@ import type { NextConfig } from "next";
 import path from "path";
 
 const nextConfig: NextConfig = {
+  // Used by the /api/stream relay; loaded from node_modules so its optional native addons stay optional
+  serverExternalPackages: ["ws"],
   turbopack: {
     root: __dirname,
     resolveAlias: {
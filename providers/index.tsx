@@ -1,8 +1,48 @@
 'use client';
 
-import { KlineChartProvider } from '@/lib/kline';
+import {
+  KlineChartProvider,
+  SimulatedDataSource,
+  ProxyDataSource,
+  createDataSource,
+  ExchangeId,
+  IKlineDataSource,
+} from '@/lib/kline';
 import { ReactNode } from 'react';
 
+const EXCHANGES: ExchangeId[] = ['binance', 'okx', 'bybit', 'coinbase'];
+
+/**
+ * Picks the market data source from NEXT_PUBLIC_KLINE_DATA_SOURCE:
+ * 'simulated' for offline development, 'proxy' for Binance history through
+ * the app's /api routes, an exchange id, or unset for the provider's default
+ * Binance source.
+ */
+function createAppDataSource(): IKlineDataSource | undefined {
+  const source = process.env.NEXT_PUBLIC_KLINE_DATA_SOURCE;
+
+  if (source === 'simulated') {
+    const seed = Number(process.env.NEXT_PUBLIC_SIMULATOR_SEED);
+    return new SimulatedDataSource({
+      seed: Number.isFinite(seed) ? seed : undefined,
+      // Anchor at today's UTC midnight so the live price stays near the initial price
+      anchorTime: Math.floor(Date.now() / 86_400_000) * 86_400_000,
+    });
+  }
+
+  if (source === 'proxy') {
+    return new ProxyDataSource({ enableCache: false });
+  }
+
+  if (EXCHANGES.includes(source as ExchangeId)) {
+    return createDataSource(source as ExchangeId, { enableCache: false });
+  }
+
+  return undefined;
+}
+
+const dataSource = createAppDataSource();
+
 export function Providers({ children }: { children: ReactNode }) {
-  return <KlineChartProvider>{children}</KlineChartProvider>;
+  return <KlineChartProvider dataSource={dataSource}>{children}</KlineChartProvider>;
 }
@@ -0,0 +1,799 @@
+#!/usr/bin/env node
+/**
+ * 本地 Binance 兼容模拟服务（无第三方依赖）
+ *
+ * REST：/api/v3/klines、/api/v3/depth、/api/v3/aggTrades、/api/v3/exchangeInfo、/api/v3/ping、/api/v3/time
+ * WebSocket：/ws/<stream>、/stream?streams=a/b（组合流），支持 SUBSCRIBE / UNSUBSCRIBE / LIST_SUBSCRIPTIONS
+ * 数据流：<symbol>@kline_<interval>、<symbol>@depth、<symbol>@depth@100ms、<symbol>@trade
+ *
+ * 故障注入（HTTP 控制接口或 --script 时间线）：
+ * - disconnect：断开连接（code=1006 时直接断开 TCP，不发送关闭帧）
+ * - silence：停止发送任何帧（含 ping）并忽略客户端消息，用于触发心跳超时
+ * - malformed：发送格式错误的帧（json / schema / error）
+ *
+ * 用法：
+ *   node scripts/mock-binance-server.mjs [--port 8080] [--script "10:disconnect,30:silence=90000,60:malformed=json"]
+ *   NEXT_PUBLIC_BINANCE_ENDPOINT=custom pnpm dev   # custom 预设默认指向 localhost:8080
+ */
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+// ============= 配置 =============
+
+function parseArgs(argv) {
+  const options = { port: Number(process.env.MOCK_PORT) || 8080, script: '' };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--port') options.port = Number(argv[++i]);
+    else if (arg === '--script') options.script = argv[++i] ?? '';
+    else if (arg === '--help' || arg === '-h') options.help = true;
+  }
+  return options;
+}
+
+const options = parseArgs(process.argv.slice(2));
+
+if (options.help) {
+  console.log(`Usage: node scripts/mock-binance-server.mjs [--port 8080] [--script "<sec>:<action>[=<arg>],..."]
+
+Actions (also available as POST /__mock/<action>):
+  disconnect[=code]       close all sockets (1006 drops TCP without a close frame)
+  silence[=ms]            send nothing and ignore clients for ms (default 90000)
+  malformed[=kind]        send a json | schema | error frame to every stream (default json)
+  reset                   end silence
+GET /__mock/status        connections and subscriptions`);
+  process.exit(0);
+}
+
+/** 交易对：基础价格、价格精度、数量精度 */
+const SYMBOLS = {
+  BTCUSDT: { base: 'BTC', quote: 'USDT', price: 65000, tickSize: '0.01', stepSize: '0.00001' },
+  ETHUSDT: { base: 'ETH', quote: 'USDT', price: 3200, tickSize: '0.01', stepSize: '0.0001' },
+  BNBUSDT: { base: 'BNB', quote: 'USDT', price: 580, tickSize: '0.01', stepSize: '0.001' },
+  SOLUSDT: { base: 'SOL', quote: 'USDT', price: 150, tickSize: '0.01', stepSize: '0.001' },
+  ETHBTC: { base: 'ETH', quote: 'BTC', price: 0.05, tickSize: '0.00001', stepSize: '0.0001' },
+};
+
+const INTERVALS = {
+  '1s': 1_000,
+  '1m': 60_000,
+  '3m': 180_000,
+  '5m': 300_000,
+  '15m': 900_000,
+  '30m': 1_800_000,
+  '1h': 3_600_000,
+  '2h': 7_200_000,
+  '4h': 14_400_000,
+  '6h': 21_600_000,
+  '8h': 28_800_000,
+  '12h': 43_200_000,
+  '1d': 86_400_000,
+  '3d': 259_200_000,
+  '1w': 604_800_000,
+  '1M': 2_592_000_000, // 按 30 天近似
+};
+
+/** Binance 服务端每 20 秒发送一次 ping */
+const SERVER_PING_INTERVAL = 20_000;
+/** 默认静默时长：超过客户端默认心跳超时（60 秒） */
+const DEFAULT_SILENCE = 90_000;
+
+// ============= 价格模型 =============
+
+/**
+ * 确定性伪随机数（0 ~ 1），同一输入总是得到同一输出，保证 REST 历史与实时推送一致
+ */
+function noise(seed, n) {
+  let h = (seed * 374761393 + n * 668265263) | 0;
+  h = Math.imul(h ^ (h >>> 13), 1274126177);
+  return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
+}
+
+function symbolSeed(symbol) {
+  let seed = 0;
+  for (const char of symbol) seed = (seed * 31 + char.charCodeAt(0)) | 0;
+  return seed;
+}
+
+/**
+ * time 时刻（毫秒）的价格：两条正弦波叠加逐秒噪声
+ */
+function priceAt(symbol, time) {
+  const { price } = SYMBOLS[symbol];
+  const seed = symbolSeed(symbol);
+  const phase = noise(seed, 0) * Math.PI * 2;
+  const drift = 0.02 * Math.sin((2 * Math.PI * time) / 3_600_000 + phase);
+  const wave = 0.004 * Math.sin((2 * Math.PI * time) / 300_000 + phase * 2);
+  const jitter = 0.0008 * (noise(seed, Math.floor(time / 1000)) - 0.5);
+  return price * (1 + drift + wave + jitter);
+}
+
+function decimals(step) {
+  return step.includes('.') ? step.split('.')[1].length : 0;
+}
+
+function formatPrice(symbol, value) {
+  return value.toFixed(decimals(SYMBOLS[symbol].tickSize));
+}
+
+function formatQty(symbol, value) {
+  return value.toFixed(decimals(SYMBOLS[symbol].stepSize));
+}
+
+// 最近两根 K 线已生成过的最高/最低价（按 symbol:interval 保存），见 mergeRecentExtremes
+const recentExtremes = new Map();
+
+/**
+ * 将最近 K 线的高低点与之前生成的结果合并
+ *
+ * 价格按步长采样，收盘价取 now 时刻的价格；now 前进后旧的收盘价不再被采样，
+ * 不合并的话实时推送的 high/low 会回退。
+ */
+function mergeRecentExtremes(symbol, intervalMs, openTime, now, high, low) {
+  if (openTime + 2 * intervalMs <= now) return { high, low };
+
+  const key = `${symbol}:${intervalMs}`;
+  const entries = recentExtremes.get(key) ?? new Map();
+  const seen = entries.get(openTime);
+  const merged = seen
+    ? { high: Math.max(seen.high, high), low: Math.min(seen.low, low) }
+    : { high, low };
+  entries.set(openTime, merged);
+  for (const time of entries.keys()) {
+    if (time + 2 * intervalMs <= now) entries.delete(time);
+  }
+  recentExtremes.set(key, entries);
+  return merged;
+}
+
+/**
+ * 生成 [openTime, openTime + interval) 的 K 线；未收盘的 K 线截止到 now
+ */
+function candleAt(symbol, intervalMs, openTime, now) {
+  const closeTime = openTime + intervalMs - 1;
+  const end = Math.min(closeTime, now);
+  const step = Math.max(1000, Math.floor(intervalMs / 60));
+  const open = priceAt(symbol, openTime);
+  let high = open;
+  let low = open;
+  for (let t = openTime + step; t < end; t += step) {
+    const price = priceAt(symbol, t);
+    high = Math.max(high, price);
+    low = Math.min(low, price);
+  }
+  const close = priceAt(symbol, end);
+  ({ high, low } = mergeRecentExtremes(
+    symbol,
+    intervalMs,
+    openTime,
+    now,
+    Math.max(high, close),
+    Math.min(low, close)
+  ));
+
+  const seed = symbolSeed(symbol);
+  const elapsed = (end - openTime + 1) / intervalMs;
+  const volume = (intervalMs / 60_000) * (5 + noise(seed, openTime / 1000) * 20) * elapsed;
+  const trades = Math.max(1, Math.round(volume * 10));
+  const takerBuy = volume * (0.4 + noise(seed, openTime / 1000 + 1) * 0.2);
+
+  return {
+    openTime,
+    closeTime,
+    open: formatPrice(symbol, open),
+    high: formatPrice(symbol, high),
+    low: formatPrice(symbol, low),
+    close: formatPrice(symbol, close),
+    volume: formatQty(symbol, volume),
+    quoteVolume: (volume * close).toFixed(8),
+    trades,
+    takerBuyVolume: formatQty(symbol, takerBuy),
+    takerBuyQuoteVolume: (takerBuy * close).toFixed(8),
+    isClosed: now > closeTime,
+  };
+}
+
+/**
+ * 围绕当前价格生成 levels 档盘口
+ */
+function depthAt(symbol, time, levels = 20) {
+  const tick = Number(SYMBOLS[symbol].tickSize);
+  const mid = priceAt(symbol, time);
+  const bestBid = Math.floor(mid / tick) * tick;
+  const seed = symbolSeed(symbol);
+  const epoch = Math.floor(time / 1000);
+  const qty = (i, side) => formatQty(symbol, 0.05 + noise(seed, epoch * 97 + i * 2 + side) * 2);
+
+  const bids = [];
+  const asks = [];
+  for (let i = 0; i < levels; i++) {
+    bids.push([formatPrice(symbol, bestBid - i * tick), qty(i, 0)]);
+    asks.push([formatPrice(symbol, bestBid + (i + 1) * tick), qty(i, 1)]);
+  }
+  return { bids, asks };
+}
+
+// ============= REST =============
+
+let nextUpdateId = 1_000_000;
+let nextTradeId = 5_000_000;
+
+function sendJson(res, status, body, weight = 1) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'x-mbx-used-weight-1m': String(weight),
+  });
+  res.end(JSON.stringify(body));
+}
+
+function apiError(res, code, msg) {
+  sendJson(res, 400, { code, msg });
+}
+
+function requireSymbol(res, params) {
+  const symbol = params.get('symbol')?.toUpperCase();
+  if (!symbol || !SYMBOLS[symbol]) {
+    apiError(res, -1121, 'Invalid symbol.');
+    return null;
+  }
+  return symbol;
+}
+
+function handleKlines(res, params) {
+  const symbol = requireSymbol(res, params);
+  if (!symbol) return;
+  const interval = params.get('interval');
+  const intervalMs = INTERVALS[interval];
+  if (!intervalMs) return apiError(res, -1120, 'Invalid interval.');
+
+  const now = Date.now();
+  const limit = Math.min(Number(params.get('limit')) || 500, 1000);
+  const startTime = params.has('startTime') ? Number(params.get('startTime')) : null;
+  const endTime = Math.min(params.has('endTime') ? Number(params.get('endTime')) : now, now);
+
+  // 有 startTime 时从前往后取，否则取 endTime 之前最近的 limit 根
+  const first =
+    startTime !== null
+      ? Math.ceil(startTime / intervalMs) * intervalMs
+      : Math.floor(endTime / intervalMs) * intervalMs - (limit - 1) * intervalMs;
+
+  const rows = [];
+  for (let openTime = first; openTime <= endTime && rows.length < limit; openTime += intervalMs) {
+    const c = candleAt(symbol, intervalMs, openTime, now);
+    rows.push([
+      c.openTime,
+      c.open,
+      c.high,
+      c.low,
+      c.close,
+      c.volume,
+      c.closeTime,
+      c.quoteVolume,
+      c.trades,
+      c.takerBuyVolume,
+      c.takerBuyQuoteVolume,
+      '0',
+    ]);
+  }
+  sendJson(res, 200, rows, 2);
+}
+
+function handleDepth(res, params) {
+  const symbol = requireSymbol(res, params);
+  if (!symbol) return;
+  const limit = Math.min(Number(params.get('limit')) || 100, 5000);
+  const { bids, asks } = depthAt(symbol, Date.now(), Math.min(limit, 200));
+  sendJson(res, 200, { lastUpdateId: nextUpdateId, bids, asks }, 5);
+}
+
+function handleAggTrades(res, params) {
+  const symbol = requireSymbol(res, params);
+  if (!symbol) return;
+  const limit = Math.min(Number(params.get('limit')) || 500, 1000);
+  const now = Date.now();
+  const seed = symbolSeed(symbol);
+  const trades = [];
+  for (let i = limit - 1; i >= 0; i--) {
+    const time = now - i * 250;
+    const id = nextTradeId - i;
+    trades.push({
+      a: id,
+      p: formatPrice(symbol, priceAt(symbol, time)),
+      q: formatQty(symbol, 0.001 + noise(seed, id) * 0.5),
+      f: id,
+      l: id,
+      T: time,
+      m: noise(seed, id + 1) > 0.5,
+      M: true,
+    });
+  }
+  sendJson(res, 200, trades, 2);
+}
+
+function handleExchangeInfo(res) {
+  sendJson(
+    res,
+    200,
+    {
+      timezone: 'UTC',
+      serverTime: Date.now(),
+      symbols: Object.entries(SYMBOLS).map(([symbol, info]) => ({
+        symbol,
+        status: 'TRADING',
+        baseAsset: info.base,
+        baseAssetPrecision: 8,
+        quoteAsset: info.quote,
+        quoteAssetPrecision: 8,
+        filters: [
+          { filterType: 'PRICE_FILTER', minPrice: info.tickSize, maxPrice: '1000000.00000000', tickSize: info.tickSize },
+          { filterType: 'LOT_SIZE', minQty: info.stepSize, maxQty: '9000.00000000', stepSize: info.stepSize },
+          { filterType: 'NOTIONAL', minNotional: '5.00000000' },
+        ],
+      })),
+    },
+    20
+  );
+}
+
+// ============= WebSocket（RFC 6455 最小实现） =============
+
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+function encodeFrame(opcode, payload = Buffer.alloc(0)) {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * 从缓冲区解析完整的客户端帧（客户端帧必须带掩码），返回帧列表和剩余字节
+ */
+function decodeFrames(buffer) {
+  const frames = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let cursor = offset + 2;
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break;
+      length = Number(buffer.readBigUInt64BE(cursor));
+      cursor += 8;
+    }
+    const maskLength = masked ? 4 : 0;
+    if (buffer.length < cursor + maskLength + length) break;
+
+    const payload = Buffer.from(buffer.subarray(cursor + maskLength, cursor + maskLength + length));
+    if (masked) {
+      const mask = buffer.subarray(cursor, cursor + 4);
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    }
+    frames.push({ opcode, payload });
+    offset = cursor + maskLength + length;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+}
+
+/** 故障注入状态 */
+const chaos = { silentUntil: 0 };
+
+function isSilent() {
+  return Date.now() < chaos.silentUntil;
+}
+
+/** 所有客户端连接 */
+const clients = new Set();
+
+class MockClient {
+  constructor(socket, path, combined, streams) {
+    this.socket = socket;
+    this.path = path;
+    this.combined = combined;
+    this.streams = new Set(streams);
+    this.buffer = Buffer.alloc(0);
+    this.closed = false;
+
+    socket.on('data', (chunk) => this.handleData(chunk));
+    socket.on('close', () => this.cleanup());
+    socket.on('error', () => this.cleanup());
+  }
+
+  send(opcode, payload) {
+    if (this.closed || isSilent()) return;
+    this.socket.write(encodeFrame(opcode, payload));
+  }
+
+  sendText(text) {
+    this.send(OPCODE_TEXT, Buffer.from(text));
+  }
+
+  /** 推送数据流消息（组合流带 { stream, data } 外层） */
+  push(stream, data) {
+    if (!this.streams.has(stream)) return;
+    this.sendText(JSON.stringify(this.combined ? { stream, data } : data));
+  }
+
+  /**
+   * code 为 1006 时直接断开 TCP（模拟网络中断），否则发送关闭帧
+   */
+  disconnect(code = 1006) {
+    if (this.closed) return;
+    if (code !== 1006) {
+      const payload = Buffer.alloc(2);
+      payload.writeUInt16BE(code);
+      this.socket.write(encodeFrame(OPCODE_CLOSE, payload));
+      this.socket.end();
+    } else {
+      this.socket.destroy();
+    }
+    this.cleanup();
+  }
+
+  handleData(chunk) {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    const { frames, rest } = decodeFrames(this.buffer);
+    this.buffer = rest;
+    // 静默期间忽略客户端消息（包括 ping）
+    if (isSilent()) return;
+
+    for (const { opcode, payload } of frames) {
+      if (opcode === OPCODE_PING) this.send(OPCODE_PONG, payload);
+      else if (opcode === OPCODE_CLOSE) this.disconnect(payload.length >= 2 ? payload.readUInt16BE(0) : 1000);
+      else if (opcode === OPCODE_TEXT) this.handleRequest(payload.toString());
+    }
+  }
+
+  /**
+   * SUBSCRIBE / UNSUBSCRIBE / LIST_SUBSCRIPTIONS
+   */
+  handleRequest(text) {
+    let request;
+    try {
+      request = JSON.parse(text);
+    } catch {
+      this.sendText(JSON.stringify({ error: { code: 3, msg: 'Invalid JSON' }, id: null }));
+      return;
+    }
+
+    const { method, params = [], id } = request;
+    if (method === 'SUBSCRIBE') {
+      params.forEach((stream) => this.streams.add(stream));
+      this.sendText(JSON.stringify({ result: null, id }));
+    } else if (method === 'UNSUBSCRIBE') {
+      params.forEach((stream) => this.streams.delete(stream));
+      this.sendText(JSON.stringify({ result: null, id }));
+    } else if (method === 'LIST_SUBSCRIPTIONS') {
+      this.sendText(JSON.stringify({ result: [...this.streams], id }));
+    } else {
+      this.sendText(JSON.stringify({ error: { code: 2, msg: `Invalid request: unknown method ${method}` }, id }));
+    }
+  }
+
+  cleanup() {
+    if (this.closed) return;
+    this.closed = true;
+    clients.delete(this);
+    console.log(`[MockBinance] Client disconnected (${clients.size} open)`);
+  }
+}
+
+/**
+ * 解析连接地址：/ws/<stream>、/ws、/stream?streams=a/b
+ */
+function parseStreamPath(url) {
+  if (url.pathname === '/stream') {
+    const streams = url.searchParams.get('streams');
+    return { combined: true, streams: streams ? streams.split('/') : [] };
+  }
+  if (url.pathname === '/ws' || url.pathname.startsWith('/ws/')) {
+    const stream = url.pathname.slice('/ws/'.length);
+    return { combined: false, streams: stream ? [stream] : [] };
+  }
+  return null;
+}
+
+function handleUpgrade(req, socket) {
+  const url = new URL(req.url, 'http://localhost');
+  const target = parseStreamPath(url);
+  const key = req.headers['sec-websocket-key'];
+  if (!target || !key) {
+    socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+    return;
+  }
+
+  const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  socket.setNoDelay(true);
+
+  const client = new MockClient(socket, url.pathname + url.search, target.combined, target.streams);
+  clients.add(client);
+  console.log(`[MockBinance] Client connected: ${client.path} (${clients.size} open)`);
+}
+
+// ============= 推送 =============
+
+/**
+ * 所有连接订阅的数据流（去重）
+ */
+function activeStreams() {
+  const streams = new Set();
+  clients.forEach((client) => client.streams.forEach((stream) => streams.add(stream)));
+  return streams;
+}
+
+function broadcast(stream, data) {
+  clients.forEach((client) => client.push(stream, data));
+}
+
+function parseStream(stream) {
+  const match = /^([a-z0-9]+)@(kline_(\w+)|depth(@100ms)?|trade)$/.exec(stream);
+  if (!match) return null;
+  const symbol = match[1].toUpperCase();
+  if (!SYMBOLS[symbol]) return null;
+  if (match[3]) return { symbol, type: 'kline', interval: match[3] };
+  if (match[2].startsWith('depth')) return { symbol, type: 'depth', fast: Boolean(match[4]) };
+  return { symbol, type: 'trade' };
+}
+
+// 每个 K 线流上一次推送的开盘时间，跨周期时先推送已收盘的 K 线
+const lastKlineOpen = new Map();
+// 每个深度流上一次推送的档位，用于生成删除档位（数量为 0）
+const lastDepthLevels = new Map();
+
+/**
+ * K 线内第一笔成交的 ID（由开盘时间推出，同一根 K 线的多次推送保持不变）
+ */
+function firstTradeId(openTime) {
+  return Math.floor(openTime / 100);
+}
+
+function klineEvent(symbol, interval, candle, now) {
+  return {
+    e: 'kline',
+    E: now,
+    s: symbol,
+    k: {
+      t: candle.openTime,
+      T: candle.closeTime,
+      s: symbol,
+      i: interval,
+      f: firstTradeId(candle.openTime),
+      L: firstTradeId(candle.openTime) + candle.trades - 1,
+      o: candle.open,
+      c: candle.close,
+      h: candle.high,
+      l: candle.low,
+      v: candle.volume,
+      n: candle.trades,
+      x: candle.isClosed,
+      q: candle.quoteVolume,
+      V: candle.takerBuyVolume,
+      Q: candle.takerBuyQuoteVolume,
+      B: '0',
+    },
+  };
+}
+
+function pushKline(stream, { symbol, interval }, now) {
+  const intervalMs = INTERVALS[interval];
+  if (!intervalMs) return;
+  const openTime = Math.floor(now / intervalMs) * intervalMs;
+  const previous = lastKlineOpen.get(stream);
+  if (previous !== undefined && previous < openTime) {
+    broadcast(stream, klineEvent(symbol, interval, candleAt(symbol, intervalMs, previous, now), now));
+  }
+  lastKlineOpen.set(stream, openTime);
+  broadcast(stream, klineEvent(symbol, interval, candleAt(symbol, intervalMs, openTime, now), now));
+}
+
+function pushDepth(stream, { symbol }, now) {
+  const { bids, asks } = depthAt(symbol, now);
+  const previous = lastDepthLevels.get(stream) ?? { bids: new Set(), asks: new Set() };
+  const withRemovals = (levels, previousPrices) => {
+    const current = new Set(levels.map(([price]) => price));
+    const removed = [...previousPrices].filter((price) => !current.has(price)).map((price) => [price, '0']);
+    return { levels: [...removed, ...levels], current };
+  };
+  const bidUpdate = withRemovals(bids, previous.bids);
+  const askUpdate = withRemovals(asks, previous.asks);
+  lastDepthLevels.set(stream, { bids: bidUpdate.current, asks: askUpdate.current });
+
+  const firstUpdateId = nextUpdateId + 1;
+  nextUpdateId += bidUpdate.levels.length + askUpdate.levels.length;
+  broadcast(stream, {
+    e: 'depthUpdate',
+    E: now,
+    s: symbol,
+    U: firstUpdateId,
+    u: nextUpdateId,
+    b: bidUpdate.levels,
+    a: askUpdate.levels,
+  });
+}
+
+function pushTrade(stream, { symbol }, now) {
+  const seed = symbolSeed(symbol);
+  const id = ++nextTradeId;
+  broadcast(stream, {
+    e: 'trade',
+    E: now,
+    s: symbol,
+    t: id,
+    p: formatPrice(symbol, priceAt(symbol, now)),
+    q: formatQty(symbol, 0.001 + noise(seed, id) * 0.5),
+    T: now,
+    m: noise(seed, id + 1) > 0.5,
+    M: true,
+  });
+}
+
+let tick = 0;
+// 100ms 节拍：快速深度每拍推送，普通深度和 K 线每秒推送，成交随机推送
+setInterval(() => {
+  tick++;
+  const now = Date.now();
+  activeStreams().forEach((stream) => {
+    const parsed = parseStream(stream);
+    if (!parsed) return;
+    if (parsed.type === 'depth' && (parsed.fast || tick % 10 === 0)) pushDepth(stream, parsed, now);
+    else if (parsed.type === 'kline' && tick % 10 === 0) pushKline(stream, parsed, now);
+    else if (parsed.type === 'trade' && Math.random() < 0.4) pushTrade(stream, parsed, now);
+  });
+}, 100);
+
+setInterval(() => clients.forEach((client) => client.send(OPCODE_PING)), SERVER_PING_INTERVAL);
+
+// ============= 故障注入 =============
+
+/**
+ * 对每个订阅的数据流发送一条格式错误的消息
+ *
+ * - json：无法解析的文本
+ * - schema：可解析但字段类型错误（价格为数字）
+ * - error：Binance 错误帧
+ */
+function sendMalformed(kind) {
+  clients.forEach((client) => {
+    if (kind === 'json') {
+      client.sendText('{"stream":"broken"');
+    } else if (kind === 'error') {
+      client.sendText(JSON.stringify({ error: { code: 2, msg: 'Invalid request: mock error frame' }, id: null }));
+    } else {
+      client.streams.forEach((stream) =>
+        client.push(stream, { e: 'trade', E: Date.now(), s: 'BTCUSDT', t: 'x', p: 1, q: null, T: 0, m: 'no' })
+      );
+    }
+  });
+}
+
+const actions = {
+  disconnect(arg) {
+    const code = Number(arg) || 1006;
+    const count = clients.size;
+    [...clients].forEach((client) => client.disconnect(code));
+    return `disconnected ${count} client(s) with code ${code}`;
+  },
+  silence(arg) {
+    const ms = Number(arg) || DEFAULT_SILENCE;
+    chaos.silentUntil = Date.now() + ms;
+    return `silent for ${ms}ms`;
+  },
+  malformed(arg) {
+    const kind = ['json', 'schema', 'error'].includes(arg) ? arg : 'json';
+    sendMalformed(kind);
+    return `sent ${kind} frame to ${clients.size} client(s)`;
+  },
+  reset() {
+    chaos.silentUntil = 0;
+    return 'reset';
+  },
+};
+
+function runAction(name, arg) {
+  const action = actions[name];
+  if (!action) return null;
+  const result = action(arg);
+  console.log(`[MockBinance] ${name}: ${result}`);
+  return result;
+}
+
+/**
+ * --script "10:disconnect,30:silence=90000" ：启动后第 N 秒执行对应操作
+ */
+function scheduleScript(script) {
+  script
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .forEach((entry) => {
+      const [at, command] = entry.split(':');
+      const [name, arg] = (command ?? '').split('=');
+      if (!actions[name] || !Number.isFinite(Number(at))) {
+        console.warn(`[MockBinance] Ignoring invalid script entry: ${entry}`);
+        return;
+      }
+      setTimeout(() => runAction(name, arg), Number(at) * 1000);
+    });
+}
+
+// ============= HTTP 服务 =============
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url, 'http://localhost');
+  const params = url.searchParams;
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, { 'Access-Control-Allow-Origin': '*', 'Access-Control-Allow-Methods': 'GET, POST' });
+    res.end();
+    return;
+  }
+
+  if (url.pathname.startsWith('/__mock/')) {
+    const name = url.pathname.slice('/__mock/'.length);
+    if (name === 'status') {
+      sendJson(res, 200, {
+        silentUntil: chaos.silentUntil || null,
+        clients: [...clients].map((client) => ({ path: client.path, streams: [...client.streams] })),
+      });
+      return;
+    }
+    const result = runAction(name, params.get('code') ?? params.get('ms') ?? params.get('kind') ?? undefined);
+    if (result === null) sendJson(res, 404, { error: `Unknown action ${name}` });
+    else sendJson(res, 200, { result });
+    return;
+  }
+
+  switch (url.pathname) {
+    case '/api/v3/ping':
+      return sendJson(res, 200, {});
+    case '/api/v3/time':
+      return sendJson(res, 200, { serverTime: Date.now() });
+    case '/api/v3/klines':
+      return handleKlines(res, params);
+    case '/api/v3/depth':
+      return handleDepth(res, params);
+    case '/api/v3/aggTrades':
+      return handleAggTrades(res, params);
+    case '/api/v3/exchangeInfo':
+      return handleExchangeInfo(res);
+    default:
+      sendJson(res, 404, { code: -1, msg: `Unknown path ${url.pathname}` });
+  }
+});
+
+server.on('upgrade', handleUpgrade);
+
+server.listen(options.port, () => {
+  console.log(`[MockBinance] REST: http://localhost:${options.port}/api/v3`);
+  console.log(`[MockBinance] WebSocket: ws://localhost:${options.port}`);
+  console.log(`[MockBinance] Control: curl -X POST http://localhost:${options.port}/__mock/disconnect`);
+  if (options.script) scheduleScript(options.script);
+});
@@ -1,5 +1,11 @@
 import { create } from 'zustand';
 import Decimal from 'decimal.js';
+import type { SymbolInfo } from '@/lib/kline/exchangeInfo';
+import {
+  SymbolFormatter,
+  createSymbolFormatter,
+  DEFAULT_SYMBOL_FORMATTER,
+} from '@/lib/kline/format';
 
 type OrderSide = 'buy' | 'sell';
 type OrderType = 'limit' | 'market';
@@ -15,6 +21,11 @@ interface CalculatorState {
   baseBalance: string; // BTC balance
   quoteBalance: string; // USDT balance
 
+  // Trading rules of the traded symbol (null until exchangeInfo is loaded)
+  symbolInfo: SymbolInfo | null;
+  formatter: SymbolFormatter;
+  setSymbolInfo: (info: SymbolInfo | null) => void;
+
   // Actions
   setSide: (side: OrderSide) => void;
   setOrderType: (type: OrderType) => void;
@@ -39,6 +50,11 @@ export const useCalculatorStore = create<CalculatorState>((set, get) => ({
   quantity: '',
   baseBalance: '1.0', // Starting with 1 BTC
   quoteBalance: '50000.0', // Starting with 50,000 USDT
+  symbolInfo: null,
+  formatter: DEFAULT_SYMBOL_FORMATTER,
+
+  setSymbolInfo: (symbolInfo) =>
+    set({ symbolInfo, formatter: createSymbolFormatter(symbolInfo) }),
 
   setSide: (side) => set({ side }),
   setOrderType: (orderType) => set({ orderType }),
@@ -46,20 +62,21 @@ export const useCalculatorStore = create<CalculatorState>((set, get) => ({
   setQuantity: (quantity) => set({ quantity }),
 
   getTotal: () => {
-    const { price, quantity } = get();
+    const { price, quantity, formatter } = get();
     if (!price || !quantity) return '0';
 
     try {
       const priceDecimal = new Decimal(price);
       const quantityDecimal = new Decimal(quantity);
-      return priceDecimal.mul(quantityDecimal).toFixed(2);
+      // Keep the exact cost at the quote asset's precision; tick-based rounding is display-only
+      return priceDecimal.mul(quantityDecimal).toFixed(formatter.quoteBalancePrecision);
     } catch {
       return '0';
     }
   },
 
   canExecute: () => {
-    const { side, price, quantity, baseBalance, quoteBalance, getTotal } = get();
+    const { side, price, quantity, baseBalance, quoteBalance, symbolInfo, getTotal } = get();
 
     if (!quantity || !price) return false;
 
@@ -67,6 +84,14 @@ export const useCalculatorStore = create<CalculatorState>((set, get) => ({
       const quantityDecimal = new Decimal(quantity);
       if (quantityDecimal.lte(0)) return false;
 
+      // Enforce the exchange's LOT_SIZE and NOTIONAL filters
+      if (symbolInfo) {
+        if (quantityDecimal.lt(symbolInfo.minQty)) return false;
+        if (symbolInfo.minNotional && new Decimal(getTotal()).lt(symbolInfo.minNotional)) {
+          return false;
+        }
+      }
+
       if (side === 'buy') {
         const total = new Decimal(getTotal());
         const balance = new Decimal(quoteBalance);
@@ -81,7 +106,7 @@ export const useCalculatorStore = create<CalculatorState>((set, get) => ({
   },
 
   executeTrade: () => {
-    const { side, quantity, canExecute, getTotal, baseBalance, quoteBalance } = get();
+    const { side, quantity, canExecute, getTotal, baseBalance, quoteBalance, formatter } = get();
 
     if (!canExecute()) return;
 
@@ -92,15 +117,15 @@ export const useCalculatorStore = create<CalculatorState>((set, get) => ({
       if (side === 'buy') {
         // Buy: decrease USDT, increase BTC
         set({
-          baseBalance: new Decimal(baseBalance).plus(quantityDecimal).toFixed(8),
-          quoteBalance: new Decimal(quoteBalance).minus(total).toFixed(2),
+          baseBalance: formatter.formatBase(new Decimal(baseBalance).plus(quantityDecimal)),
+          quoteBalance: formatter.formatQuoteBalance(new Decimal(quoteBalance).minus(total)),
           quantity: '',
         });
       } else {
         // Sell: decrease BTC, increase USDT
         set({
-          baseBalance: new Decimal(baseBalance).minus(quantityDecimal).toFixed(8),
-          quoteBalance: new Decimal(quoteBalance).plus(total).toFixed(2),
+          baseBalance: formatter.formatBase(new Decimal(baseBalance).minus(quantityDecimal)),
+          quoteBalance: formatter.formatQuoteBalance(new Decimal(quoteBalance).plus(total)),
           quantity: '',
         });
       }
@@ -0,0 +1,59 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+// Number of recently picked symbols to remember
+const MAX_RECENTS = 8;
+
+interface MarketState {
+  // Active market shared by the chart, order book and trades (lowercase, e.g. btcusdt)
+  symbol: string;
+  // Binance symbols (uppercase, e.g. ETHBTC)
+  favorites: string[];
+  recents: string[];
+
+  // Actions
+  setSymbol: (symbol: string) => void;
+  toggleFavorite: (symbol: string) => void;
+}
+
+/**
+ * Active market plus favorites and recent picks, persisted to localStorage.
+ *
+ * Uses skipHydration so the server and the first client render agree;
+ * call useMarketStore.persist.rehydrate() once after mount.
+ */
+export const useMarketStore = create<MarketState>()(
+  persist(
+    (set) => ({
+      symbol: 'btcusdt',
+      favorites: [],
+      recents: [],
+
+      setSymbol: (symbol) =>
+        set((state) => {
+          const upper = symbol.toUpperCase();
+          return {
+            symbol: symbol.toLowerCase(),
+            recents: [upper, ...state.recents.filter((item) => item !== upper)].slice(
+              0,
+              MAX_RECENTS
+            ),
+          };
+        }),
+
+      toggleFavorite: (symbol) =>
+        set((state) => {
+          const upper = symbol.toUpperCase();
+          return {
+            favorites: state.favorites.includes(upper)
+              ? state.favorites.filter((item) => item !== upper)
+              : [...state.favorites, upper],
+          };
+        }),
+    }),
+    {
+      name: 'market',
+      skipHydration: true,
+    }
+  )
+);
@@ -28,11 +28,11 @@ export interface TradeData {
   t: number; // Trade ID
   p: string; // Price
   q: string; // Quantity
-  b: number; // Buyer order ID
-  a: number; // Seller order ID
+  b?: number; // Buyer order ID (no longer sent on spot streams)
+  a?: number; // Seller order ID (no longer sent on spot streams)
   T: number; // Trade time
   m: boolean; // Is buyer the market maker?
-  M: boolean; // Ignore
+  M?: boolean; // Ignore
 }
 
 export interface KlineData {
@@ -52,7 +52,7 @@ export interface KlineData {
   q: string; // Quote asset volume
   V: string; // Taker buy base asset volume
   Q: string; // Taker buy quote asset volume
-  B: string; // Ignore
+  B?: string; // Ignore
 }
 
 export interface KlineEvent {
@@ -61,3 +61,69 @@ export interface KlineEvent {
   s: string; // Symbol
   k: KlineData;
 }
+
+// Combined stream wrapper (/stream?streams=a/b)
+export interface CombinedStreamMessage<T = unknown> {
+  stream: string; // Stream name, e.g. btcusdt@trade
+  data: T;
+}
+
+// Response to a SUBSCRIBE / UNSUBSCRIBE request
+export interface SubscriptionAck {
+  result: unknown; // null on success
+  id: number | string; // Request ID
+}
+
+// Error frame sent for an invalid request
+export interface StreamErrorFrame {
+  error: {
+    code: number;
+    msg: string;
+  };
+  id?: number | string | null; // Request ID, if the request had one
+}
+
+// REST error body, e.g. { "code": -1121, "msg": "Invalid symbol." }
+export interface ApiErrorResponse {
+  code: number;
+  msg: string;
+}
+
+// REST /klines row: [openTime, open, high, low, close, volume, closeTime,
+// quoteVolume, trades, takerBuyVolume, takerBuyQuoteVolume, ignore]
+export type RestKline = [
+  number,
+  string,
+  string,
+  string,
+  string,
+  string,
+  number,
+  string,
+  number,
+  string,
+  string,
+  ...unknown[],
+];
+
+// Symbol filter from /exchangeInfo; only the fields we use are typed
+export interface SymbolFilter {
+  filterType: string; // PRICE_FILTER, LOT_SIZE, NOTIONAL, MIN_NOTIONAL, ...
+  [key: string]: unknown;
+}
+
+export interface ExchangeSymbol {
+  symbol: string; // e.g. BTCUSDT
+  status: string; // TRADING, BREAK, ...
+  baseAsset: string;
+  baseAssetPrecision: number;
+  quoteAsset: string;
+  quoteAssetPrecision: number;
+  filters: SymbolFilter[];
+}
+
+// GET /api/v3/exchangeInfo
+export interface ExchangeInfoResponse {
+  serverTime: number;
+  symbols: ExchangeSymbol[];
+}